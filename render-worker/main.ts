@@ -0,0 +1,245 @@
+// Server-side renderer for long videos. Claims jobs the browser queued on
+// video_generation_jobs, renders them with native FFmpeg and uploads the
+// videos to storage, writing progress back to the job row. See README.md.
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { dirname, resolve, SEP } from "https://deno.land/std@0.168.0/path/mod.ts";
+import type { RenderOutputSpec, ServerRenderManifest } from "../src/lib/render-protocol.ts";
+import { checkConcatList, concatLists, InvalidManifestError, validateManifest } from "./manifest.ts";
+
+const INPUT_BUCKET = "render-jobs";
+// Videos are kept with the project's other assets, see src/lib/assets.ts
+const ASSET_BUCKET = "video-assets";
+const POLL_INTERVAL_MS = Number(Deno.env.get("RENDER_POLL_INTERVAL_MS") ?? 5000);
+// Keeps the row fresh while FFmpeg works; rows left alone for ten minutes are handed to another worker
+const HEARTBEAT_MS = 60_000;
+const FFMPEG_PATH = Deno.env.get("FFMPEG_PATH") ?? "ffmpeg";
+const WORKER_ID = Deno.env.get("RENDER_WORKER_ID") ?? `${Deno.hostname()}-${Deno.pid}`;
+
+const FFMPEG_CLOCK = /time=(\d+):(\d{2}):(\d{2}(?:\.\d+)?)/;
+// Lines of FFmpeg output kept for the error message when it fails
+const LOG_TAIL_LINES = 20;
+
+const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+
+interface ClaimedJob {
+  id: string;
+  user_id: string;
+  project_id: string | null;
+  /** Written by the browser, so checked with `validateManifest` before use. */
+  manifest: unknown;
+}
+
+/** The job was cancelled by its user, or handed to another worker after this one stalled. */
+class JobLostError extends Error {
+  constructor(jobId: string) {
+    super(`Job ${jobId} is no longer assigned to this worker`);
+    this.name = "JobLostError";
+  }
+}
+
+async function claimJob(): Promise<ClaimedJob | null> {
+  const { data, error } = await supabase.rpc("claim_video_generation_job", { p_worker_id: WORKER_ID });
+  if (error) throw error;
+  return data?.[0] ?? null;
+}
+
+// Only writes while this worker still owns the job
+async function updateJob(jobId: string, patch: Record<string, unknown>) {
+  const { data, error } = await supabase
+    .from("video_generation_jobs")
+    .update(patch)
+    .eq("id", jobId)
+    .eq("worker_id", WORKER_ID)
+    .eq("status", "processing")
+    .select("id");
+  if (error) throw error;
+  if (!data?.length) throw new JobLostError(jobId);
+}
+
+/** A manifest path inside the work directory; `validateManifest` already rejects anything else. */
+function workPath(workDir: string, path: string): string {
+  const resolved = resolve(workDir, path);
+  if (!resolved.startsWith(workDir + SEP)) throw new InvalidManifestError(`${path} is outside the work directory`);
+  return resolved;
+}
+
+async function runFFmpeg(
+  spec: RenderOutputSpec,
+  cwd: string,
+  onProgress: (ratio: number) => void,
+  signal: AbortSignal
+) {
+  const child = new Deno.Command(FFMPEG_PATH, {
+    args: ["-nostdin", "-y", ...spec.args],
+    cwd,
+    stdin: "null",
+    stdout: "null",
+    stderr: "piped",
+    signal,
+  }).spawn();
+
+  // Status lines end in \r, log lines in \n
+  const tail: string[] = [];
+  let pending = "";
+  for await (const chunk of child.stderr.pipeThrough(new TextDecoderStream())) {
+    const lines = (pending + chunk).split(/[\r\n]/);
+    pending = lines.pop() ?? "";
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      tail.push(line);
+      if (tail.length > LOG_TAIL_LINES) tail.shift();
+
+      const match = line.match(FFMPEG_CLOCK);
+      if (match && spec.duration > 0) {
+        const seconds = Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]);
+        onProgress(Math.min(1, seconds / spec.duration));
+      }
+    }
+  }
+
+  const { code } = await child.status;
+  if (signal.aborted) throw signal.reason;
+  if (code !== 0) {
+    throw new Error(`FFmpeg exited with code ${code} while rendering ${spec.output}:\n${tail.join("\n")}`);
+  }
+}
+
+async function renderJob({ id, user_id, project_id, manifest: untrustedManifest }: ClaimedJob) {
+  const folder = `${user_id}/${id}`;
+  let manifest: ServerRenderManifest;
+  try {
+    manifest = validateManifest(untrustedManifest);
+  } catch (error) {
+    // Its file list can't be trusted either, so removing the uploaded inputs is left to the browser
+    console.error(`Job ${id} rejected:`, error);
+    await updateJob(id, {
+      status: "failed",
+      error_message: error instanceof Error ? error.message : String(error),
+    }).catch(() => {});
+    return;
+  }
+
+  const workDir = await Deno.makeTempDir({ prefix: `render-${id}-` });
+  const controller = new AbortController();
+  const [fromPercent, toPercent] = manifest.progressRange;
+  let currentStep = "Downloading render files";
+
+  // Progress writes are best effort, but they are also where a cancelled job is noticed
+  const report = (patch: Record<string, unknown>) =>
+    updateJob(id, { current_step: currentStep, ...patch }).catch((error) => {
+      if (error instanceof JobLostError) controller.abort(error);
+      else console.error(`Failed to report progress for job ${id}:`, error);
+    });
+  const heartbeat = setInterval(() => report({}), HEARTBEAT_MS);
+
+  try {
+    await report({ progress: fromPercent });
+    for (const dir of manifest.dirs) {
+      await Deno.mkdir(workPath(workDir, dir), { recursive: true });
+    }
+    for (const path of manifest.files) {
+      if (controller.signal.aborted) throw controller.signal.reason;
+      const { data, error } = await supabase.storage.from(INPUT_BUCKET).download(`${folder}/inputs/${path}`);
+      if (error) throw new Error(`Failed to download ${path}: ${error.message}`);
+      await Deno.mkdir(dirname(workPath(workDir, path)), { recursive: true });
+      await Deno.writeFile(workPath(workDir, path), new Uint8Array(await data.arrayBuffer()));
+    }
+    for (const path of concatLists(manifest)) {
+      checkConcatList(await Deno.readTextFile(workPath(workDir, path)), path);
+    }
+
+    const outputs: string[] = [];
+    const total = manifest.outputs.length;
+    let reportedPercent = fromPercent;
+    for (const [index, spec] of manifest.outputs.entries()) {
+      currentStep = total > 1 ? `Rendering video ${index + 1}/${total} on server` : "Rendering video on server";
+      await report({});
+
+      await runFFmpeg(
+        spec,
+        workDir,
+        (ratio) => {
+          const percent = fromPercent + Math.floor(((index + ratio) / total) * (toPercent - fromPercent));
+          if (percent > reportedPercent) {
+            reportedPercent = percent;
+            report({ progress: percent });
+          }
+        },
+        controller.signal
+      );
+
+      currentStep = "Uploading video";
+      await report({});
+      const path = `${folder}/videos/${spec.output}`;
+      const { error } = await supabase.storage
+        .from(ASSET_BUCKET)
+        .upload(path, await Deno.readFile(workPath(workDir, spec.output)), { contentType: "video/mp4", upsert: true });
+      if (error) throw new Error(`Failed to upload ${spec.output}: ${error.message}`);
+
+      const { error: assetError } = await supabase.from("video_assets").upsert(
+        {
+          user_id,
+          project_id,
+          job_id: id,
+          kind: "video",
+          storage_path: path,
+          content_type: "video/mp4",
+          format: spec.format,
+        },
+        { onConflict: "storage_path" }
+      );
+      if (assetError) throw new Error(`Failed to record ${spec.output}: ${assetError.message}`);
+      outputs.push(path);
+    }
+
+    await updateJob(id, {
+      status: "completed",
+      progress: 100,
+      current_step: "Video generation complete!",
+      outputs,
+    });
+    console.log(`Job ${id}: rendered ${outputs.length} video(s)`);
+  } catch (error) {
+    if (error instanceof JobLostError) {
+      console.log(`Job ${id}: stopped, ${error.message}`);
+    } else {
+      console.error(`Job ${id} failed:`, error);
+      await updateJob(id, {
+        status: "failed",
+        error_message: error instanceof Error ? error.message : String(error),
+      }).catch(() => {});
+    }
+  } finally {
+    clearInterval(heartbeat);
+    await Deno.remove(workDir, { recursive: true }).catch(() => {});
+    // The inputs are only needed for this render
+    await supabase.storage.from(INPUT_BUCKET).remove(manifest.files.map((path) => `${folder}/inputs/${path}`));
+  }
+}
+
+// Finish the job in hand before exiting, so it isn't left for the stale-claim timeout
+let stopping = false;
+for (const signal of ["SIGINT", "SIGTERM"] as const) {
+  Deno.addSignalListener(signal, () => {
+    console.log(`Received ${signal}, exiting after the current job`);
+    stopping = true;
+  });
+}
+
+console.log(`Render worker ${WORKER_ID} polling for jobs`);
+while (!stopping) {
+  let job: ClaimedJob | null = null;
+  try {
+    job = await claimJob();
+  } catch (error) {
+    console.error("Failed to claim a job:", error);
+  }
+
+  if (job) {
+    console.log(`Job ${job.id}: claimed`);
+    await renderJob(job);
+  } else {
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+}
+Deno.exit(0);
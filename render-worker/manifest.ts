@@ -0,0 +1,191 @@
+// Checks a job's manifest before anything in it touches the disk or FFmpeg.
+// The manifest is written by the browser, so it is untrusted: it may only name
+// files inside the job's work directory and may only use the FFmpeg options
+// and filters that `buildRenderArgs` produces.
+import type { ServerRenderManifest } from "../src/lib/render-protocol.ts";
+
+export class InvalidManifestError extends Error {
+  constructor(message: string) {
+    super(`Invalid render manifest: ${message}`);
+    this.name = "InvalidManifestError";
+  }
+}
+
+// Relative paths of plain names. No part may start with a dot or a dash, which
+// rules out `.`, `..`, hidden files and anything FFmpeg would read as an option,
+// and the lack of a colon rules out protocols such as `http:`, `file:` or `concat:`
+const SAFE_PATH = /^[A-Za-z0-9_][A-Za-z0-9._-]*(\/[A-Za-z0-9_][A-Za-z0-9._-]*)*$/;
+
+function checkPath(path: unknown, what: string): string {
+  if (typeof path !== "string" || !SAFE_PATH.test(path)) {
+    throw new InvalidManifestError(`${what} ${JSON.stringify(path)} is not a plain relative path`);
+  }
+  return path;
+}
+
+// Options `buildRenderArgs` uses, each with a check for its value
+const OPTION_VALUES: Record<string, (value: string) => boolean> = {
+  "-f": (value) => value === "concat",
+  "-safe": (value) => value === "0" || value === "1",
+  "-i": (value) => SAFE_PATH.test(value),
+  "-stream_loop": (value) => /^-?\d+$/.test(value),
+  "-filter_complex": () => true, // checked filter by filter below
+  "-map": (value) => /^\[\w+\]$/.test(value),
+  "-c:a": (value) => value === "aac",
+  "-b:a": (value) => /^\d+k$/.test(value),
+  "-c:v": (value) => value === "libx264",
+  "-pix_fmt": (value) => value === "yuv420p",
+  "-t": (value) => /^\d+(\.\d+)?$/.test(value),
+};
+
+// Filters `buildRenderArgs` uses; none of them opens files except `subtitles`, checked separately
+const FILTERS = new Set([
+  "adelay",
+  "afade",
+  "aformat",
+  "amix",
+  "apad",
+  "aresample",
+  "asetpts",
+  "asplit",
+  "atrim",
+  "colorchannelmixer",
+  "concat",
+  "crop",
+  "format",
+  "fps",
+  "loudnorm",
+  "null",
+  "overlay",
+  "pad",
+  "scale",
+  "setsar",
+  "sidechaincompress",
+  "subtitles",
+  "volume",
+  "xfade",
+  "zoompan",
+]);
+
+const SUBTITLE_PATH_OPTIONS = new Set(["filename", "fontsdir"]);
+
+/** Splits on any of `separators` outside single quotes, the way FFmpeg reads filter graphs. */
+function splitUnquoted(text: string, separators: string): string[] {
+  const parts: string[] = [];
+  let current = "";
+  let quoted = false;
+  for (const char of text) {
+    if (char === "'") quoted = !quoted;
+    if (!quoted && separators.includes(char)) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  if (quoted) throw new InvalidManifestError("unbalanced quote in the filter graph");
+  parts.push(current);
+  return parts;
+}
+
+const FILTER = /^((?:\[\w+(?::\w+)?\])*)([a-z_]+)(?:=(.*?))?((?:\[\w+\])*)$/s;
+
+function checkFilterGraph(graph: string) {
+  // Backslash escapes would let a filter's arguments end somewhere this parser doesn't see
+  if (graph.includes("\\")) throw new InvalidManifestError("escapes are not allowed in the filter graph");
+
+  for (const filter of splitUnquoted(graph, ";,")) {
+    const match = filter.trim().match(FILTER);
+    if (!match) throw new InvalidManifestError(`unexpected filter "${filter}"`);
+    const [, , name, args = ""] = match;
+    if (!FILTERS.has(name)) throw new InvalidManifestError(`the "${name}" filter is not allowed`);
+
+    for (const option of splitUnquoted(args, ":")) {
+      // FFmpeg reads an option written as `/name=path` from the file at path
+      if (option.startsWith("/")) throw new InvalidManifestError(`"${name}" options can't be loaded from files`);
+      if (name !== "subtitles") continue;
+      const [key, value] = option.split(/=(.*)/s);
+      if (SUBTITLE_PATH_OPTIONS.has(key)) checkPath(value, `subtitles ${key}`);
+      else if (key !== "force_style") throw new InvalidManifestError(`the subtitles option "${key}" is not allowed`);
+    }
+  }
+}
+
+function checkArgs(args: unknown, output: string) {
+  if (!Array.isArray(args) || !args.every((arg) => typeof arg === "string")) {
+    throw new InvalidManifestError("args must be a list of strings");
+  }
+  // Options with their values, then the output file last
+  if (args[args.length - 1] !== output) throw new InvalidManifestError(`args must end with the output ${output}`);
+  for (let i = 0; i < args.length - 1; i += 2) {
+    const [option, value] = [args[i], args[i + 1]];
+    const valid = OPTION_VALUES[option];
+    if (!valid) throw new InvalidManifestError(`the FFmpeg option ${JSON.stringify(option)} is not allowed`);
+    if (value === undefined || i + 1 === args.length - 1 || !valid(value)) {
+      throw new InvalidManifestError(`invalid value for ${option}: ${JSON.stringify(value)}`);
+    }
+    if (option === "-filter_complex") checkFilterGraph(value);
+  }
+}
+
+/**
+ * Concat scripts are read by FFmpeg with `-safe 0`, so every file they list
+ * must be a plain relative path too.
+ */
+export function checkConcatList(text: string, path: string) {
+  for (const line of text.split("\n")) {
+    if (!line.trim()) continue;
+    const file = line.match(/^file '([^']*)'$/);
+    if (file) checkPath(file[1], `file listed in ${path}`);
+    else if (!/^duration \d+(\.\d+)?$/.test(line)) throw new InvalidManifestError(`unexpected line in ${path}: ${line}`);
+  }
+}
+
+/** Inputs read with the concat demuxer: the first `-i` after each `-f concat`. */
+function concatInputs(args: string[]): string[] {
+  const inputs: string[] = [];
+  let concat = false;
+  for (let i = 0; i < args.length - 1; i += 2) {
+    if (args[i] === "-f") concat = args[i + 1] === "concat";
+    if (args[i] === "-i" && concat) {
+      inputs.push(args[i + 1]);
+      concat = false;
+    }
+  }
+  return inputs;
+}
+
+/** The concat scripts a validated manifest's outputs read, which `checkConcatList` must see before FFmpeg does. */
+export const concatLists = (manifest: ServerRenderManifest) =>
+  new Set(manifest.outputs.flatMap(({ args }) => concatInputs(args)));
+
+/** Throws an `InvalidManifestError` unless every path and FFmpeg argument in the manifest is allowed. */
+export function validateManifest(manifest: unknown): ServerRenderManifest {
+  const { dirs, files, outputs, progressRange } = (manifest ?? {}) as Partial<ServerRenderManifest>;
+  if (!Array.isArray(dirs) || !Array.isArray(files) || !Array.isArray(outputs) || outputs.length === 0) {
+    throw new InvalidManifestError("dirs, files and outputs must be lists");
+  }
+  dirs.forEach((dir) => checkPath(dir, "directory"));
+  files.forEach((file) => checkPath(file, "file"));
+  if (
+    !Array.isArray(progressRange) ||
+    progressRange.length !== 2 ||
+    !progressRange.every((percent) => Number.isInteger(percent) && percent >= 0 && percent <= 100)
+  ) {
+    throw new InvalidManifestError("progressRange must be two percentages");
+  }
+
+  for (const { args, output, duration, format } of outputs) {
+    checkPath(output, "output");
+    if (files.includes(output)) throw new InvalidManifestError(`output ${output} would overwrite an input`);
+    if (typeof duration !== "number" || !(duration >= 0)) throw new InvalidManifestError("duration must be a number");
+    if (typeof format !== "string") throw new InvalidManifestError("format must be a string");
+    checkArgs(args, output);
+  }
+
+  const manifestChecked = manifest as ServerRenderManifest;
+  for (const list of concatLists(manifestChecked)) {
+    if (!files.includes(list)) throw new InvalidManifestError(`concat script ${list} is not one of the files`);
+  }
+  return manifestChecked;
+}
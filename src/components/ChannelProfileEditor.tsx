@@ -0,0 +1,279 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Loader2, Trash2, Upload, X } from "lucide-react";
+import { toast } from "sonner";
+import { signedAssetUrl } from "@/lib/assets";
+import { uploadToSceneImage } from "@/lib/storyboard";
+import { SUBTITLE_FONTS } from "@/lib/subtitles";
+import {
+  deleteChannelProfile,
+  saveChannelProfile,
+  uploadLogo,
+  type ChannelProfile,
+  type ChannelProfileDraft,
+} from "@/lib/channel-profiles";
+
+// Select items can't have an empty value
+const DEFAULT_FONT = "default";
+
+interface ChannelProfileEditorProps {
+  /** The profile to edit, or a blank draft for a new one; the dialog is closed while null. */
+  profile: ChannelProfileDraft | null;
+  onClose: () => void;
+  onSaved: (profile: ChannelProfile) => void;
+  onDeleted: (id: string) => void;
+}
+
+export const ChannelProfileEditor = ({ profile, onClose, onSaved, onDeleted }: ChannelProfileEditorProps) => {
+  const [draft, setDraft] = useState<ChannelProfileDraft | null>(profile);
+  // Edited as one phrase per line and split on save, so blank lines can be typed
+  const [bannedText, setBannedText] = useState("");
+  const [logoUrl, setLogoUrl] = useState<string | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    setDraft(profile);
+    setBannedText(profile?.bannedPhrases.join("\n") ?? "");
+  }, [profile]);
+
+  // Logos live in the private asset bucket, so sign one to preview it
+  const logoPath = draft?.logoPath;
+  useEffect(() => {
+    setLogoUrl(null);
+    if (!logoPath) return;
+    let cancelled = false;
+    signedAssetUrl(logoPath)
+      .then((url) => !cancelled && setLogoUrl(url))
+      .catch((error) => console.error("Error signing logo:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [logoPath]);
+
+  if (!draft) return null;
+
+  const update = (patch: Partial<ChannelProfileDraft>) => setDraft({ ...draft, ...patch });
+
+  const handleUpload = async (files: FileList | null) => {
+    const file = files?.[0];
+    if (!file) return;
+    setUploading(true);
+    try {
+      const image = await uploadToSceneImage(file);
+      const blob = await (await fetch(image.url)).blob();
+      update({ logoPath: await uploadLogo(blob) });
+    } catch (error) {
+      console.error("Error uploading logo:", error);
+      toast.error(error instanceof Error ? error.message : `Could not upload ${file.name}`);
+    } finally {
+      setUploading(false);
+      if (fileInput.current) fileInput.current.value = "";
+    }
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const saved = await saveChannelProfile({ ...draft, bannedPhrases: bannedText.split("\n") });
+      toast.success(`Saved channel profile "${saved.name}"`);
+      onSaved(saved);
+    } catch (error) {
+      console.error("Error saving channel profile:", error);
+      toast.error("Failed to save the channel profile");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!draft.id) return;
+    setSaving(true);
+    try {
+      await deleteChannelProfile(draft.id);
+      toast.success(`Deleted channel profile "${draft.name}"`);
+      onDeleted(draft.id);
+    } catch (error) {
+      console.error("Error deleting channel profile:", error);
+      toast.error("Failed to delete the channel profile");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{draft.id ? "Edit channel profile" : "New channel profile"}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label htmlFor="profile-name">Channel name</Label>
+            <Input id="profile-name" value={draft.name} onChange={(e) => update({ name: e.target.value })} />
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="profile-voice">Brand voice</Label>
+            <Textarea
+              id="profile-voice"
+              value={draft.brandVoice}
+              placeholder="Friendly expert who explains with everyday analogies"
+              onChange={(e) => update({ brandVoice: e.target.value })}
+              className="min-h-[60px]"
+            />
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="profile-tone">Tone rules</Label>
+            <Textarea
+              id="profile-tone"
+              value={draft.toneRules}
+              placeholder="No clickbait, no slang, always cite sources on screen"
+              onChange={(e) => update({ toneRules: e.target.value })}
+              className="min-h-[60px]"
+            />
+          </div>
+
+          <div className="grid gap-3 sm:grid-cols-2">
+            <div className="space-y-1">
+              <Label htmlFor="profile-intro">Intro line</Label>
+              <Input
+                id="profile-intro"
+                value={draft.introLine}
+                placeholder="Welcome back to the workshop!"
+                onChange={(e) => update({ introLine: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="profile-outro">Outro line</Label>
+              <Input
+                id="profile-outro"
+                value={draft.outroLine}
+                placeholder="See you in the next build."
+                onChange={(e) => update({ outroLine: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="profile-cta">Call to action</Label>
+            <Input
+              id="profile-cta"
+              value={draft.cta}
+              placeholder="Grab the free plans at the link below"
+              onChange={(e) => update({ cta: e.target.value })}
+            />
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="profile-banned">Banned phrases</Label>
+            <Textarea
+              id="profile-banned"
+              value={bannedText}
+              placeholder={"One per line, e.g.\nsmash that like button"}
+              onChange={(e) => setBannedText(e.target.value)}
+              className="min-h-[60px]"
+            />
+          </div>
+
+          <div className="grid gap-3 sm:grid-cols-3">
+            <div className="space-y-1">
+              <Label htmlFor="profile-primary">Primary color</Label>
+              <Input
+                id="profile-primary"
+                type="color"
+                value={draft.primaryColor}
+                onChange={(e) => update({ primaryColor: e.target.value })}
+                className="h-10 p-1"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="profile-secondary">Secondary color</Label>
+              <Input
+                id="profile-secondary"
+                type="color"
+                value={draft.secondaryColor}
+                onChange={(e) => update({ secondaryColor: e.target.value })}
+                className="h-10 p-1"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="profile-font">Caption font</Label>
+              <Select
+                value={draft.font ?? DEFAULT_FONT}
+                onValueChange={(font) => update({ font: font === DEFAULT_FONT ? null : font })}
+              >
+                <SelectTrigger id="profile-font">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={DEFAULT_FONT}>Default</SelectItem>
+                  {Object.keys(SUBTITLE_FONTS).map((font) => (
+                    <SelectItem key={font} value={font}>
+                      {font}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Logo</Label>
+            <p className="text-xs text-muted-foreground">Watermarked in the corner of rendered videos. A PNG with transparency works best.</p>
+            {draft.logoPath ? (
+              <div className="flex items-center gap-3">
+                <div className="h-16 w-16 rounded border border-border bg-muted flex items-center justify-center overflow-hidden">
+                  {logoUrl ? (
+                    <img src={logoUrl} alt="Channel logo" className="max-h-full max-w-full object-contain" />
+                  ) : (
+                    <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+                  )}
+                </div>
+                <Button variant="outline" size="sm" onClick={() => update({ logoPath: null })}>
+                  <X className="w-4 h-4 mr-2" />
+                  Remove
+                </Button>
+              </div>
+            ) : (
+              <Button variant="outline" size="sm" onClick={() => fileInput.current?.click()} disabled={uploading}>
+                {uploading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Upload className="w-4 h-4 mr-2" />}
+                Upload logo
+              </Button>
+            )}
+            <input
+              ref={fileInput}
+              type="file"
+              accept="image/*"
+              className="hidden"
+              onChange={(e) => handleUpload(e.target.files)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2 sm:justify-between">
+          {draft.id ? (
+            <Button variant="outline" onClick={handleDelete} disabled={saving}>
+              <Trash2 className="w-4 h-4 mr-2 text-destructive" />
+              Delete
+            </Button>
+          ) : (
+            <span />
+          )}
+          <Button onClick={handleSave} disabled={saving || uploading || !draft.name.trim()}>
+            {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Save profile
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
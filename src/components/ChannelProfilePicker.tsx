@@ -0,0 +1,103 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Pencil, Plus } from "lucide-react";
+import { toast } from "sonner";
+import { ChannelProfileEditor } from "@/components/ChannelProfileEditor";
+import {
+  EMPTY_CHANNEL_PROFILE,
+  listChannelProfiles,
+  type ChannelProfile,
+  type ChannelProfileDraft,
+} from "@/lib/channel-profiles";
+
+// Select items can't have an empty value
+const NO_PROFILE = "none";
+
+interface ChannelProfilePickerProps {
+  id?: string;
+  value: ChannelProfile | null;
+  onChange: (profile: ChannelProfile | null) => void;
+  disabled?: boolean;
+}
+
+export const ChannelProfilePicker = ({ id, value, onChange, disabled }: ChannelProfilePickerProps) => {
+  const [profiles, setProfiles] = useState<ChannelProfile[]>([]);
+  const [editing, setEditing] = useState<ChannelProfileDraft | null>(null);
+
+  useEffect(() => {
+    listChannelProfiles()
+      .then(setProfiles)
+      .catch((error) => {
+        console.error("Error loading channel profiles:", error);
+        toast.error("Failed to load channel profiles");
+      });
+  }, []);
+
+  const handleSaved = (saved: ChannelProfile) => {
+    setProfiles((current) =>
+      [...current.filter((profile) => profile.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name))
+    );
+    onChange(saved);
+    setEditing(null);
+  };
+
+  const handleDeleted = (deletedId: string) => {
+    setProfiles((current) => current.filter((profile) => profile.id !== deletedId));
+    if (value?.id === deletedId) onChange(null);
+    setEditing(null);
+  };
+
+  return (
+    <div className="flex gap-2">
+      <Select
+        value={value?.id ?? NO_PROFILE}
+        onValueChange={(profileId) => onChange(profiles.find((profile) => profile.id === profileId) ?? null)}
+        disabled={disabled}
+      >
+        <SelectTrigger id={id} className="bg-background/50 border-border focus:border-primary">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_PROFILE}>No channel profile</SelectItem>
+          {profiles.map((profile) => (
+            <SelectItem key={profile.id} value={profile.id}>
+              {profile.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {value && (
+        <Button
+          type="button"
+          variant="outline"
+          size="icon"
+          onClick={() => setEditing(value)}
+          disabled={disabled}
+          title="Edit channel profile"
+          aria-label="Edit channel profile"
+        >
+          <Pencil className="w-4 h-4" />
+        </Button>
+      )}
+      <Button
+        type="button"
+        variant="outline"
+        size="icon"
+        onClick={() => setEditing(EMPTY_CHANNEL_PROFILE)}
+        disabled={disabled}
+        title="New channel profile"
+        aria-label="New channel profile"
+      >
+        <Plus className="w-4 h-4" />
+      </Button>
+
+      <ChannelProfileEditor
+        profile={editing}
+        onClose={() => setEditing(null)}
+        onSaved={handleSaved}
+        onDeleted={handleDeleted}
+      />
+    </div>
+  );
+};
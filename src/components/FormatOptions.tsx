@@ -0,0 +1,54 @@
+import { Label } from "@/components/ui/label";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { RectangleHorizontal } from "lucide-react";
+import { VIDEO_FORMATS, type AspectRatio, type FrameFit } from "@/lib/video-formats";
+
+interface FormatOptionsProps {
+  formats: AspectRatio[];
+  onFormatsChange: (formats: AspectRatio[]) => void;
+  fit: FrameFit;
+  onFitChange: (fit: FrameFit) => void;
+  disabled?: boolean;
+}
+
+export const FormatOptions = ({ formats, onFormatsChange, fit, onFitChange, disabled }: FormatOptionsProps) => (
+  <div className="space-y-4 rounded-lg border border-border p-4">
+    <div className="space-y-2">
+      <Label className="flex items-center gap-2">
+        <RectangleHorizontal className="w-4 h-4" />
+        Output formats
+      </Label>
+      <p className="text-xs text-muted-foreground">Pick one or more; each format is rendered as its own video.</p>
+      <ToggleGroup
+        type="multiple"
+        variant="outline"
+        value={formats}
+        // Keep at least one format selected
+        onValueChange={(value) => value.length > 0 && onFormatsChange(value as AspectRatio[])}
+        disabled={disabled}
+        className="grid grid-cols-2 sm:grid-cols-4 gap-2"
+      >
+        {Object.values(VIDEO_FORMATS).map((format) => (
+          <ToggleGroupItem key={format.id} value={format.id} className="h-auto flex-col py-2">
+            <span className="font-semibold">{format.label}</span>
+            <span className="text-xs text-muted-foreground font-normal">{format.description}</span>
+          </ToggleGroupItem>
+        ))}
+      </ToggleGroup>
+    </div>
+
+    <div className="space-y-2">
+      <Label htmlFor="frame-fit" className="text-sm">Framing</Label>
+      <Select value={fit} onValueChange={(value) => onFitChange(value as FrameFit)} disabled={disabled}>
+        <SelectTrigger id="frame-fit">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="crop">Crop images to fill the frame</SelectItem>
+          <SelectItem value="pad">Fit whole images with black bars</SelectItem>
+        </SelectContent>
+      </Select>
+    </div>
+  </div>
+);
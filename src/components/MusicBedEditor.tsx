@@ -0,0 +1,254 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Slider } from "@/components/ui/slider";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Music, Plus, Sparkles, Trash2, Upload } from "lucide-react";
+import { formatTimestamp, parseTimestamp, type MusicCue } from "@/lib/production-package";
+import {
+  LOUDNESS_TARGETS,
+  suggestAssignments,
+  type MusicAssignment,
+  type MusicMixSettings,
+  type MusicTrack,
+} from "@/lib/music";
+
+interface MusicBedEditorProps {
+  cues: MusicCue[];
+  /** Length of the script timeline in seconds. */
+  scriptDuration: number;
+  tracks: MusicTrack[];
+  onUpload: (files: File[]) => void;
+  assignments: MusicAssignment[];
+  onAssignmentsChange: (assignments: MusicAssignment[]) => void;
+  mix: MusicMixSettings;
+  onMixChange: (mix: MusicMixSettings) => void;
+  disabled?: boolean;
+}
+
+// mm:ss field that only reports a value once it parses
+const TimestampInput = ({
+  value,
+  onChange,
+  disabled,
+  label,
+}: {
+  value: number;
+  onChange: (seconds: number) => void;
+  disabled?: boolean;
+  label: string;
+}) => {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  return (
+    <Input
+      value={draft ?? formatTimestamp(value)}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={() => {
+        const seconds = draft === null ? null : parseTimestamp(draft);
+        if (seconds !== null) onChange(seconds);
+        setDraft(null);
+      }}
+      disabled={disabled}
+      className="w-20 h-8 font-mono text-xs"
+      aria-label={label}
+    />
+  );
+};
+
+export const MusicBedEditor = ({
+  cues,
+  scriptDuration,
+  tracks,
+  onUpload,
+  assignments,
+  onAssignmentsChange,
+  mix,
+  onMixChange,
+  disabled,
+}: MusicBedEditorProps) => {
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const updateMix = (patch: Partial<MusicMixSettings>) => onMixChange({ ...mix, ...patch });
+
+  const updateAssignment = (id: string, patch: Partial<MusicAssignment>) =>
+    onAssignmentsChange(assignments.map((assignment) => (assignment.id === id ? { ...assignment, ...patch } : assignment)));
+
+  const addAssignment = () => {
+    const start = assignments.reduce((latest, assignment) => Math.max(latest, assignment.end), 0);
+    onAssignmentsChange([
+      ...assignments,
+      {
+        id: crypto.randomUUID(),
+        trackId: tracks[0]?.id ?? "",
+        start: Math.min(start, scriptDuration),
+        end: scriptDuration,
+      },
+    ]);
+  };
+
+  return (
+    <div className="space-y-4 rounded-lg border border-border p-4">
+      <div className="flex items-center justify-between">
+        <Label htmlFor="music-bed" className="flex items-center gap-2">
+          <Music className="w-4 h-4" />
+          Background music
+        </Label>
+        <Switch
+          id="music-bed"
+          checked={mix.enabled}
+          onCheckedChange={(enabled) => updateMix({ enabled })}
+          disabled={disabled}
+        />
+      </div>
+
+      {mix.enabled && (
+        <>
+          <div className="flex flex-wrap gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => onAssignmentsChange(suggestAssignments(cues, tracks))}
+              disabled={disabled || tracks.length === 0 || cues.length === 0}
+            >
+              <Sparkles className="w-4 h-4 mr-2" />
+              Match music section
+            </Button>
+            <Button variant="outline" size="sm" onClick={addAssignment} disabled={disabled || tracks.length === 0}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add range
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => fileInput.current?.click()} disabled={disabled}>
+              <Upload className="w-4 h-4 mr-2" />
+              Upload track
+            </Button>
+            <input
+              ref={fileInput}
+              type="file"
+              accept="audio/*"
+              multiple
+              className="hidden"
+              onChange={(e) => {
+                onUpload(Array.from(e.target.files ?? []));
+                e.target.value = "";
+              }}
+            />
+          </div>
+
+          {tracks.length === 0 && (
+            <p className="text-xs text-muted-foreground">
+              No tracks yet. Upload your own, or add royalty-free tracks to the library manifest.
+            </p>
+          )}
+
+          {assignments.length > 0 && (
+            <div className="space-y-2">
+              {assignments.map((assignment) => (
+                <div key={assignment.id} className="flex items-center gap-2">
+                  <Select
+                    value={assignment.trackId}
+                    onValueChange={(trackId) => updateAssignment(assignment.id, { trackId })}
+                    disabled={disabled}
+                  >
+                    <SelectTrigger className="h-8 flex-1 text-xs">
+                      <SelectValue placeholder="Choose a track" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {tracks.map((track) => (
+                        <SelectItem key={track.id} value={track.id}>
+                          {track.title}
+                          {track.source === "upload" ? " (uploaded)" : track.license && ` · ${track.license}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <TimestampInput
+                    value={assignment.start}
+                    onChange={(start) => updateAssignment(assignment.id, { start })}
+                    disabled={disabled}
+                    label="Music start"
+                  />
+                  <span className="text-xs text-muted-foreground">to</span>
+                  <TimestampInput
+                    value={assignment.end}
+                    onChange={(end) => updateAssignment(assignment.id, { end })}
+                    disabled={disabled}
+                    label="Music end"
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => onAssignmentsChange(assignments.filter((a) => a.id !== assignment.id))}
+                    disabled={disabled}
+                    aria-label="Remove music range"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+              <p className="text-xs text-muted-foreground">
+                Ranges follow the script's timestamps and shift with the scenes if their lengths change.
+              </p>
+            </div>
+          )}
+
+          <div className="grid sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label className="text-sm">Music level: {Math.round(mix.volume * 100)}%</Label>
+              <Slider
+                min={0.05}
+                max={1}
+                step={0.05}
+                value={[mix.volume]}
+                onValueChange={([volume]) => updateMix({ volume })}
+                disabled={disabled}
+                className="py-2"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label className="text-sm">Fade in/out: {mix.fadeSeconds.toFixed(1)}s</Label>
+              <Slider
+                min={0}
+                max={5}
+                step={0.5}
+                value={[mix.fadeSeconds]}
+                onValueChange={([fadeSeconds]) => updateMix({ fadeSeconds })}
+                disabled={disabled}
+                className="py-2"
+              />
+            </div>
+            <div className="flex items-center justify-between gap-2">
+              <Label htmlFor="music-ducking" className="text-sm">Duck under narration</Label>
+              <Switch
+                id="music-ducking"
+                checked={mix.ducking}
+                onCheckedChange={(ducking) => updateMix({ ducking })}
+                disabled={disabled}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="loudness-target" className="text-sm">Loudness target</Label>
+              <Select
+                value={String(mix.loudnessTarget)}
+                onValueChange={(value) => updateMix({ loudnessTarget: Number(value) })}
+                disabled={disabled}
+              >
+                <SelectTrigger id="loudness-target">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LOUDNESS_TARGETS.map(({ value, label }) => (
+                    <SelectItem key={value} value={String(value)}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,200 @@
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { History, Loader2, RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { diffLines, type DiffRow } from "@/lib/diff";
+import { parseGeneratedContent, sectionText, type SectionKey } from "@/lib/production-package";
+import { cn } from "@/lib/utils";
+
+type Revision = Tables<"video_project_revisions">;
+
+interface ProjectHistoryProps {
+  projectId: string;
+  currentContent: string;
+  onRestore: (generatedContent: string) => void;
+}
+
+const SECTIONS: Array<{ key: SectionKey; title: string }> = [
+  { key: "script", title: "Script" },
+  { key: "visuals", title: "Visuals" },
+  { key: "music", title: "Music" },
+  { key: "thumbnail", title: "Thumbnail" },
+  { key: "seo", title: "SEO" },
+];
+
+const SOURCE_LABELS: Record<string, string> = {
+  generation: "Generated",
+  edit: "Edited",
+  restore: "Restored",
+};
+
+const ROW_STYLES: Record<DiffRow["type"], { left: string; right: string }> = {
+  same: { left: "", right: "" },
+  removed: { left: "bg-destructive/15", right: "bg-muted/30" },
+  added: { left: "bg-muted/30", right: "bg-primary/15" },
+  changed: { left: "bg-destructive/15", right: "bg-primary/15" },
+};
+
+export const ProjectHistory = ({ projectId, currentContent, onRestore }: ProjectHistoryProps) => {
+  const [revisions, setRevisions] = useState<Revision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [restoring, setRestoring] = useState(false);
+
+  // Reload whenever the content changes, since every change adds a revision
+  useEffect(() => {
+    const loadRevisions = async () => {
+      try {
+        const { data, error } = await supabase
+          .from("video_project_revisions")
+          .select("*")
+          .eq("project_id", projectId)
+          .order("created_at", { ascending: false });
+
+        if (error) throw error;
+        setRevisions(data || []);
+      } catch (error) {
+        console.error("Error loading revisions:", error);
+        toast.error("Failed to load version history");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadRevisions();
+  }, [projectId, currentContent]);
+
+  const selected = revisions.find((r) => r.id === selectedId) ?? revisions[1] ?? revisions[0];
+
+  const sectionDiffs = useMemo(() => {
+    if (!selected) return [];
+    const before = parseGeneratedContent(selected.generated_content);
+    const after = parseGeneratedContent(currentContent);
+    return SECTIONS.map(({ key, title }) => {
+      const rows = diffLines(sectionText(before, key), sectionText(after, key));
+      return { key, title, rows, changed: rows.some((row) => row.type !== "same") };
+    });
+  }, [selected, currentContent]);
+
+  const handleRestore = async () => {
+    if (!selected) return;
+    setRestoring(true);
+
+    try {
+      const { error } = await supabase
+        .from("video_projects")
+        .update({ generated_content: selected.generated_content })
+        .eq("id", projectId);
+
+      if (error) throw error;
+      onRestore(selected.generated_content);
+      setSelectedId(null);
+      toast.success("Version restored!");
+    } catch (error) {
+      console.error("Error restoring revision:", error);
+      toast.error("Failed to restore this version");
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-20">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary" />
+      </div>
+    );
+  }
+
+  if (revisions.length === 0) {
+    return (
+      <div className="text-center py-12 text-muted-foreground">
+        <History className="w-10 h-10 mx-auto mb-3 opacity-50" />
+        No history recorded for this project yet
+      </div>
+    );
+  }
+
+  const isCurrent = selected?.generated_content === currentContent;
+
+  return (
+    <div className="grid md:grid-cols-[220px_1fr] gap-6">
+      <ScrollArea className="md:h-[60vh] pr-2">
+        <ol className="relative border-l border-border ml-2 space-y-1">
+          {revisions.map((revision, index) => (
+            <li key={revision.id} className="ml-4">
+              <span
+                className={cn(
+                  "absolute -left-1.5 mt-3 h-3 w-3 rounded-full border border-background",
+                  revision.id === selected?.id ? "bg-primary" : "bg-muted-foreground/40"
+                )}
+              />
+              <button
+                onClick={() => setSelectedId(revision.id)}
+                className={cn(
+                  "w-full text-left rounded-lg px-3 py-2 transition-colors hover:bg-muted",
+                  revision.id === selected?.id && "bg-muted"
+                )}
+              >
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium">{SOURCE_LABELS[revision.source] ?? revision.source}</span>
+                  {index === 0 && <Badge variant="secondary">Current</Badge>}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {new Date(revision.created_at).toLocaleString()}
+                </div>
+              </button>
+            </li>
+          ))}
+        </ol>
+      </ScrollArea>
+
+      {selected && (
+        <div className="space-y-4 min-w-0">
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-sm text-muted-foreground">
+              {isCurrent
+                ? "This version matches the current content."
+                : `Comparing the version from ${new Date(selected.created_at).toLocaleString()} (left) with the current content (right).`}
+            </p>
+            <Button onClick={handleRestore} disabled={isCurrent || restoring} size="sm">
+              {restoring ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <RotateCcw className="w-4 h-4 mr-2" />
+              )}
+              Restore this version
+            </Button>
+          </div>
+
+          {sectionDiffs.map(({ key, title, rows, changed }) => (
+            <div key={key} className="rounded-lg border border-border overflow-hidden">
+              <div className="flex items-center justify-between px-4 py-2 bg-muted/50 text-sm font-semibold">
+                {title}
+                {!changed && <span className="text-xs font-normal text-muted-foreground">No changes</span>}
+              </div>
+              {changed && (
+                <div className="grid grid-cols-2 text-xs font-mono max-h-[300px] overflow-auto">
+                  {rows.map((row, index) => (
+                    <div key={index} className="contents">
+                      <div className={cn("px-3 py-0.5 whitespace-pre-wrap break-words border-r border-border", ROW_STYLES[row.type].left)}>
+                        {row.left ?? ""}
+                      </div>
+                      <div className={cn("px-3 py-0.5 whitespace-pre-wrap break-words", ROW_STYLES[row.type].right)}>
+                        {row.right ?? ""}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,79 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Download, FileText, Film } from "lucide-react";
+import { toast } from "sonner";
+import { loadSavedRenders, type SavedRender } from "@/lib/assets";
+import { VIDEO_FORMATS } from "@/lib/video-formats";
+
+interface ProjectRendersProps {
+  projectId: string;
+}
+
+export const ProjectRenders = ({ projectId }: ProjectRendersProps) => {
+  const [renders, setRenders] = useState<SavedRender[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadSavedRenders(projectId)
+      .then(setRenders)
+      .catch((error) => {
+        console.error("Error loading renders:", error);
+        toast.error("Failed to load past renders");
+      })
+      .finally(() => setLoading(false));
+  }, [projectId]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-20">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary" />
+      </div>
+    );
+  }
+
+  if (renders.length === 0) {
+    return (
+      <div className="text-center py-12 text-muted-foreground">
+        <Film className="w-10 h-10 mx-auto mb-3 opacity-50" />
+        No videos rendered for this project yet
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      {renders.map((render) => (
+        <div key={render.jobId} className="space-y-4">
+          <h4 className="text-sm font-semibold">Rendered {new Date(render.createdAt).toLocaleString()}</h4>
+          {render.videos.map(({ format, videoUrl, downloadUrl, vttUrl, srtUrl }) => (
+            <div key={format} className="space-y-3 rounded-lg border border-border p-4">
+              <div className="text-sm text-muted-foreground">
+                {VIDEO_FORMATS[format]?.label ?? format} · {VIDEO_FORMATS[format]?.description}
+              </div>
+              {/* Captions come from another origin, so the player has to request them with CORS */}
+              <video src={videoUrl} controls crossOrigin="anonymous" className="w-full max-h-[60vh] rounded border bg-black">
+                {vttUrl && <track kind="captions" src={vttUrl} srcLang="en" label="Captions" />}
+              </video>
+              <div className="grid grid-cols-2 gap-3">
+                <Button asChild>
+                  <a href={downloadUrl}>
+                    <Download className="w-4 h-4 mr-2" />
+                    Download video
+                  </a>
+                </Button>
+                {srtUrl && (
+                  <Button variant="outline" asChild>
+                    <a href={srtUrl}>
+                      <FileText className="w-4 h-4 mr-2" />
+                      Download SRT
+                    </a>
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+};
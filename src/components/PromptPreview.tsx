@@ -0,0 +1,68 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Loader2 } from "lucide-react";
+import { previewPrompt, type PromptMessage } from "@/lib/prompt-templates";
+import { isLongForm, type VideoBrief } from "@/lib/production-package";
+
+interface PromptPreviewProps {
+  /** The brief to render the prompt for; the dialog is closed while null. */
+  brief: VideoBrief | null;
+  onClose: () => void;
+}
+
+export const PromptPreview = ({ brief, onClose }: PromptPreviewProps) => {
+  const [messages, setMessages] = useState<PromptMessage[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setMessages(null);
+    setError(null);
+    if (!brief) return;
+    let cancelled = false;
+    previewPrompt(brief)
+      .then((rendered) => !cancelled && setMessages(rendered))
+      .catch((previewError) => {
+        console.error("Error previewing prompt:", previewError);
+        if (!cancelled) setError(previewError instanceof Error ? previewError.message : "Failed to render the prompt");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [brief]);
+
+  if (!brief) return null;
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Prompt preview</DialogTitle>
+          <DialogDescription>
+            {isLongForm(brief.videoLength)
+              ? "Long videos are written in passes; this is the prompt for the chapter outline, which the later passes build on."
+              : "The exact prompt sent to the model when you generate."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {error ? (
+          <p className="text-sm text-destructive">{error}</p>
+        ) : !messages ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {messages.map((message, index) => (
+              <div key={index} className="space-y-1">
+                <p className="text-xs font-semibold uppercase text-muted-foreground">{message.role}</p>
+                <pre className="whitespace-pre-wrap break-words rounded-lg border border-border bg-muted/50 p-3 text-xs">
+                  {message.content}
+                </pre>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
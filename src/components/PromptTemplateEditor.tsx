@@ -0,0 +1,155 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertTriangle, Loader2, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  deletePromptTemplate,
+  savePromptTemplate,
+  TEMPLATE_VARIABLES,
+  unknownPlaceholders,
+  type PromptTemplate,
+  type PromptTemplateDraft,
+} from "@/lib/prompt-templates";
+
+interface PromptTemplateEditorProps {
+  /** The template to edit, or a blank draft for a new one; the dialog is closed while null. */
+  template: PromptTemplateDraft | null;
+  onClose: () => void;
+  onSaved: (template: PromptTemplate) => void;
+  onDeleted: (id: string) => void;
+}
+
+export const PromptTemplateEditor = ({ template, onClose, onSaved, onDeleted }: PromptTemplateEditorProps) => {
+  const [draft, setDraft] = useState<PromptTemplateDraft | null>(template);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setDraft(template);
+  }, [template]);
+
+  if (!draft) return null;
+
+  const update = (patch: Partial<PromptTemplateDraft>) => setDraft({ ...draft, ...patch });
+  const unknown = unknownPlaceholders(`${draft.structure}\n${draft.tone}`);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const saved = await savePromptTemplate(draft);
+      toast.success(`Saved prompt template "${saved.name}"`);
+      onSaved(saved);
+    } catch (error) {
+      console.error("Error saving prompt template:", error);
+      toast.error("Failed to save the prompt template");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!draft.id) return;
+    setSaving(true);
+    try {
+      await deletePromptTemplate(draft.id);
+      toast.success(`Deleted prompt template "${draft.name}"`);
+      onDeleted(draft.id);
+    } catch (error) {
+      console.error("Error deleting prompt template:", error);
+      toast.error("Failed to delete the prompt template");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{draft.id ? "Edit prompt template" : "New prompt template"}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid gap-3 sm:grid-cols-2">
+            <div className="space-y-1">
+              <Label htmlFor="template-name">Template name</Label>
+              <Input id="template-name" value={draft.name} onChange={(e) => update({ name: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="template-style">Style name</Label>
+              <Input
+                id="template-style"
+                value={draft.styleName}
+                placeholder="Myth vs. Fact"
+                onChange={(e) => update({ styleName: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="template-structure">Section structure</Label>
+            <Textarea
+              id="template-structure"
+              value={draft.structure}
+              placeholder={"One section per line, e.g.\nCold open: a common myth about {topic}\nThree myths, each debunked with evidence\nRecap and a question for {audience}"}
+              onChange={(e) => update({ structure: e.target.value })}
+              className="min-h-[120px]"
+            />
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="template-tone">Tone instructions</Label>
+            <Textarea
+              id="template-tone"
+              value={draft.tone}
+              placeholder="Playful but precise; speak to {audience} like a friend who did the reading"
+              onChange={(e) => update({ tone: e.target.value })}
+              className="min-h-[60px]"
+            />
+          </div>
+
+          <div className="space-y-1">
+            <p className="text-xs text-muted-foreground">Placeholders filled in from the video details:</p>
+            <ul className="grid gap-x-4 gap-y-1 text-xs text-muted-foreground sm:grid-cols-2">
+              {TEMPLATE_VARIABLES.map(({ name, description }) => (
+                <li key={name}>
+                  <code className="text-foreground">{`{${name}}`}</code> {description}
+                </li>
+              ))}
+            </ul>
+            {unknown.length > 0 && (
+              <p className="flex items-center gap-2 text-xs text-destructive">
+                <AlertTriangle className="w-3 h-3" />
+                Left as typed: {unknown.map((name) => `{${name}}`).join(", ")}
+              </p>
+            )}
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="template-shared">Share with all users</Label>
+            <Switch id="template-shared" checked={draft.isShared} onCheckedChange={(isShared) => update({ isShared })} />
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2 sm:justify-between">
+          {draft.id ? (
+            <Button variant="outline" onClick={handleDelete} disabled={saving}>
+              <Trash2 className="w-4 h-4 mr-2 text-destructive" />
+              Delete
+            </Button>
+          ) : (
+            <span />
+          )}
+          <Button onClick={handleSave} disabled={saving || !draft.name.trim() || !draft.styleName.trim()}>
+            {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Save template
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,148 @@
+import { useState } from "react";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { ChevronDown, Clapperboard } from "lucide-react";
+import {
+  MOTION_PRESETS,
+  TRANSITIONS,
+  type MotionPreset,
+  type SceneEffects,
+  type TransitionType,
+} from "@/lib/scene-effects";
+import type { SceneData } from "@/lib/video-render";
+import { cn } from "@/lib/utils";
+
+interface SceneEffectsEditorProps {
+  scenes: SceneData[];
+  defaults: SceneEffects;
+  onDefaultsChange: (defaults: SceneEffects) => void;
+  /** Per-scene choices that replace the defaults, keyed by scene id. */
+  overrides: Record<string, Partial<SceneEffects>>;
+  onOverridesChange: (overrides: Record<string, Partial<SceneEffects>>) => void;
+  disabled?: boolean;
+}
+
+// Select value meaning "follow the global default"
+const DEFAULT_VALUE = "default";
+
+export const SceneEffectsEditor = ({
+  scenes,
+  defaults,
+  onDefaultsChange,
+  overrides,
+  onOverridesChange,
+  disabled,
+}: SceneEffectsEditorProps) => {
+  const [open, setOpen] = useState(false);
+
+  const overrideCount = scenes.filter((scene) => Object.keys(overrides[scene.id] ?? {}).length > 0).length;
+
+  const setOverride = <K extends keyof SceneEffects>(id: string, key: K, value: SceneEffects[K] | typeof DEFAULT_VALUE) => {
+    const sceneOverrides = { ...overrides[id] };
+    if (value === DEFAULT_VALUE) {
+      delete sceneOverrides[key];
+    } else {
+      sceneOverrides[key] = value;
+    }
+
+    const next = { ...overrides, [id]: sceneOverrides };
+    if (Object.keys(sceneOverrides).length === 0) delete next[id];
+    onOverridesChange(next);
+  };
+
+  return (
+    <div className="space-y-4 rounded-lg border border-border p-4">
+      <Label className="flex items-center gap-2">
+        <Clapperboard className="w-4 h-4" />
+        Motion and transitions
+      </Label>
+
+      <div className="grid sm:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="default-motion" className="text-sm">Scene motion</Label>
+          <Select
+            value={defaults.motion}
+            onValueChange={(motion) => onDefaultsChange({ ...defaults, motion: motion as MotionPreset })}
+            disabled={disabled}
+          >
+            <SelectTrigger id="default-motion">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(MOTION_PRESETS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="default-transition" className="text-sm">Transition</Label>
+          <Select
+            value={defaults.transition}
+            onValueChange={(transition) => onDefaultsChange({ ...defaults, transition: transition as TransitionType })}
+            disabled={disabled}
+          >
+            <SelectTrigger id="default-transition">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(TRANSITIONS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <Collapsible open={open} onOpenChange={setOpen}>
+        <CollapsibleTrigger className="flex w-full items-center justify-between text-sm text-muted-foreground">
+          Per-scene overrides{overrideCount > 0 && ` · ${overrideCount} customized`}
+          <ChevronDown className={cn("w-4 h-4 transition-transform", open && "rotate-180")} />
+        </CollapsibleTrigger>
+
+        <CollapsibleContent className="space-y-2 pt-3">
+          {scenes.map((scene, index) => (
+            <div key={scene.id} className="grid grid-cols-[3rem_1fr_8rem_8rem] items-center gap-2">
+              <span className="text-xs font-mono text-muted-foreground">{scene.timestamp}</span>
+              <span className="truncate text-sm" title={scene.text}>
+                {scene.text}
+              </span>
+              <Select
+                value={overrides[scene.id]?.motion ?? DEFAULT_VALUE}
+                onValueChange={(value) => setOverride(scene.id, "motion", value as MotionPreset)}
+                disabled={disabled}
+              >
+                <SelectTrigger className="h-8 text-xs" aria-label={`Motion for scene at ${scene.timestamp}`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={DEFAULT_VALUE}>Default</SelectItem>
+                  {Object.entries(MOTION_PRESETS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {/* The first scene has nothing to transition from */}
+              <Select
+                value={overrides[scene.id]?.transition ?? DEFAULT_VALUE}
+                onValueChange={(value) => setOverride(scene.id, "transition", value as TransitionType)}
+                disabled={disabled || index === 0}
+              >
+                <SelectTrigger className="h-8 text-xs" aria-label={`Transition into scene at ${scene.timestamp}`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={DEFAULT_VALUE}>Default</SelectItem>
+                  {Object.entries(TRANSITIONS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </CollapsibleContent>
+      </Collapsible>
+    </div>
+  );
+};
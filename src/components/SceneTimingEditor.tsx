@@ -0,0 +1,97 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { ChevronDown, Clock, RotateCcw } from "lucide-react";
+import { formatTimestamp } from "@/lib/production-package";
+import { MIN_SCENE_SECONDS, type SceneData } from "@/lib/video-render";
+import { cn } from "@/lib/utils";
+
+interface SceneTimingEditorProps {
+  scenes: SceneData[];
+  /** Seconds per scene, keyed by scene id. */
+  overrides: Record<string, number>;
+  onOverridesChange: (overrides: Record<string, number>) => void;
+  narrationEnabled: boolean;
+  disabled?: boolean;
+}
+
+export const SceneTimingEditor = ({
+  scenes,
+  overrides,
+  onOverridesChange,
+  narrationEnabled,
+  disabled,
+}: SceneTimingEditorProps) => {
+  const [open, setOpen] = useState(false);
+
+  const totalSeconds = scenes.reduce((sum, scene) => sum + (overrides[scene.id] ?? scene.duration), 0);
+  const overrideCount = scenes.filter((scene) => overrides[scene.id] !== undefined).length;
+
+  const setOverride = (id: string, value: string) => {
+    const next = { ...overrides };
+    const seconds = Number(value);
+    if (value.trim() === "" || !Number.isFinite(seconds) || seconds <= 0) {
+      delete next[id];
+    } else {
+      next[id] = Math.max(MIN_SCENE_SECONDS, seconds);
+    }
+    onOverridesChange(next);
+  };
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="rounded-lg border border-border">
+      <CollapsibleTrigger asChild>
+        <button className="flex w-full items-center justify-between gap-2 p-4 text-sm font-medium">
+          <span className="flex items-center gap-2">
+            <Clock className="w-4 h-4" />
+            Scene timing
+          </span>
+          <span className="flex items-center gap-2 text-muted-foreground font-normal">
+            {formatTimestamp(Math.round(totalSeconds))} total
+            {overrideCount > 0 && ` · ${overrideCount} adjusted`}
+            <ChevronDown className={cn("w-4 h-4 transition-transform", open && "rotate-180")} />
+          </span>
+        </button>
+      </CollapsibleTrigger>
+
+      <CollapsibleContent className="space-y-3 px-4 pb-4">
+        <p className="text-xs text-muted-foreground">
+          Each scene lasts as long as its span in the script.
+          {narrationEnabled && " Scenes whose narration runs longer are stretched to fit it."} Enter seconds to set a
+          scene's length yourself.
+        </p>
+
+        <div className="space-y-2">
+          {scenes.map((scene) => (
+            <div key={scene.id} className="flex items-center gap-3">
+              <span className="w-12 shrink-0 text-xs font-mono text-muted-foreground">{scene.timestamp}</span>
+              <span className="flex-1 truncate text-sm" title={scene.text}>
+                {scene.text}
+              </span>
+              <Input
+                type="number"
+                min={MIN_SCENE_SECONDS}
+                step={0.5}
+                value={overrides[scene.id] ?? ""}
+                placeholder={scene.duration.toFixed(1)}
+                onChange={(e) => setOverride(scene.id, e.target.value)}
+                disabled={disabled}
+                className="w-20 h-8"
+                aria-label={`Seconds for scene at ${scene.timestamp}`}
+              />
+              <span className="text-xs text-muted-foreground">s</span>
+            </div>
+          ))}
+        </div>
+
+        {overrideCount > 0 && (
+          <Button variant="ghost" size="sm" onClick={() => onOverridesChange({})} disabled={disabled}>
+            <RotateCcw className="w-4 h-4 mr-2" />
+            Use script timing
+          </Button>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
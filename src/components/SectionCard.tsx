@@ -0,0 +1,121 @@
+import { useState, type ReactNode } from "react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Textarea } from "@/components/ui/textarea";
+import { Check, Copy, Loader2, RefreshCw, Wand2, type LucideIcon } from "lucide-react";
+
+interface SectionCardProps {
+  title: string;
+  content: string;
+  icon: LucideIcon;
+  isStreaming?: boolean;
+  isCopied: boolean;
+  onCopy: () => void;
+  /** Omitted when the section can't be regenerated (e.g. while streaming). */
+  onRegenerate?: (instruction?: string) => void;
+  isRegenerating?: boolean;
+  /** Shown under the content, e.g. length checks. */
+  footer?: ReactNode;
+}
+
+export const SectionCard = ({
+  title,
+  content,
+  icon: Icon,
+  isStreaming = false,
+  isCopied,
+  onCopy,
+  onRegenerate,
+  isRegenerating = false,
+  footer,
+}: SectionCardProps) => {
+  const [refineOpen, setRefineOpen] = useState(false);
+  const [instruction, setInstruction] = useState("");
+
+  const handleRefine = () => {
+    if (!instruction.trim()) return;
+    onRegenerate?.(instruction.trim());
+    setRefineOpen(false);
+    setInstruction("");
+  };
+
+  return (
+    <div className="bg-card rounded-xl border border-border p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <div className="p-2 rounded-lg bg-primary/10">
+            <Icon className="w-5 h-5 text-primary" />
+          </div>
+          <h3 className="text-lg font-semibold">{title}</h3>
+        </div>
+        <div className="flex items-center gap-1">
+          {onRegenerate && (
+            <>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onRegenerate()}
+                disabled={isRegenerating}
+                className="hover:bg-primary/10"
+                title="Regenerate this section"
+              >
+                {isRegenerating ? (
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                ) : (
+                  <RefreshCw className="w-4 h-4" />
+                )}
+              </Button>
+              <Popover open={refineOpen} onOpenChange={setRefineOpen}>
+                <PopoverTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={isRegenerating}
+                    className="hover:bg-primary/10"
+                    title="Refine with an instruction"
+                  >
+                    <Wand2 className="w-4 h-4" />
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent align="end" className="w-80 space-y-3">
+                  <p className="text-sm font-medium">Refine {title.toLowerCase()}</p>
+                  <Textarea
+                    placeholder="e.g., 'Make the hook punchier'"
+                    value={instruction}
+                    onChange={(e) => setInstruction(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) handleRefine();
+                    }}
+                    className="min-h-[80px] resize-none"
+                  />
+                  <Button onClick={handleRefine} disabled={!instruction.trim()} size="sm" className="w-full">
+                    <Wand2 className="w-4 h-4 mr-2" />
+                    Apply
+                  </Button>
+                </PopoverContent>
+              </Popover>
+            </>
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onCopy}
+            className="hover:bg-primary/10"
+          >
+            {isCopied ? (
+              <Check className="w-4 h-4 text-primary" />
+            ) : (
+              <Copy className="w-4 h-4" />
+            )}
+          </Button>
+        </div>
+      </div>
+      <div className="prose prose-invert max-w-none">
+        <pre className="whitespace-pre-wrap text-sm text-foreground bg-background/50 p-4 rounded-lg border border-border overflow-auto max-h-[400px]">
+          {content || (isStreaming ? "Waiting for this section..." : "No content generated for this section")}
+        </pre>
+      </div>
+      {footer}
+    </div>
+  );
+};
@@ -0,0 +1,236 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import {
+  ArrowDown,
+  ArrowUp,
+  ChevronDown,
+  ImageIcon,
+  LayoutGrid,
+  Loader2,
+  RefreshCw,
+  Trash2,
+  Upload,
+  X,
+} from "lucide-react";
+import { toast } from "sonner";
+import { storyboardImage, uploadToSceneImage, type StoryboardScene } from "@/lib/storyboard";
+import type { VideoFormat } from "@/lib/video-formats";
+import type { SceneData } from "@/lib/video-render";
+import { cn } from "@/lib/utils";
+
+interface StoryboardEditorProps {
+  storyboard: StoryboardScene[];
+  onStoryboardChange: (storyboard: StoryboardScene[]) => void;
+  /** The storyboard's scenes with their script timing, in the same order. */
+  scenes: SceneData[];
+  /** Format whose images are previewed; the others are generated when rendering. */
+  format: VideoFormat;
+  /** Ids of scenes whose image is being generated. */
+  generating: string[];
+  onGenerate: (sceneIds: string[]) => void;
+  disabled?: boolean;
+}
+
+export const StoryboardEditor = ({
+  storyboard,
+  onStoryboardChange,
+  scenes,
+  format,
+  generating,
+  onGenerate,
+  disabled,
+}: StoryboardEditorProps) => {
+  const [open, setOpen] = useState(false);
+  // Prompts being edited; committed on blur so the image isn't dropped on every keystroke
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [uploadTarget, setUploadTarget] = useState<string | null>(null);
+
+  const missing = storyboard.filter((scene) => !storyboardImage(scene, format.orientation)).map((s) => s.id);
+
+  const update = (id: string, patch: Partial<StoryboardScene>) =>
+    onStoryboardChange(storyboard.map((scene) => (scene.id === id ? { ...scene, ...patch } : scene)));
+
+  const move = (index: number, offset: number) => {
+    const next = [...storyboard];
+    const [scene] = next.splice(index, 1);
+    next.splice(index + offset, 0, scene);
+    onStoryboardChange(next);
+  };
+
+  const commitPrompt = (scene: StoryboardScene) => {
+    const prompt = drafts[scene.id]?.trim();
+    setDrafts(({ [scene.id]: _, ...rest }) => rest);
+    // The generated images no longer match the prompt
+    if (prompt && prompt !== scene.prompt) update(scene.id, { prompt, images: {} });
+  };
+
+  const handleUpload = async (files: FileList | null) => {
+    const file = files?.[0];
+    if (!file || !uploadTarget) return;
+    try {
+      update(uploadTarget, { upload: await uploadToSceneImage(file) });
+    } catch (error) {
+      console.error("Error reading image:", error);
+      toast.error(`Could not read ${file.name}`);
+    } finally {
+      setUploadTarget(null);
+      if (fileInput.current) fileInput.current.value = "";
+    }
+  };
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="rounded-lg border border-border">
+      <CollapsibleTrigger asChild>
+        <button className="flex w-full items-center justify-between gap-2 p-4 text-sm font-medium">
+          <span className="flex items-center gap-2">
+            <LayoutGrid className="w-4 h-4" />
+            Storyboard
+          </span>
+          <span className="flex items-center gap-2 text-muted-foreground font-normal">
+            {storyboard.length} scenes
+            {missing.length > 0 && ` · ${missing.length} without images`}
+            <ChevronDown className={cn("w-4 h-4 transition-transform", open && "rotate-180")} />
+          </span>
+        </button>
+      </CollapsibleTrigger>
+
+      <CollapsibleContent className="space-y-3 px-4 pb-4">
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-xs text-muted-foreground">
+            Scenes without an image get one generated when the video is rendered. Previewing {format.label} images.
+          </p>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onGenerate(missing.filter((id) => !generating.includes(id)))}
+            disabled={disabled || missing.length === 0 || missing.every((id) => generating.includes(id))}
+          >
+            <ImageIcon className="w-4 h-4 mr-2" />
+            Generate missing
+          </Button>
+        </div>
+
+        <input
+          ref={fileInput}
+          type="file"
+          accept="image/*"
+          className="hidden"
+          onChange={(e) => handleUpload(e.target.files)}
+        />
+
+        <div className="space-y-3">
+          {storyboard.map((scene, index) => {
+            const data = scenes[index];
+            const image = storyboardImage(scene, format.orientation);
+            const isGenerating = generating.includes(scene.id);
+
+            return (
+              <div key={scene.id} className="flex gap-3 rounded-lg border border-border p-3">
+                <div
+                  className="relative w-40 shrink-0 overflow-hidden rounded bg-muted"
+                  style={{ aspectRatio: `${format.width} / ${format.height}` }}
+                >
+                  {image ? (
+                    <img src={image.url} alt={scene.prompt} className="h-full w-full object-cover" />
+                  ) : (
+                    <div className="flex h-full items-center justify-center text-xs text-muted-foreground">No image yet</div>
+                  )}
+                  {isGenerating && (
+                    <div className="absolute inset-0 flex items-center justify-center bg-background/70">
+                      <Loader2 className="w-5 h-5 animate-spin" />
+                    </div>
+                  )}
+                </div>
+
+                <div className="min-w-0 flex-1 space-y-2">
+                  <div className="flex items-start gap-2">
+                    <span className="shrink-0 text-xs font-mono text-muted-foreground">
+                      {index + 1}. {data?.timestamp}
+                    </span>
+                    <p className="line-clamp-2 text-sm" title={data?.text}>
+                      {data?.text}
+                    </p>
+                  </div>
+                  <Textarea
+                    value={drafts[scene.id] ?? scene.prompt}
+                    onChange={(e) => setDrafts((current) => ({ ...current, [scene.id]: e.target.value }))}
+                    onBlur={() => commitPrompt(scene)}
+                    disabled={disabled || scene.upload !== null}
+                    rows={2}
+                    className="min-h-0 text-xs"
+                    aria-label={`Image prompt for scene ${index + 1}`}
+                  />
+                  <div className="flex flex-wrap items-center gap-1">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => onGenerate([scene.id])}
+                      disabled={disabled || isGenerating || scene.upload !== null}
+                    >
+                      <RefreshCw className="w-3 h-3 mr-1" />
+                      {scene.images[format.orientation] ? "Regenerate" : "Generate"}
+                    </Button>
+                    {scene.upload ? (
+                      <Button variant="outline" size="sm" onClick={() => update(scene.id, { upload: null })} disabled={disabled}>
+                        <X className="w-3 h-3 mr-1" />
+                        Remove upload
+                      </Button>
+                    ) : (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => {
+                          setUploadTarget(scene.id);
+                          fileInput.current?.click();
+                        }}
+                        disabled={disabled}
+                      >
+                        <Upload className="w-3 h-3 mr-1" />
+                        Upload
+                      </Button>
+                    )}
+                    <div className="ml-auto flex items-center">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => move(index, -1)}
+                        disabled={disabled || index === 0}
+                        aria-label="Move scene up"
+                      >
+                        <ArrowUp className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => move(index, 1)}
+                        disabled={disabled || index === storyboard.length - 1}
+                        aria-label="Move scene down"
+                      >
+                        <ArrowDown className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => onStoryboardChange(storyboard.filter((s) => s.id !== scene.id))}
+                        disabled={disabled || storyboard.length === 1}
+                        aria-label="Delete scene"
+                      >
+                        <Trash2 className="w-4 h-4 text-destructive" />
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
@@ -0,0 +1,219 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { ChevronDown, Loader2, Palette, Plus, Trash2, Upload, X } from "lucide-react";
+import { toast } from "sonner";
+import { signedAssetUrl } from "@/lib/assets";
+import { uploadToSceneImage } from "@/lib/storyboard";
+import { isStyleGuideEmpty, uploadReferenceImage, type StyleCharacter, type StyleGuide } from "@/lib/style-guide";
+import { cn } from "@/lib/utils";
+
+interface StyleGuideEditorProps {
+  guide: StyleGuide;
+  onChange: (guide: StyleGuide) => void;
+  disabled?: boolean;
+}
+
+export const StyleGuideEditor = ({ guide, onChange, disabled }: StyleGuideEditorProps) => {
+  const [open, setOpen] = useState(false);
+  const [referenceUrl, setReferenceUrl] = useState<string | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  // Reference images live in the private asset bucket, so sign one to preview it
+  useEffect(() => {
+    setReferenceUrl(null);
+    if (!guide.referenceImagePath) return;
+    let cancelled = false;
+    signedAssetUrl(guide.referenceImagePath)
+      .then((url) => !cancelled && setReferenceUrl(url))
+      .catch((error) => console.error("Error signing reference image:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [guide.referenceImagePath]);
+
+  const update = (patch: Partial<StyleGuide>) => onChange({ ...guide, ...patch });
+
+  const updateCharacter = (index: number, patch: Partial<StyleCharacter>) =>
+    update({ characters: guide.characters.map((character, i) => (i === index ? { ...character, ...patch } : character)) });
+
+  const handleUpload = async (files: FileList | null) => {
+    const file = files?.[0];
+    if (!file) return;
+    setUploading(true);
+    try {
+      const image = await uploadToSceneImage(file);
+      const blob = await (await fetch(image.url)).blob();
+      update({ referenceImagePath: await uploadReferenceImage(blob) });
+    } catch (error) {
+      console.error("Error uploading reference image:", error);
+      toast.error(error instanceof Error ? error.message : `Could not upload ${file.name}`);
+    } finally {
+      setUploading(false);
+      if (fileInput.current) fileInput.current.value = "";
+    }
+  };
+
+  const namedCharacters = guide.characters.filter((character) => character.name.trim()).length;
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="rounded-lg border border-border">
+      <CollapsibleTrigger asChild>
+        <button className="flex w-full items-center justify-between gap-2 p-4 text-sm font-medium">
+          <span className="flex items-center gap-2">
+            <Palette className="w-4 h-4" />
+            Style guide
+          </span>
+          <span className="flex items-center gap-2 text-muted-foreground font-normal">
+            {isStyleGuideEmpty(guide) ? "Not set" : `${namedCharacters} characters`}
+            <ChevronDown className={cn("w-4 h-4 transition-transform", open && "rotate-180")} />
+          </span>
+        </button>
+      </CollapsibleTrigger>
+
+      <CollapsibleContent className="space-y-4 px-4 pb-4">
+        <p className="text-xs text-muted-foreground">
+          Applied to every generated scene image so the video keeps one look. Images generated before a change keep
+          their old style until they are regenerated.
+        </p>
+
+        <div className="grid gap-3 sm:grid-cols-3">
+          <div className="space-y-1">
+            <Label htmlFor="style-art">Art style</Label>
+            <Input
+              id="style-art"
+              value={guide.artStyle}
+              placeholder="Flat vector illustration"
+              onChange={(e) => update({ artStyle: e.target.value })}
+              disabled={disabled}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="style-palette">Color palette</Label>
+            <Input
+              id="style-palette"
+              value={guide.palette}
+              placeholder="Muted teal, cream and coral"
+              onChange={(e) => update({ palette: e.target.value })}
+              disabled={disabled}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="style-lighting">Lighting</Label>
+            <Input
+              id="style-lighting"
+              value={guide.lighting}
+              placeholder="Soft golden hour"
+              onChange={(e) => update({ lighting: e.target.value })}
+              disabled={disabled}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label>Characters</Label>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => update({ characters: [...guide.characters, { name: "", description: "" }] })}
+              disabled={disabled}
+            >
+              <Plus className="w-3 h-3 mr-1" />
+              Add character
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            A character is described in every scene whose prompt mentions them by name.
+          </p>
+          {guide.characters.map((character, index) => (
+            <div key={index} className="flex items-start gap-2">
+              <Input
+                value={character.name}
+                placeholder="Name"
+                onChange={(e) => updateCharacter(index, { name: e.target.value })}
+                disabled={disabled}
+                className="w-40 shrink-0"
+                aria-label={`Character ${index + 1} name`}
+              />
+              <Textarea
+                value={character.description}
+                placeholder="Appearance, clothing, age..."
+                onChange={(e) => updateCharacter(index, { description: e.target.value })}
+                disabled={disabled}
+                rows={1}
+                className="min-h-0"
+                aria-label={`Character ${index + 1} description`}
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-10 w-10 shrink-0"
+                onClick={() => update({ characters: guide.characters.filter((_, i) => i !== index) })}
+                disabled={disabled}
+                aria-label="Remove character"
+              >
+                <Trash2 className="w-4 h-4 text-destructive" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <Label>Reference image</Label>
+          <input
+            ref={fileInput}
+            type="file"
+            accept="image/*"
+            className="hidden"
+            onChange={(e) => handleUpload(e.target.files)}
+          />
+          <div className="flex items-center gap-3">
+            {guide.referenceImagePath && (
+              <div className="h-16 w-28 shrink-0 overflow-hidden rounded bg-muted">
+                {referenceUrl && <img src={referenceUrl} alt="Style reference" className="h-full w-full object-cover" />}
+              </div>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => fileInput.current?.click()}
+              disabled={disabled || uploading}
+            >
+              {uploading ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <Upload className="w-3 h-3 mr-1" />}
+              {guide.referenceImagePath ? "Replace" : "Upload"}
+            </Button>
+            {guide.referenceImagePath && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => update({ referenceImagePath: null })}
+                disabled={disabled || uploading}
+              >
+                <X className="w-3 h-3 mr-1" />
+                Remove
+              </Button>
+            )}
+          </div>
+          <p className="text-xs text-muted-foreground">Every scene is generated to match this image's look.</p>
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="style-negative">Avoid</Label>
+          <Textarea
+            id="style-negative"
+            value={guide.negativePrompt}
+            placeholder="Text, watermarks, extra fingers"
+            onChange={(e) => update({ negativePrompt: e.target.value })}
+            disabled={disabled}
+            rows={2}
+          />
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
@@ -0,0 +1,159 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectSeparator,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Copy, Pencil, Plus } from "lucide-react";
+import { toast } from "sonner";
+import { PromptTemplateEditor } from "@/components/PromptTemplateEditor";
+import {
+  editableTemplate,
+  EMPTY_PROMPT_TEMPLATE,
+  listPromptTemplates,
+  type PromptTemplate,
+  type PromptTemplateDraft,
+} from "@/lib/prompt-templates";
+
+const BUILT_IN_STYLES = [
+  { value: "Educational", label: "Educational" },
+  { value: "Entertainment", label: "Entertainment" },
+  { value: "Tutorial", label: "Tutorial / How-to" },
+  { value: "Review", label: "Review / Analysis" },
+  { value: "Vlog", label: "Vlog / Personal" },
+  { value: "Documentary", label: "Documentary" },
+];
+
+// Template items share the select with the built-in style names
+const TEMPLATE_PREFIX = "template:";
+
+interface StylePickerProps {
+  id?: string;
+  style: string;
+  template: PromptTemplate | null;
+  /** A template sets the style to its style name. */
+  onChange: (style: string, template: PromptTemplate | null) => void;
+  /** Templates are saved per user, so they are only listed for a signed-in user. */
+  signedIn?: boolean;
+  disabled?: boolean;
+}
+
+export const StylePicker = ({ id, style, template, onChange, signedIn, disabled }: StylePickerProps) => {
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [editing, setEditing] = useState<PromptTemplateDraft | null>(null);
+
+  useEffect(() => {
+    if (!signedIn) {
+      setTemplates([]);
+      return;
+    }
+    listPromptTemplates()
+      .then(setTemplates)
+      .catch((error) => {
+        console.error("Error loading prompt templates:", error);
+        toast.error("Failed to load prompt templates");
+      });
+  }, [signedIn]);
+
+  const handleValueChange = (value: string) => {
+    if (!value.startsWith(TEMPLATE_PREFIX)) {
+      onChange(value, null);
+      return;
+    }
+    const selected = templates.find((candidate) => candidate.id === value.slice(TEMPLATE_PREFIX.length));
+    if (selected) onChange(selected.styleName, selected);
+  };
+
+  const handleSaved = (saved: PromptTemplate) => {
+    setTemplates((current) =>
+      [...current.filter((candidate) => candidate.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name))
+    );
+    onChange(saved.styleName, saved);
+    setEditing(null);
+  };
+
+  const handleDeleted = (deletedId: string) => {
+    setTemplates((current) => current.filter((candidate) => candidate.id !== deletedId));
+    if (template?.id === deletedId) onChange(BUILT_IN_STYLES[0].value, null);
+    setEditing(null);
+  };
+
+  const ownTemplates = templates.filter((candidate) => candidate.owned);
+  const sharedTemplates = templates.filter((candidate) => !candidate.owned);
+  const templateGroup = (label: string, group: PromptTemplate[]) =>
+    group.length > 0 && (
+      <>
+        <SelectSeparator />
+        <SelectGroup>
+          <SelectLabel>{label}</SelectLabel>
+          {group.map((candidate) => (
+            <SelectItem key={candidate.id} value={`${TEMPLATE_PREFIX}${candidate.id}`}>
+              {candidate.styleName} ({candidate.name})
+            </SelectItem>
+          ))}
+        </SelectGroup>
+      </>
+    );
+
+  return (
+    <div className="flex gap-2">
+      <Select
+        value={template ? `${TEMPLATE_PREFIX}${template.id}` : style}
+        onValueChange={handleValueChange}
+        disabled={disabled}
+      >
+        <SelectTrigger id={id} className="bg-background/50 border-border focus:border-primary">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {BUILT_IN_STYLES.map(({ value, label }) => (
+            <SelectItem key={value} value={value}>
+              {label}
+            </SelectItem>
+          ))}
+          {templateGroup("My templates", ownTemplates)}
+          {templateGroup("Shared templates", sharedTemplates)}
+        </SelectContent>
+      </Select>
+      {signedIn && template && (
+        <Button
+          type="button"
+          variant="outline"
+          size="icon"
+          onClick={() => setEditing(editableTemplate(template))}
+          disabled={disabled}
+          title={template.owned ? "Edit prompt template" : "Copy prompt template"}
+          aria-label={template.owned ? "Edit prompt template" : "Copy prompt template"}
+        >
+          {template.owned ? <Pencil className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+        </Button>
+      )}
+      {signedIn && (
+        <Button
+          type="button"
+          variant="outline"
+          size="icon"
+          onClick={() => setEditing(EMPTY_PROMPT_TEMPLATE)}
+          disabled={disabled}
+          title="New prompt template"
+          aria-label="New prompt template"
+        >
+          <Plus className="w-4 h-4" />
+        </Button>
+      )}
+
+      <PromptTemplateEditor
+        template={editing}
+        onClose={() => setEditing(null)}
+        onSaved={handleSaved}
+        onDeleted={handleDeleted}
+      />
+    </div>
+  );
+};
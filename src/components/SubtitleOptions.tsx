@@ -0,0 +1,110 @@
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Slider } from "@/components/ui/slider";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Captions } from "lucide-react";
+import { SUBTITLE_FONTS, type SubtitlePosition, type SubtitleSettings } from "@/lib/subtitles";
+
+interface SubtitleOptionsProps {
+  settings: SubtitleSettings;
+  onChange: (settings: SubtitleSettings) => void;
+  disabled?: boolean;
+}
+
+export const SubtitleOptions = ({ settings, onChange, disabled }: SubtitleOptionsProps) => {
+  const update = (patch: Partial<SubtitleSettings>) => onChange({ ...settings, ...patch });
+
+  return (
+    <div className="space-y-4 rounded-lg border border-border p-4">
+      <div className="flex items-center justify-between">
+        <Label htmlFor="burn-captions" className="flex items-center gap-2">
+          <Captions className="w-4 h-4" />
+          Burn captions into the video
+        </Label>
+        <Switch
+          id="burn-captions"
+          checked={settings.burnIn}
+          onCheckedChange={(burnIn) => update({ burnIn })}
+          disabled={disabled}
+        />
+      </div>
+      <p className="text-xs text-muted-foreground">
+        SRT and WebVTT caption files are always created alongside the video.
+      </p>
+
+      <div className="grid sm:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label className="text-sm">Max line length: {settings.maxLineLength} characters</Label>
+          <Slider
+            min={20}
+            max={60}
+            step={1}
+            value={[settings.maxLineLength]}
+            onValueChange={([maxLineLength]) => update({ maxLineLength })}
+            disabled={disabled}
+            className="py-2"
+          />
+        </div>
+
+        {settings.burnIn && (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="caption-font" className="text-sm">Font</Label>
+              <Select value={settings.font} onValueChange={(font) => update({ font })} disabled={disabled}>
+                <SelectTrigger id="caption-font">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.keys(SUBTITLE_FONTS).map((font) => (
+                    <SelectItem key={font} value={font}>{font}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label className="text-sm">Size: {settings.fontSize}</Label>
+              <Slider
+                min={10}
+                max={36}
+                step={1}
+                value={[settings.fontSize]}
+                onValueChange={([fontSize]) => update({ fontSize })}
+                disabled={disabled}
+                className="py-2"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="caption-position" className="text-sm">Position</Label>
+              <Select
+                value={settings.position}
+                onValueChange={(position) => update({ position: position as SubtitlePosition })}
+                disabled={disabled}
+              >
+                <SelectTrigger id="caption-position">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="bottom">Bottom</SelectItem>
+                  <SelectItem value="middle">Middle</SelectItem>
+                  <SelectItem value="top">Top</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="caption-outline" className="text-sm">Outline color</Label>
+              <Input
+                id="caption-outline"
+                type="color"
+                value={settings.outlineColor}
+                onChange={(e) => update({ outlineColor: e.target.value })}
+                disabled={disabled}
+                className="h-10 p-1"
+              />
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,341 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Download, Loader2, Sparkles, Type, Upload } from "lucide-react";
+import { toast } from "sonner";
+import type { ThumbnailConcept } from "@/lib/production-package";
+import { ImageCreditsError } from "@/lib/scene-images";
+import {
+  DEFAULT_THUMBNAIL_TEXT,
+  MAX_THUMBNAIL_BYTES,
+  THUMBNAIL_FONTS,
+  drawThumbnail,
+  exportThumbnail,
+  generateThumbnailBackgrounds,
+  loadFontFile,
+  loadImage,
+  loadThumbnailFont,
+  type ThumbnailFileType,
+  type ThumbnailText,
+  type ThumbnailTextAlign,
+  type ThumbnailTextPosition,
+} from "@/lib/thumbnail";
+import { cn } from "@/lib/utils";
+
+interface ThumbnailGeneratorProps {
+  concept: ThumbnailConcept;
+  /** Saved project the generated backgrounds are stored with. */
+  projectId?: string;
+  disabled?: boolean;
+}
+
+export const ThumbnailGenerator = ({ concept, projectId, disabled }: ThumbnailGeneratorProps) => {
+  const [backgrounds, setBackgrounds] = useState<string[]>([]);
+  const [selected, setSelected] = useState(0);
+  const [backgroundImage, setBackgroundImage] = useState<HTMLImageElement | null>(null);
+  const [text, setText] = useState<ThumbnailText>({ ...DEFAULT_THUMBNAIL_TEXT, text: concept.headline });
+  const [brandFonts, setBrandFonts] = useState<string[]>([]);
+  const [generating, setGenerating] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const canvas = useRef<HTMLCanvasElement>(null);
+  const fontInput = useRef<HTMLInputElement>(null);
+
+  const update = (patch: Partial<ThumbnailText>) => setText((current) => ({ ...current, ...patch }));
+
+  // Follow a regenerated concept's headline
+  useEffect(() => {
+    setText((current) => ({ ...current, text: concept.headline }));
+  }, [concept.headline]);
+
+  useEffect(() => {
+    const url = backgrounds[selected];
+    if (!url) {
+      setBackgroundImage(null);
+      return;
+    }
+    let cancelled = false;
+    loadImage(url)
+      .then((image) => !cancelled && setBackgroundImage(image))
+      .catch((error) => {
+        console.error("Error loading thumbnail background:", error);
+        toast.error(error.message);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [backgrounds, selected]);
+
+  // Redraw once the font is ready, so the first draw doesn't use the fallback font
+  useEffect(() => {
+    let cancelled = false;
+    loadThumbnailFont(text.font)
+      .catch((error) => console.error("Error loading thumbnail font:", error))
+      .then(() => {
+        if (!cancelled && canvas.current) drawThumbnail(canvas.current, backgroundImage, text, concept.colors);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [backgroundImage, text, concept.colors]);
+
+  const generate = async () => {
+    setGenerating(true);
+    try {
+      const results = await generateThumbnailBackgrounds({ concept, projectId });
+      const urls = results.flatMap((result) => (result.status === "succeeded" ? [result.imageUrl] : []));
+      const failed = results.length - urls.length;
+      if (urls.length === 0) {
+        const firstError = results.find((result) => result.status === "failed");
+        throw new Error(firstError?.status === "failed" ? firstError.error : "Failed to generate thumbnails");
+      }
+      if (failed > 0) toast.warning(`${failed} of ${results.length} variants could not be generated`);
+      setBackgrounds(urls);
+      setSelected(0);
+    } catch (error) {
+      console.error("Error generating thumbnail:", error);
+      toast.error(
+        error instanceof ImageCreditsError
+          ? "AI credits exhausted. The headline can still be exported on a plain background."
+          : error instanceof Error
+            ? error.message
+            : "Failed to generate thumbnails"
+      );
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const handleFontUpload = async (files: FileList | null) => {
+    const file = files?.[0];
+    if (!file) return;
+    try {
+      const family = await loadFontFile(file);
+      setBrandFonts((fonts) => (fonts.includes(family) ? fonts : [...fonts, family]));
+      update({ font: family });
+    } catch (error) {
+      console.error("Error loading font:", error);
+      toast.error(`Could not load ${file.name} as a font`);
+    } finally {
+      if (fontInput.current) fontInput.current.value = "";
+    }
+  };
+
+  const download = async (type: ThumbnailFileType) => {
+    if (!canvas.current) return;
+    setExporting(true);
+    try {
+      const blob = await exportThumbnail(canvas.current, type);
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `thumbnail.${type === "png" ? "png" : "jpg"}`;
+      a.click();
+      URL.revokeObjectURL(url);
+      toast.success(`Thumbnail exported (${(blob.size / 1024 / 1024).toFixed(2)} MB)`);
+    } catch (error) {
+      console.error("Error exporting thumbnail:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to export the thumbnail");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4 rounded-lg border border-border p-4">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h3 className="font-medium">Thumbnail</h3>
+          <p className="text-xs text-muted-foreground">
+            1280x720, exported under YouTube's {MAX_THUMBNAIL_BYTES / 1024 / 1024} MB limit.
+          </p>
+        </div>
+        <Button onClick={generate} disabled={disabled || generating} variant="outline">
+          {generating ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Sparkles className="w-4 h-4 mr-2" />}
+          {backgrounds.length > 0 ? "Generate new variants" : "Generate backgrounds"}
+        </Button>
+      </div>
+
+      <canvas ref={canvas} className="w-full aspect-video rounded-md bg-muted" />
+
+      {backgrounds.length > 1 && (
+        <div className="grid grid-cols-4 gap-2">
+          {backgrounds.map((url, index) => (
+            <button
+              key={url}
+              onClick={() => setSelected(index)}
+              className={cn(
+                "aspect-video overflow-hidden rounded border-2",
+                index === selected ? "border-primary" : "border-transparent"
+              )}
+              aria-label={`Use variant ${index + 1}`}
+            >
+              <img src={url} alt={`Variant ${index + 1}`} className="h-full w-full object-cover" />
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="thumbnail-headline" className="flex items-center gap-2 text-sm">
+          <Type className="w-4 h-4" />
+          Headline
+        </Label>
+        <Textarea
+          id="thumbnail-headline"
+          value={text.text}
+          onChange={(e) => update({ text: e.target.value })}
+          rows={2}
+          disabled={disabled}
+        />
+      </div>
+
+      <input
+        ref={fontInput}
+        type="file"
+        accept=".ttf,.otf,.woff,.woff2"
+        className="hidden"
+        onChange={(e) => handleFontUpload(e.target.files)}
+      />
+
+      <div className="grid sm:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="thumbnail-font" className="text-sm">Font</Label>
+          <div className="flex gap-2">
+            <Select value={text.font} onValueChange={(font) => update({ font })} disabled={disabled}>
+              <SelectTrigger id="thumbnail-font">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {[...Object.keys(THUMBNAIL_FONTS), ...brandFonts].map((font) => (
+                  <SelectItem key={font} value={font}>{font}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => fontInput.current?.click()}
+              disabled={disabled}
+              aria-label="Upload a brand font"
+              title="Upload a brand font"
+            >
+              <Upload className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-sm">Size: {text.fontSize}px</Label>
+          <Slider
+            min={48}
+            max={200}
+            step={2}
+            value={[text.fontSize]}
+            onValueChange={([fontSize]) => update({ fontSize })}
+            disabled={disabled}
+            className="py-2"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="thumbnail-position" className="text-sm">Position</Label>
+          <Select
+            value={text.position}
+            onValueChange={(position) => update({ position: position as ThumbnailTextPosition })}
+            disabled={disabled}
+          >
+            <SelectTrigger id="thumbnail-position">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="top">Top</SelectItem>
+              <SelectItem value="center">Center</SelectItem>
+              <SelectItem value="bottom">Bottom</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="thumbnail-align" className="text-sm">Alignment</Label>
+          <Select
+            value={text.align}
+            onValueChange={(align) => update({ align: align as ThumbnailTextAlign })}
+            disabled={disabled}
+          >
+            <SelectTrigger id="thumbnail-align">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="left">Left</SelectItem>
+              <SelectItem value="center">Center</SelectItem>
+              <SelectItem value="right">Right</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex items-center gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="thumbnail-color" className="text-sm">Text</Label>
+            <Input
+              id="thumbnail-color"
+              type="color"
+              value={text.color}
+              onChange={(e) => update({ color: e.target.value })}
+              disabled={disabled}
+              className="h-9 w-14 p-1"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="thumbnail-stroke-color" className="text-sm">Outline</Label>
+            <Input
+              id="thumbnail-stroke-color"
+              type="color"
+              value={text.strokeColor}
+              onChange={(e) => update({ strokeColor: e.target.value })}
+              disabled={disabled}
+              className="h-9 w-14 p-1"
+            />
+          </div>
+          <div className="flex items-center gap-2 pt-6">
+            <Switch
+              id="thumbnail-shadow"
+              checked={text.shadow}
+              onCheckedChange={(shadow) => update({ shadow })}
+              disabled={disabled}
+            />
+            <Label htmlFor="thumbnail-shadow" className="text-sm">Shadow</Label>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-sm">Outline width: {text.strokeWidth}px</Label>
+          <Slider
+            min={0}
+            max={24}
+            step={1}
+            value={[text.strokeWidth]}
+            onValueChange={([strokeWidth]) => update({ strokeWidth })}
+            disabled={disabled}
+            className="py-2"
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <Button variant="outline" onClick={() => download("png")} disabled={disabled || exporting}>
+          <Download className="w-4 h-4 mr-2" />
+          Download PNG
+        </Button>
+        <Button variant="outline" onClick={() => download("jpeg")} disabled={disabled || exporting}>
+          <Download className="w-4 h-4 mr-2" />
+          Download JPG
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -1,51 +1,103 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Copy, Check, FileText, Image, Music, Palette } from "lucide-react";
+import {
+  AlertTriangle,
+  AlignLeft,
+  Check,
+  CheckCircle2,
+  Copy,
+  FileText,
+  Hash,
+  Heading,
+  Image,
+  Loader2,
+  MessageSquare,
+  Music,
+  Palette,
+  Tags,
+  type LucideIcon
+} from "lucide-react";
 import { toast } from "sonner";
 import { VideoGenerator } from "@/components/VideoGenerator";
+import { SectionCard } from "@/components/SectionCard";
+import { ThumbnailGenerator } from "@/components/ThumbnailGenerator";
 import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  packageToMarkdown,
+  sectionText,
+  serializePackage,
+  type ProductionPackage,
+  type SectionKey,
+  type VideoBrief
+} from "@/lib/production-package";
+import { seoChecks, seoFieldText, type SeoField } from "@/lib/seo";
+import { cn } from "@/lib/utils";
+import type { AspectRatio } from "@/lib/video-formats";
+import type { ChannelProfile } from "@/lib/channel-profiles";
 
 interface VideoContentProps {
-  content: string;
+  productionPackage: ProductionPackage;
+  /** The package is still arriving from the model and sections may be empty or partial. */
+  isStreaming?: boolean;
+  /** The form inputs the package was generated from; enables per-section regeneration. */
+  brief?: VideoBrief;
+  /** Saved `video_projects` row to write section updates back to. */
+  projectId?: string;
+  onPackageChange?: (productionPackage: ProductionPackage) => void;
+  /** Formats the video is rendered in by default, e.g. vertical for Shorts. */
+  defaultFormats?: AspectRatio[];
+  /** Brand kit applied to renders: logo watermark, colors and caption font. */
+  channelProfile?: ChannelProfile;
 }
 
-export const VideoContent = ({ content }: VideoContentProps) => {
+const SECTION_ORDER: SectionKey[] = ["script", "visuals", "music", "thumbnail", "seo"];
+
+// Each piece of upload metadata gets its own tab; they are regenerated together
+const SEO_TABS: Array<{ field: SeoField; label: string; title: string; icon: LucideIcon }> = [
+  { field: "titles", label: "Titles", title: "Title Options", icon: Heading },
+  { field: "description", label: "Description", title: "Description", icon: AlignLeft },
+  { field: "tags", label: "Tags", title: "Tags", icon: Tags },
+  { field: "hashtags", label: "Hashtags", title: "Hashtags", icon: Hash },
+  { field: "pinnedComment", label: "Comment", title: "Pinned Comment", icon: MessageSquare },
+];
+
+export const VideoContent = ({
+  productionPackage,
+  isStreaming = false,
+  brief,
+  projectId,
+  onPackageChange,
+  defaultFormats,
+  channelProfile
+}: VideoContentProps) => {
   const [copiedSection, setCopiedSection] = useState<string | null>(null);
+  const [regeneratingSection, setRegeneratingSection] = useState<SectionKey | null>(null);
 
-  // Parse the content into sections
   const sections = {
-    script: extractSection(content, "## SCRIPT", "## VISUAL SCENES"),
-    visuals: extractSection(content, "## VISUAL SCENES", "## MUSIC RECOMMENDATIONS"),
-    music: extractSection(content, "## MUSIC RECOMMENDATIONS", "## THUMBNAIL CONCEPT"),
-    thumbnail: extractSection(content, "## THUMBNAIL CONCEPT", null)
+    script: sectionText(productionPackage, "script"),
+    visuals: sectionText(productionPackage, "visuals"),
+    music: sectionText(productionPackage, "music"),
+    thumbnail: sectionText(productionPackage, "thumbnail"),
+    seo: sectionText(productionPackage, "seo")
   };
 
-  function extractSection(text: string, startMarker: string, endMarker: string | null): string {
-    // Create flexible regex patterns that match variations of the headers
-    const patterns: Record<string, RegExp> = {
-      "## SCRIPT": /##\s*(?:\d+\.)?\s*(?:FULL\s+)?SCRIPT/i,
-      "## VISUAL SCENES": /##\s*(?:\d+\.)?\s*(?:DETAILED\s+)?VISUAL\s+(?:SCENES|DESCRIPTIONS)/i,
-      "## MUSIC RECOMMENDATIONS": /##\s*(?:\d+\.)?\s*(?:BACKGROUND\s+)?MUSIC\s+RECOMMENDATIONS?/i,
-      "## THUMBNAIL CONCEPT": /##\s*(?:\d+\.)?\s*THUMBNAIL\s+(?:CONCEPT|DESIGN)/i
-    };
-    
-    const pattern = patterns[startMarker];
-    if (!pattern) return "";
-    
-    const match = text.match(pattern);
-    if (!match) return "";
-    
-    const startIndex = match.index!;
-    const contentStart = startIndex + match[0].length;
-    
-    // Find next section or end
-    const endPattern = endMarker ? patterns[endMarker] : null;
-    const endMatch = endPattern ? text.slice(contentStart).match(endPattern) : null;
-    const endIndex = endMatch ? contentStart + endMatch.index! : text.length;
-    
-    return text.slice(contentStart, endIndex).trim();
-  }
+  // While streaming, the last section with any content is the one being written
+  const writingSection = isStreaming
+    ? [...SECTION_ORDER].reverse().find((key) => sections[key]) ?? "script"
+    : null;
+
+  const TabLabel = ({ sectionKey, label, icon: Icon }: { sectionKey: SectionKey; label: string; icon: LucideIcon }) => (
+    <>
+      {writingSection === sectionKey ? (
+        <Loader2 className="w-4 h-4 animate-spin" />
+      ) : (
+        <Icon className="w-4 h-4" />
+      )}
+      <span className="hidden sm:inline">{label}</span>
+    </>
+  );
 
   const copyToClipboard = async (text: string, sectionName: string) => {
     try {
@@ -58,46 +110,94 @@ export const VideoContent = ({ content }: VideoContentProps) => {
     }
   };
 
-  const SectionCard = ({ 
-    title, 
-    content, 
-    icon: Icon, 
-    sectionKey 
-  }: { 
-    title: string; 
-    content: string; 
-    icon: any; 
-    sectionKey: string;
-  }) => (
-    <div className="bg-card rounded-xl border border-border p-6 space-y-4">
-      <div className="flex items-center justify-between">
-        <div className="flex items-center gap-3">
-          <div className="p-2 rounded-lg bg-primary/10">
-            <Icon className="w-5 h-5 text-primary" />
-          </div>
-          <h3 className="text-lg font-semibold">{title}</h3>
-        </div>
-        <Button
-          variant="ghost"
-          size="sm"
-          onClick={() => copyToClipboard(content, title)}
-          className="hover:bg-primary/10"
-        >
-          {copiedSection === title ? (
-            <Check className="w-4 h-4 text-primary" />
-          ) : (
-            <Copy className="w-4 h-4" />
-          )}
-        </Button>
-      </div>
-      <div className="prose prose-invert max-w-none">
-        <pre className="whitespace-pre-wrap text-sm text-foreground bg-background/50 p-4 rounded-lg border border-border overflow-auto max-h-[400px]">
-          {content || "No content generated for this section"}
-        </pre>
-      </div>
-    </div>
+  const regenerateSection = async (section: SectionKey, title: string, instruction?: string) => {
+    if (!brief || !onPackageChange) return;
+    setRegeneratingSection(section);
+
+    try {
+      const { data, error } = await supabase.functions.invoke('refine-section', {
+        body: { ...brief, section, instruction, package: productionPackage }
+      });
+
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+      if (!data?.package) throw new Error("No section returned");
+
+      const updated: ProductionPackage = data.package;
+      onPackageChange(updated);
+
+      if (projectId) {
+        const { error: saveError } = await supabase
+          .from("video_projects")
+          .update({ generated_content: serializePackage(updated) })
+          .eq("id", projectId);
+
+        if (saveError) {
+          console.error("Error saving section:", saveError);
+          toast.error(`${title} updated but failed to save to dashboard`);
+          return;
+        }
+      }
+
+      toast.success(`${title} updated!`);
+    } catch (error) {
+      console.error("Error regenerating section:", error);
+      const message = error instanceof Error ? error.message : "";
+      toast.error(message.includes("rate limit")
+        ? "Rate limit exceeded. Please try again in a few moments."
+        : `Failed to update ${title.toLowerCase()}. Please try again.`);
+    } finally {
+      setRegeneratingSection(null);
+    }
+  };
+
+  const canRegenerate = !isStreaming && !!brief && !!onPackageChange;
+
+  const renderSection = (sectionKey: SectionKey, title: string, icon: LucideIcon) => (
+    <SectionCard
+      title={title}
+      content={sections[sectionKey]}
+      icon={icon}
+      isStreaming={isStreaming}
+      isCopied={copiedSection === title}
+      onCopy={() => copyToClipboard(sections[sectionKey], title)}
+      onRegenerate={canRegenerate ? (instruction) => regenerateSection(sectionKey, title, instruction) : undefined}
+      isRegenerating={regeneratingSection === sectionKey}
+    />
   );
 
+  const renderSeoField = (field: SeoField, title: string, icon: LucideIcon) => {
+    const checks = seoChecks(productionPackage, field);
+    return (
+      <SectionCard
+        title={title}
+        content={seoFieldText(productionPackage, field)}
+        icon={icon}
+        isStreaming={isStreaming}
+        isCopied={copiedSection === title}
+        onCopy={() => copyToClipboard(seoFieldText(productionPackage, field), title)}
+        onRegenerate={canRegenerate ? (instruction) => regenerateSection("seo", "SEO metadata", instruction) : undefined}
+        isRegenerating={regeneratingSection === "seo"}
+        footer={
+          sections.seo && (
+            <ul className="space-y-1 text-xs">
+              {checks.map((check) => (
+                <li
+                  key={check.label}
+                  className={cn("flex items-center gap-2", check.ok ? "text-muted-foreground" : "text-destructive")}
+                >
+                  {check.ok ? <CheckCircle2 className="w-3 h-3" /> : <AlertTriangle className="w-3 h-3" />}
+                  {check.label}
+                  {check.problem && ` · ${check.problem}`}
+                </li>
+              ))}
+            </ul>
+          )
+        }
+      />
+    );
+  };
+
   return (
     <div className="bg-card rounded-2xl border border-border overflow-hidden shadow-lg">
       <div className="bg-gradient-to-r from-primary/20 to-secondary/20 p-6 border-b border-border">
@@ -106,73 +206,71 @@ export const VideoContent = ({ content }: VideoContentProps) => {
       </div>
 
       <div className="p-6 space-y-6">
-        {sections.script && sections.visuals && (
-          <VideoGenerator 
-            script={sections.script}
-            visualScenes={sections.visuals}
+        {!isStreaming && productionPackage.segments.length > 0 && productionPackage.scenes.length > 0 && (
+          <VideoGenerator
+            productionPackage={productionPackage}
+            projectId={projectId}
+            defaultFormats={defaultFormats}
+            language={brief?.language}
+            channelProfile={channelProfile}
           />
         )}
 
         <Tabs defaultValue="script" className="w-full">
-          <TabsList className="grid w-full grid-cols-4 mb-6 bg-muted">
+          <TabsList className="grid w-full h-auto grid-cols-5 lg:grid-cols-9 mb-6 bg-muted">
             <TabsTrigger value="script" className="flex items-center gap-2">
-              <FileText className="w-4 h-4" />
-              <span className="hidden sm:inline">Script</span>
+              <TabLabel sectionKey="script" label="Script" icon={FileText} />
             </TabsTrigger>
             <TabsTrigger value="visuals" className="flex items-center gap-2">
-              <Image className="w-4 h-4" />
-              <span className="hidden sm:inline">Visuals</span>
+              <TabLabel sectionKey="visuals" label="Visuals" icon={Image} />
             </TabsTrigger>
             <TabsTrigger value="music" className="flex items-center gap-2">
-              <Music className="w-4 h-4" />
-              <span className="hidden sm:inline">Music</span>
+              <TabLabel sectionKey="music" label="Music" icon={Music} />
             </TabsTrigger>
             <TabsTrigger value="thumbnail" className="flex items-center gap-2">
-              <Palette className="w-4 h-4" />
-              <span className="hidden sm:inline">Thumbnail</span>
+              <TabLabel sectionKey="thumbnail" label="Thumbnail" icon={Palette} />
             </TabsTrigger>
+            {SEO_TABS.map(({ field, label, icon }) => (
+              <TabsTrigger key={field} value={field} className="flex items-center gap-2">
+                <TabLabel sectionKey="seo" label={label} icon={icon} />
+              </TabsTrigger>
+            ))}
           </TabsList>
 
           <TabsContent value="script" className="mt-0">
-            <SectionCard
-              title="Full Script"
-              content={sections.script}
-              icon={FileText}
-              sectionKey="script"
-            />
+            {renderSection("script", "Full Script", FileText)}
           </TabsContent>
 
           <TabsContent value="visuals" className="mt-0">
-            <SectionCard
-              title="Visual Scene Descriptions"
-              content={sections.visuals}
-              icon={Image}
-              sectionKey="visuals"
-            />
+            {renderSection("visuals", "Visual Scene Descriptions", Image)}
           </TabsContent>
 
           <TabsContent value="music" className="mt-0">
-            <SectionCard
-              title="Music Recommendations"
-              content={sections.music}
-              icon={Music}
-              sectionKey="music"
-            />
+            {renderSection("music", "Music Recommendations", Music)}
           </TabsContent>
 
-          <TabsContent value="thumbnail" className="mt-0">
-            <SectionCard
-              title="Thumbnail Concept"
-              content={sections.thumbnail}
-              icon={Palette}
-              sectionKey="thumbnail"
-            />
+          <TabsContent value="thumbnail" className="mt-0 space-y-4">
+            {renderSection("thumbnail", "Thumbnail Concept", Palette)}
+            {!isStreaming && (
+              <ThumbnailGenerator
+                concept={productionPackage.thumbnail}
+                projectId={projectId}
+                disabled={regeneratingSection === "thumbnail"}
+              />
+            )}
           </TabsContent>
+
+          {SEO_TABS.map(({ field, title, icon }) => (
+            <TabsContent key={field} value={field} className="mt-0">
+              {renderSeoField(field, title, icon)}
+            </TabsContent>
+          ))}
         </Tabs>
 
         <div className="mt-6 pt-6 border-t border-border">
           <Button
-            onClick={() => copyToClipboard(content, "Complete Package")}
+            onClick={() => copyToClipboard(packageToMarkdown(productionPackage), "Complete Package")}
+            disabled={isStreaming}
             className="w-full bg-gradient-to-r from-primary to-secondary hover:opacity-90"
           >
             {copiedSection === "Complete Package" ? (
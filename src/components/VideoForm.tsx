@@ -4,7 +4,15 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
-import { Sparkles } from "lucide-react";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Eye, Sparkles } from "lucide-react";
+import { ChannelProfilePicker } from "@/components/ChannelProfilePicker";
+import { PromptPreview } from "@/components/PromptPreview";
+import { StylePicker } from "@/components/StylePicker";
+import { DEFAULT_LANGUAGE, LANGUAGES } from "@/lib/languages";
+import { profileForRequest, type ChannelProfile } from "@/lib/channel-profiles";
+import { templateForRequest, type PromptTemplate } from "@/lib/prompt-templates";
+import type { VideoBrief } from "@/lib/production-package";
 
 interface VideoFormProps {
   onGenerate: (data: {
@@ -12,15 +20,31 @@ interface VideoFormProps {
     videoLength: string;
     style: string;
     targetAudience: string;
+    language: string;
+    extraLanguages: string[];
+    channelProfile: ChannelProfile | null;
+    promptTemplate: PromptTemplate | null;
   }) => void;
   isGenerating: boolean;
+  /** Translations, channel profiles and prompt templates are saved per user, so they need a signed-in user. */
+  signedIn?: boolean;
 }
 
-export const VideoForm = ({ onGenerate, isGenerating }: VideoFormProps) => {
+export const VideoForm = ({ onGenerate, isGenerating, signedIn }: VideoFormProps) => {
   const [topic, setTopic] = useState("");
   const [videoLength, setVideoLength] = useState("5-10 minutes");
   const [style, setStyle] = useState("Educational");
   const [targetAudience, setTargetAudience] = useState("");
+  const [language, setLanguage] = useState(DEFAULT_LANGUAGE);
+  const [extraLanguages, setExtraLanguages] = useState<string[]>([]);
+  const [channelProfile, setChannelProfile] = useState<ChannelProfile | null>(null);
+  const [promptTemplate, setPromptTemplate] = useState<PromptTemplate | null>(null);
+  const [previewBrief, setPreviewBrief] = useState<VideoBrief | null>(null);
+
+  const handleStyleChange = (nextStyle: string, template: PromptTemplate | null) => {
+    setStyle(nextStyle);
+    setPromptTemplate(template);
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -30,7 +54,26 @@ export const VideoForm = ({ onGenerate, isGenerating }: VideoFormProps) => {
       topic,
       videoLength,
       style,
-      targetAudience: targetAudience || "General audience"
+      targetAudience: targetAudience || "General audience",
+      language,
+      extraLanguages: signedIn ? extraLanguages.filter(code => code !== language) : [],
+      channelProfile: signedIn ? channelProfile : null,
+      promptTemplate: signedIn ? promptTemplate : null
+    });
+  };
+
+  // Rendered from the same brief handleSubmit sends, so the preview matches the generation
+  const handlePreview = () => {
+    const profile = signedIn ? channelProfile : null;
+    const template = signedIn ? promptTemplate : null;
+    setPreviewBrief({
+      topic,
+      videoLength,
+      style,
+      targetAudience: targetAudience || "General audience",
+      language,
+      channelProfile: profile && profileForRequest(profile),
+      promptTemplate: template && templateForRequest(template)
     });
   };
 
@@ -71,19 +114,13 @@ export const VideoForm = ({ onGenerate, isGenerating }: VideoFormProps) => {
 
         <div className="space-y-2">
           <Label htmlFor="style" className="text-base">Video Style</Label>
-          <Select value={style} onValueChange={setStyle}>
-            <SelectTrigger id="style" className="bg-background/50 border-border focus:border-primary">
-              <SelectValue />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="Educational">Educational</SelectItem>
-              <SelectItem value="Entertainment">Entertainment</SelectItem>
-              <SelectItem value="Tutorial">Tutorial / How-to</SelectItem>
-              <SelectItem value="Review">Review / Analysis</SelectItem>
-              <SelectItem value="Vlog">Vlog / Personal</SelectItem>
-              <SelectItem value="Documentary">Documentary</SelectItem>
-            </SelectContent>
-          </Select>
+          <StylePicker
+            id="style"
+            style={style}
+            template={promptTemplate}
+            onChange={handleStyleChange}
+            signedIn={signedIn}
+          />
         </div>
 
         <div className="space-y-2">
@@ -97,6 +134,59 @@ export const VideoForm = ({ onGenerate, isGenerating }: VideoFormProps) => {
           />
         </div>
 
+        <div className="space-y-2">
+          <Label htmlFor="language" className="text-base">Language</Label>
+          <Select value={language} onValueChange={setLanguage}>
+            <SelectTrigger id="language" className="bg-background/50 border-border focus:border-primary">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {LANGUAGES.map(({ code, name }) => (
+                <SelectItem key={code} value={code}>{name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {signedIn && (
+          <div className="space-y-2">
+            <Label htmlFor="channelProfile" className="text-base">Channel Profile (Optional)</Label>
+            <ChannelProfilePicker id="channelProfile" value={channelProfile} onChange={setChannelProfile} />
+          </div>
+        )}
+
+        {signedIn && (
+          <div className="space-y-2">
+            <Label className="text-base">Also Translate Into (Optional)</Label>
+            <p className="text-sm text-muted-foreground">
+              Each translation is saved under this project with the same timing, ready to render with its own narration and captions.
+            </p>
+            <ToggleGroup
+              type="multiple"
+              variant="outline"
+              size="sm"
+              value={extraLanguages.filter(code => code !== language)}
+              onValueChange={setExtraLanguages}
+              className="flex flex-wrap justify-start gap-2"
+            >
+              {LANGUAGES.filter(({ code }) => code !== language).map(({ code, name }) => (
+                <ToggleGroupItem key={code} value={code}>{name}</ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          </div>
+        )}
+
+        <Button
+          type="button"
+          variant="outline"
+          onClick={handlePreview}
+          disabled={!topic.trim()}
+          className="w-full"
+        >
+          <Eye className="w-4 h-4 mr-2" />
+          Preview Prompt
+        </Button>
+
         <Button
           type="submit"
           disabled={isGenerating || !topic.trim()}
@@ -115,6 +205,8 @@ export const VideoForm = ({ onGenerate, isGenerating }: VideoFormProps) => {
           )}
         </Button>
       </form>
+
+      <PromptPreview brief={previewBrief} onClose={() => setPreviewBrief(null)} />
     </div>
   );
 };
@@ -1,31 +1,234 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { toast } from 'sonner';
 import { supabase } from '@/integrations/supabase/client';
-import { FFmpeg } from '@ffmpeg/ffmpeg';
-import { fetchFile, toBlobURL } from '@ffmpeg/util';
-import { Video, Download, Loader2 } from 'lucide-react';
+import type { Tables } from '@/integrations/supabase/types';
+import { fetchFile } from '@ffmpeg/util';
+import { Video, Download, Loader2, Mic, FileText, Square, AlertTriangle, RotateCcw, Server, Stamp } from 'lucide-react';
+import type { ProductionPackage } from '@/lib/production-package';
+import {
+  DEFAULT_NARRATION,
+  fetchVoices,
+  silentNarration,
+  synthesizeNarration,
+  type NarrationClip,
+  type NarrationSettings
+} from '@/lib/narration';
+import {
+  audioFileName,
+  buildConcatList,
+  buildRenderArgs,
+  resolveSceneDuration,
+  scriptTimeToRenderTime,
+  type MusicBed,
+  type SceneData
+} from '@/lib/video-render';
+import {
+  DEFAULT_SUBTITLES,
+  SUBTITLE_FONTS,
+  buildCues,
+  captionLineLength,
+  subtitleForceStyle,
+  toSrt,
+  toVtt,
+  type SubtitleSettings
+} from '@/lib/subtitles';
+import {
+  DEFAULT_FORMATS,
+  VIDEO_FORMATS,
+  formatSlug,
+  type AspectRatio,
+  type FrameFit,
+  type ImageOrientation,
+  type VideoFormat
+} from '@/lib/video-formats';
+import { DEFAULT_SCENE_EFFECTS, type SceneEffects } from '@/lib/scene-effects';
+import {
+  DEFAULT_MUSIC_MIX,
+  fetchMusicLibrary,
+  suggestAssignments,
+  trackFromUpload,
+  type MusicAssignment,
+  type MusicMixSettings,
+  type MusicTrack
+} from '@/lib/music';
+import { loadRenderer, renderVideos, RenderCancelledError, RendererLoadError } from '@/lib/render-service';
+import type { RenderFile } from '@/lib/render-protocol';
+import {
+  SERVER_RENDER_SUGGESTED_SECONDS,
+  ServerRendererUnavailableError,
+  renderVideosOnServer,
+  type ServerRenderedVideo
+} from '@/lib/server-render';
+import { saveAsset, signedAssetUrl } from '@/lib/assets';
+import {
+  ImageCreditsError,
+  generateAllSceneImages,
+  generateSceneImages,
+  type FailedSceneImage,
+  type SceneImage
+} from '@/lib/scene-images';
+import { createStoryboard, storyboardImage, storyboardScenes, syncStoryboard, type StoryboardScene } from '@/lib/storyboard';
+import {
+  EMPTY_STYLE_GUIDE,
+  loadStyleGuide,
+  saveStyleGuide,
+  styleGuideForRequest,
+  type StyleGuide
+} from '@/lib/style-guide';
+import { DEFAULT_LANGUAGE, languageName, subtitleFontFor } from '@/lib/languages';
+import type { ChannelProfile } from '@/lib/channel-profiles';
+import { useRenderSession } from '@/hooks/use-render-session';
+import { FormatOptions } from '@/components/FormatOptions';
+import { MusicBedEditor } from '@/components/MusicBedEditor';
+import { SceneEffectsEditor } from '@/components/SceneEffectsEditor';
+import { SceneTimingEditor } from '@/components/SceneTimingEditor';
+import { StoryboardEditor } from '@/components/StoryboardEditor';
+import { StyleGuideEditor } from '@/components/StyleGuideEditor';
+import { SubtitleOptions } from '@/components/SubtitleOptions';
 
-interface VideoGeneratorProps {
-  script: string;
-  visualScenes: string;
+const STYLE_GUIDE_SAVE_DELAY_MS = 1000;
+
+interface RenderedVideo {
+  format: AspectRatio;
+  videoUrl: string;
+  downloadUrl: string;
+  captions: { srt: string; vtt: string; vttUrl: string };
+  burnedIn: boolean;
 }
 
-interface SceneData {
-  timestamp: string;
-  text: string;
-  visualDescription: string;
-  duration: number;
+interface VideoGeneratorProps {
+  productionPackage: ProductionPackage;
+  /** Keys the render session, so a render in progress survives the dialog closing. */
+  projectId?: string;
+  /** Formats selected when the generator opens. */
+  defaultFormats?: AspectRatio[];
+  /** Language the package is written in; picks the caption font and tags the captions track. */
+  language?: string;
+  /** Brand kit: logo watermark, placeholder colors and caption font and outline. */
+  channelProfile?: ChannelProfile;
 }
 
-export const VideoGenerator = ({ script, visualScenes }: VideoGeneratorProps) => {
-  const [isGenerating, setIsGenerating] = useState(false);
-  const [progress, setProgress] = useState('');
-  const [progressPercent, setProgressPercent] = useState(0);
-  const [currentStep, setCurrentStep] = useState('');
-  const [videoUrl, setVideoUrl] = useState<string | null>(null);
-  const [jobId, setJobId] = useState<string | null>(null);
+export const VideoGenerator = ({
+  productionPackage,
+  projectId,
+  defaultFormats = DEFAULT_FORMATS,
+  language = DEFAULT_LANGUAGE,
+  channelProfile
+}: VideoGeneratorProps) => {
+  // Render state lives outside the component so closing the dialog doesn't lose it
+  const [session, updateSession] = useRenderSession<RenderedVideo>(projectId ?? productionPackage.title);
+  const { isGenerating, progress, progressPercent, currentStep, jobId, results: renders } = session;
+  const setProgress = (progress: string) => updateSession({ progress });
+  const setProgressPercent = (progressPercent: number) => updateSession({ progressPercent });
+  const setJobId = (jobId: string) => updateSession({ jobId });
+  const [narrationSettings, setNarrationSettings] = useState<NarrationSettings>(DEFAULT_NARRATION);
+  const [voices, setVoices] = useState<string[]>([]);
+  // Seconds per scene, keyed by scene id, set by the user before rendering
+  const [durationOverrides, setDurationOverrides] = useState<Record<string, number>>({});
+  const [subtitleSettings, setSubtitleSettings] = useState<SubtitleSettings>({
+    ...DEFAULT_SUBTITLES,
+    font: subtitleFontFor(language) ?? DEFAULT_SUBTITLES.font
+  });
+  const [logoWatermark, setLogoWatermark] = useState(true);
+  const watermarkLogo = logoWatermark ? channelProfile?.logoPath : null;
+  // Keeps downloads of the same video in different languages apart
+  const languageSuffix = language === DEFAULT_LANGUAGE ? '' : `-${language}`;
+  const [selectedFormats, setSelectedFormats] = useState<AspectRatio[]>(defaultFormats);
+  const [frameFit, setFrameFit] = useState<FrameFit>('crop');
+  const [defaultEffects, setDefaultEffects] = useState<SceneEffects>(DEFAULT_SCENE_EFFECTS);
+  const [effectOverrides, setEffectOverrides] = useState<Record<string, Partial<SceneEffects>>>({});
+  const [musicLibrary, setMusicLibrary] = useState<MusicTrack[]>([]);
+  const [uploadedTracks, setUploadedTracks] = useState<MusicTrack[]>([]);
+  const [musicAssignments, setMusicAssignments] = useState<MusicAssignment[]>([]);
+  const [musicMix, setMusicMix] = useState<MusicMixSettings>(DEFAULT_MUSIC_MIX);
+  const [rendererError, setRendererError] = useState<string | null>(null);
+  const [storyboard, setStoryboard] = useState<StoryboardScene[]>(() => createStoryboard(productionPackage));
+  // Segments the storyboard has seen, so scenes the user deleted aren't added back
+  const knownSegmentIds = useRef(productionPackage.segments.map(segment => segment.id));
+  const [generatingScenes, setGeneratingScenes] = useState<string[]>([]);
+  const [styleGuide, setStyleGuide] = useState<StyleGuide>(EMPTY_STYLE_GUIDE);
+  // Not saved until the project's own guide has loaded, so it isn't overwritten with the empty one
+  const [styleGuideLoaded, setStyleGuideLoaded] = useState(false);
+  const scriptDuration = productionPackage.segments.reduce((end, segment) => Math.max(end, segment.end), 0);
+  // Long videos don't fit in FFmpeg.wasm's memory, so suggest the render server for them
+  const [serverRendering, setServerRendering] = useState(scriptDuration >= SERVER_RENDER_SUGGESTED_SECONDS);
+
+  // Offer the voices of whichever TTS provider the backend is configured with
+  useEffect(() => {
+    fetchVoices()
+      .then(({ voices }) => {
+        setVoices(voices);
+        setNarrationSettings(settings => ({ ...settings, voice: settings.voice || voices[0] || '' }));
+      })
+      .catch((error) => {
+        console.error('Error loading voices:', error);
+      });
+  }, []);
+
+  // Offer the royalty-free library, pre-assigned to the script's music cues
+  useEffect(() => {
+    fetchMusicLibrary()
+      .then((library) => {
+        setMusicLibrary(library);
+        setMusicAssignments(current =>
+          current.length > 0 ? current : suggestAssignments(productionPackage.music, library)
+        );
+      })
+      .catch((error) => {
+        console.error('Error loading music library:', error);
+      });
+  }, [productionPackage.music]);
+
+  // Captions start in the channel's font and color, unless the language needs a font for its script
+  useEffect(() => {
+    if (!channelProfile) return;
+    setSubtitleSettings(settings => ({
+      ...settings,
+      font:
+        !subtitleFontFor(language) && channelProfile.font && Object.hasOwn(SUBTITLE_FONTS, channelProfile.font)
+          ? channelProfile.font
+          : settings.font,
+      outlineColor: channelProfile.primaryColor
+    }));
+  }, [channelProfile, language]);
+
+  // The style guide belongs to the project, so it carries over between sessions
+  useEffect(() => {
+    if (!projectId) return;
+    loadStyleGuide(projectId)
+      .then((guide) => {
+        setStyleGuide(guide);
+        setStyleGuideLoaded(true);
+      })
+      .catch((error) => {
+        console.error('Error loading style guide:', error);
+      });
+  }, [projectId]);
+
+  // Save edits once the user pauses typing
+  useEffect(() => {
+    if (!projectId || !styleGuideLoaded) return;
+    const timeout = setTimeout(() => {
+      saveStyleGuide(projectId, styleGuide).catch((error) => {
+        console.error('Error saving style guide:', error);
+        toast.error('Failed to save the style guide');
+      });
+    }, STYLE_GUIDE_SAVE_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [projectId, styleGuide, styleGuideLoaded]);
+
+  // Follow script edits: new segments get their scenes, removed ones lose theirs
+  useEffect(() => {
+    setStoryboard(current => syncStoryboard(current, productionPackage, knownSegmentIds.current));
+    knownSegmentIds.current = productionPackage.segments.map(segment => segment.id);
+  }, [productionPackage]);
 
   // Subscribe to real-time progress updates
   useEffect(() => {
@@ -42,14 +245,16 @@ export const VideoGenerator = ({ script, visualScenes }: VideoGeneratorProps) =>
           filter: `id=eq.${jobId}`
         },
         (payload) => {
-          const job = payload.new as any;
-          setProgressPercent(job.progress || 0);
-          setCurrentStep(job.current_step || '');
-          setProgress(job.current_step || '');
+          const job = payload.new as Tables<'video_generation_jobs'>;
+          updateSession({
+            progressPercent: job.progress || 0,
+            currentStep: job.current_step || '',
+            progress: job.current_step || ''
+          });
           
           if (job.status === 'failed') {
             toast.error(job.error_message || 'Video generation failed');
-            setIsGenerating(false);
+            updateSession({ isGenerating: false });
           }
         }
       )
@@ -58,115 +263,48 @@ export const VideoGenerator = ({ script, visualScenes }: VideoGeneratorProps) =>
     return () => {
       supabase.removeChannel(channel);
     };
-  }, [jobId]);
+  }, [jobId, updateSession]);
 
-  const parseScriptAndScenes = (): SceneData[] => {
-    const scriptLines = script.split('\n').filter(line => line.trim());
-    
-    // Extract clean visual descriptions from the visual scenes section
-    const visualLines = visualScenes.split('\n').filter(line => line.trim());
-    const cleanDescriptions: string[] = [];
-    
-    for (const line of visualLines) {
-      // Skip timestamp lines, section headers, and formatting
-      if (line.match(/^\[[\d:]+\s*-\s*[\d:]+\]/) || 
-          line.match(/^\*\*[A-Z\s]+\*\*$/) ||
-          line.startsWith('*   **')) {
-        continue;
-      }
-      // Extract actual visual descriptions from bullet points
-      if (line.startsWith('*   **Visuals:**') || line.startsWith('*   **B-roll:**')) {
-        const description = line.replace(/^\*\s+\*\*(?:Visuals|B-roll):\*\*\s*/, '').trim();
-        if (description.length > 20) {
-          cleanDescriptions.push(description);
-        }
-      }
-    }
-    
-    const scenes: SceneData[] = [];
-    const timestampRegex = /\[(\d{2}:\d{2})\]/g;
-    
-    let currentTimestamp = '00:00';
-    let currentText = '';
-    let sceneIndex = 0;
-    
-    for (const line of scriptLines) {
-      const match = timestampRegex.exec(line);
-      if (match) {
-        if (currentText) {
-          scenes.push({
-            timestamp: currentTimestamp,
-            text: currentText.trim(),
-            visualDescription: cleanDescriptions[sceneIndex] || 'A professional video scene',
-            duration: 5
-          });
-          sceneIndex++;
-        }
-        currentTimestamp = match[1];
-        currentText = line.replace(timestampRegex, '').trim();
-      } else {
-        currentText += ' ' + line;
-      }
-    }
-    
-    // Add last scene
-    if (currentText && sceneIndex < cleanDescriptions.length) {
-      scenes.push({
-        timestamp: currentTimestamp,
-        text: currentText.trim(),
-        visualDescription: cleanDescriptions[sceneIndex] || 'A professional video scene',
-        duration: 5
-      });
-    }
-    
-    return scenes;
-  };
+  // One scene per storyboard entry, in storyboard order
+  const buildScenes = (): SceneData[] => storyboardScenes(storyboard, productionPackage);
 
-  const generateVoiceover = async (text: string): Promise<Blob> => {
-    return new Promise((resolve, reject) => {
-      const utterance = new SpeechSynthesisUtterance(text);
-      const chunks: BlobEvent[] = [];
-      
-      // Use MediaRecorder to capture audio
-      const mediaRecorder = new MediaRecorder(
-        new MediaStream(),
-        { mimeType: 'audio/webm' }
-      );
-      
-      mediaRecorder.ondataavailable = (e) => chunks.push(e as any);
-      mediaRecorder.onstop = () => {
-        const blob = new Blob(chunks.map(c => (c as any).data), { type: 'audio/webm' });
-        resolve(blob);
-      };
-      
-      utterance.onend = () => {
-        mediaRecorder.stop();
-      };
-      
-      utterance.onerror = (e) => {
-        reject(e);
-      };
-      
-      // Simple fallback: create silent audio blob
-      setTimeout(() => {
-        resolve(new Blob([new ArrayBuffer(1024)], { type: 'audio/webm' }));
-      }, text.length * 50); // Estimate duration
-      
-      window.speechSynthesis.speak(utterance);
-    });
+  // Format the storyboard previews images for
+  const previewFormat = VIDEO_FORMATS[selectedFormats[0] ?? DEFAULT_FORMATS[0]];
+
+  // Keep generated images on the storyboard, so they are reused by later renders
+  const addStoryboardImages = (orientation: ImageOrientation, images: Map<string, SceneImage>) =>
+    setStoryboard(current => current.map(scene => {
+      const image = images.get(scene.id);
+      return image ? { ...scene, images: { ...scene.images, [orientation]: image } } : scene;
+    }));
+
+  const encodeText = (text: string) => new TextEncoder().encode(text);
+
+  const downloadText = (text: string, fileName: string, type: string) => {
+    const url = URL.createObjectURL(new Blob([text], { type }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    a.click();
+    URL.revokeObjectURL(url);
   };
 
   // Generate placeholder images using canvas when AI credits run out
-  const generatePlaceholderImages = (scenes: SceneData[]): Array<{ sceneIndex: number; imageUrl: string }> => {
+  const generatePlaceholderImages = (scenes: SceneData[], format: VideoFormat): string[] => {
+    // Text is laid out for a 576px-tall landscape frame and scaled to the format
+    const scale = Math.min(format.width, format.height) / 576;
+
     return scenes.map((scene, index) => {
       const canvas = document.createElement('canvas');
-      canvas.width = 1024;
-      canvas.height = 576;
+      canvas.width = format.width;
+      canvas.height = format.height;
       const ctx = canvas.getContext('2d')!;
 
       // Create gradient background
       const gradient = ctx.createLinearGradient(0, 0, canvas.width, canvas.height);
-      const colors = ['#667eea', '#764ba2', '#f093fb', '#4facfe', '#43e97b'];
+      const colors = channelProfile
+        ? [channelProfile.primaryColor, channelProfile.secondaryColor]
+        : ['#667eea', '#764ba2', '#f093fb', '#4facfe', '#43e97b'];
       gradient.addColorStop(0, colors[index % colors.length]);
       gradient.addColorStop(1, colors[(index + 1) % colors.length]);
       ctx.fillStyle = gradient;
@@ -174,30 +312,124 @@ export const VideoGenerator = ({ script, visualScenes }: VideoGeneratorProps) =>
 
       // Add scene number
       ctx.fillStyle = 'white';
-      ctx.font = 'bold 120px sans-serif';
+      ctx.font = `bold ${Math.round(120 * scale)}px sans-serif`;
       ctx.textAlign = 'center';
       ctx.textBaseline = 'middle';
-      ctx.fillText(`Scene ${index + 1}`, canvas.width / 2, canvas.height / 2 - 50);
+      ctx.fillText(`Scene ${index + 1}`, canvas.width / 2, canvas.height / 2 - 50 * scale);
 
-      // Add scene description (truncated)
-      ctx.font = '24px sans-serif';
-      const maxLength = 60;
+      // Add scene description (truncated to the frame width)
+      ctx.font = `${Math.round(24 * scale)}px sans-serif`;
+      const maxLength = Math.round((60 * format.width) / (1024 * scale));
       const description = scene.visualDescription.length > maxLength 
         ? scene.visualDescription.substring(0, maxLength) + '...'
         : scene.visualDescription;
-      ctx.fillText(description, canvas.width / 2, canvas.height / 2 + 50);
+      ctx.fillText(description, canvas.width / 2, canvas.height / 2 + 50 * scale);
 
-      return {
-        sceneIndex: index,
-        imageUrl: canvas.toDataURL('image/png')
-      };
+      return canvas.toDataURL('image/png');
     });
   };
 
+  // Generate the images the storyboard doesn't have yet, falling back to
+  // placeholders for scenes that keep failing, or for every scene once credits run out
+  const fetchSceneImages = async (
+    scenes: SceneData[],
+    format: VideoFormat,
+    jobId: string,
+    existing: (SceneImage | null)[]
+  ): Promise<SceneImage[]> => {
+    const missing = existing.flatMap((image, i) => (image ? [] : [i]));
+    if (missing.length === 0) return existing;
+    const placeholders = () => generatePlaceholderImages(scenes, format).map(url => ({ url }));
+
+    try {
+      const generated = await generateAllSceneImages({
+        descriptions: scenes.map(s => s.visualDescription),
+        orientation: format.orientation,
+        jobId,
+        sceneIndexes: missing,
+        styleGuide: styleGuideForRequest(styleGuide)
+      });
+      addStoryboardImages(
+        format.orientation,
+        new Map(generated.flatMap((image, i) => (image ? [[scenes[i].id, image] as const] : [])))
+      );
+
+      const images = existing.map((image, i) => image ?? generated[i]);
+      const failed = images.filter(image => !image).length;
+      if (failed === 0) return images;
+
+      toast.warning(`${failed} of ${scenes.length} scene images could not be generated. Using placeholders for them.`, {
+        id: 'failed-images',
+        duration: 5000,
+      });
+      const fallback = placeholders();
+      return images.map((image, i) => image ?? fallback[i]);
+    } catch (error) {
+      if (!(error instanceof ImageCreditsError)) throw error;
+
+      console.log("AI credits exhausted, using placeholder images");
+      toast.info("AI credits exhausted. Using placeholder images for video generation.", {
+        id: 'placeholder-images',
+        duration: 5000,
+      });
+      const fallback = placeholders();
+      return existing.map((image, i) => image ?? fallback[i]);
+    }
+  };
+
+  // Generate (or regenerate) storyboard images in the preview format, ahead of rendering
+  const generateStoryboardImages = async (sceneIds: string[]) => {
+    if (sceneIds.length === 0) return;
+    const { orientation } = previewFormat;
+    const order = storyboard.map(scene => scene.id);
+    setGeneratingScenes(current => [...current, ...sceneIds]);
+
+    try {
+      const results = await generateSceneImages({
+        descriptions: storyboard.map(scene => scene.prompt),
+        orientation,
+        projectId,
+        sceneIndexes: sceneIds.map(id => order.indexOf(id)),
+        styleGuide: styleGuideForRequest(styleGuide)
+      });
+      addStoryboardImages(
+        orientation,
+        new Map(results.flatMap(result =>
+          result.status === 'succeeded' ? [[order[result.sceneIndex], { url: result.imageUrl, path: result.path }] as const] : []
+        ))
+      );
+
+      const failed = results.filter((result): result is FailedSceneImage => result.status === 'failed');
+      if (failed.length > 0) {
+        toast.error(
+          failed.length === 1
+            ? `Scene image could not be generated: ${failed[0].error}`
+            : `${failed.length} scene images could not be generated: ${failed[0].error}`
+        );
+      }
+    } catch (error) {
+      console.error('Error generating storyboard images:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to generate scene images');
+    } finally {
+      setGeneratingScenes(current => current.filter(id => !sceneIds.includes(id)));
+    }
+  };
+
   const generateVideo = async () => {
-    setIsGenerating(true);
+    const controller = new AbortController();
+    const throwIfCancelled = () => {
+      if (controller.signal.aborted) throw new RenderCancelledError();
+    };
+    let currentJobId: string | null = null;
+
+    updateSession({ isGenerating: true, results: [], controller });
     setProgress('Initializing video generation...');
     setProgressPercent(0);
+    // Warm up FFmpeg while images and narration are generated, unless the server renders
+    setRendererError(null);
+    if (!serverRendering) {
+      loadRenderer().catch((error) => console.error('Error loading FFmpeg:', error));
+    }
     
     try {
       // Get current user
@@ -211,6 +443,7 @@ export const VideoGenerator = ({ script, visualScenes }: VideoGeneratorProps) =>
         .from('video_generation_jobs')
         .insert({
           user_id: user.id,
+          project_id: projectId ?? null,
           status: 'pending',
           progress: 0,
           current_step: 'Parsing script and scenes'
@@ -219,133 +452,253 @@ export const VideoGenerator = ({ script, visualScenes }: VideoGeneratorProps) =>
         .single();
 
       if (jobError) throw jobError;
+      currentJobId = job.id;
       setJobId(job.id);
 
       setProgress('Parsing script and scenes...');
       setProgressPercent(5);
-      const scenes = parseScriptAndScenes();
+      const scenes = buildScenes();
       
       if (scenes.length === 0) {
         throw new Error("No scenes found in the script");
       }
 
-      // Try to generate images with AI, fallback to placeholders if credits run out
-      setProgress(`Generating ${scenes.length} scene images...`);
-      setProgressPercent(10);
-      
-      let imageData: { images: Array<{ sceneIndex: number; imageUrl: string }> };
-      
-      try {
-        const { data, error: imageError } = await supabase.functions.invoke(
-          'generate-scene-images',
-          {
-            body: { 
-              sceneDescriptions: scenes.map(s => s.visualDescription),
-              jobId: job.id
-            }
-          }
-        );
-
-        const paymentOrRateError = (message: string) =>
-          message.includes('Payment required') ||
-          message.includes('payment_required') ||
-          message.includes('credits') ||
-          message.includes('402');
+      // One image set per orientation; formats sharing an orientation are
+      // cropped or padded from the same images
+      const formats = selectedFormats.map(id => VIDEO_FORMATS[id]);
+      const orientations = new Map<ImageOrientation, VideoFormat>();
+      formats.forEach(format => {
+        if (!orientations.has(format.orientation)) orientations.set(format.orientation, format);
+      });
 
-        const bodyErrorMessage = typeof data?.error === 'string' ? data.error : '';
+      setProgressPercent(10);
+      const images = new Map<ImageOrientation, SceneImage[]>();
+      for (const [orientation, format] of orientations) {
+        throwIfCancelled();
+        setProgress(`Generating ${orientation} scene images...`);
+        const existing = scenes.map(({ id }) => {
+          const scene = storyboard.find(s => s.id === id);
+          return scene ? storyboardImage(scene, orientation) : null;
+        });
+        images.set(orientation, await fetchSceneImages(scenes, format, job.id, existing));
+      }
 
-        if (imageError || bodyErrorMessage) {
-          const errorMessage = imageError?.message || bodyErrorMessage || String(imageError);
+      // Narration: one clip per scene; scenes stretch to fit clips that outrun them
+      const narration: NarrationClip[] = [];
+      if (narrationSettings.enabled) {
+        await supabase
+          .from('video_generation_jobs')
+          .update({ current_step: 'Generating narration', progress: 50 })
+          .eq('id', job.id);
 
-          if (paymentOrRateError(errorMessage)) {
-            console.log("AI credits exhausted, using placeholder images");
-            toast.info("AI credits exhausted. Using placeholder images for video generation.", {
-              duration: 5000,
-            });
-            imageData = { images: generatePlaceholderImages(scenes) };
-          } else {
-            throw imageError || new Error(errorMessage || 'Unknown error generating images');
-          }
-        } else {
-          if (!data?.images) throw new Error("Failed to generate images");
-          imageData = data;
-        }
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        if (errorMessage.includes('Payment required') || errorMessage.includes('payment_required') || 
-            errorMessage.includes('credits') || errorMessage.includes('402')) {
-          console.log("AI credits exhausted, using placeholder images");
-          toast.info("AI credits exhausted. Using placeholder images for video generation.", {
-            duration: 5000,
-          });
-          imageData = { images: generatePlaceholderImages(scenes) };
-        } else {
-          throw error;
+        for (let i = 0; i < scenes.length; i++) {
+          throwIfCancelled();
+          setProgress(`Generating narration ${i + 1}/${scenes.length}...`);
+          narration.push(
+            scenes[i].text.trim() ? await synthesizeNarration(scenes[i].text, narrationSettings) : silentNarration()
+          );
+          setProgressPercent(50 + Math.round(((i + 1) / scenes.length) * 5));
         }
       }
 
-      setProgress('Loading FFmpeg...');
+      throwIfCancelled();
+      setProgress('Preparing scenes...');
       setProgressPercent(55);
       await supabase
         .from('video_generation_jobs')
-        .update({ current_step: 'Loading video processor', progress: 55 })
+        .update({ current_step: 'Preparing scenes', progress: 55 })
         .eq('id', job.id);
 
-      const ffmpeg = new FFmpeg();
-      
-      await ffmpeg.load({
-        coreURL: await toBlobURL(
-          'https://unpkg.com/@ffmpeg/core@0.12.6/dist/esm/ffmpeg-core.js',
-          'text/javascript'
-        ),
-        wasmURL: await toBlobURL(
-          'https://unpkg.com/@ffmpeg/core@0.12.6/dist/esm/ffmpeg-core.wasm',
-          'application/wasm'
-        ),
+      // Everything FFmpeg reads is collected here and handed to the render worker at once
+      const files: RenderFile[] = [];
+      const dirs: string[] = [];
+
+      // Generated images are in storage, whose links may have expired since the
+      // storyboard made them; placeholders and uploads are data URLs
+      for (const [orientation, sceneImages] of images) {
+        for (const [i, image] of sceneImages.entries()) {
+          const url = image.path ? await signedAssetUrl(image.path) : image.url;
+          files.push({ path: `${orientation}${i}.png`, data: await fetchFile(url) });
+        }
+      }
+
+      narration.forEach((clip, i) => files.push({ path: audioFileName(i, clip), data: clip.data }));
+
+      const durations = scenes.map((scene, i) =>
+        resolveSceneDuration(scene, durationOverrides[scene.id], narration[i])
+      );
+      const effects = scenes.map(scene => ({ ...defaultEffects, ...effectOverrides[scene.id] }));
+      for (const [orientation, sceneImages] of images) {
+        files.push({
+          path: `scenes-${orientation}.txt`,
+          data: encodeText(buildConcatList(sceneImages.map((_, i) => `${orientation}${i}.png`), durations))
+        });
+      }
+
+      // Music ranges are set on the script timeline; move them onto the rendered one
+      const musicTracks = [...musicLibrary, ...uploadedTracks];
+      const music: MusicBed[] = [];
+      if (musicMix.enabled) {
+        for (const assignment of musicAssignments) {
+          const track = musicTracks.find(t => t.id === assignment.trackId);
+          const start = scriptTimeToRenderTime(assignment.start, scenes, durations);
+          const end = scriptTimeToRenderTime(assignment.end, scenes, durations);
+          if (!track || end <= start) continue;
+
+          setProgress('Loading music...');
+          const file = `music${music.length}`;
+          files.push({ path: file, data: await fetchFile(track.audio) });
+          music.push({ file, start, end });
+        }
+      }
+
+      if (subtitleSettings.burnIn) {
+        setProgress('Loading caption font...');
+        dirs.push('fonts');
+        files.push({ path: 'fonts/caption.ttf', data: await fetchFile(SUBTITLE_FONTS[subtitleSettings.font]) });
+      }
+
+      if (watermarkLogo) {
+        setProgress('Loading channel logo...');
+        files.push({ path: 'logo.png', data: await fetchFile(await signedAssetUrl(watermarkLogo)) });
+      }
+
+      // One video per format, each image shown for its scene's duration
+      const captions = formats.map(format => {
+        // Captions follow the scene timeline, wrapped for the format's width
+        const cues = buildCues(scenes, durations, captionLineLength(subtitleSettings, format));
+        return { srt: toSrt(cues), vtt: toVtt(cues) };
+      });
+      const totalDuration = durations.reduce((sum, d) => sum + d, 0);
+      const outputs = formats.map((format, f) => {
+        const slug = formatSlug(format.id);
+        if (subtitleSettings.burnIn) {
+          files.push({ path: `captions-${slug}.srt`, data: encodeText(captions[f].srt) });
+        }
+
+        return {
+          output: `output-${slug}.mp4`,
+          duration: totalDuration,
+          args: buildRenderArgs({
+            concatFile: `scenes-${format.orientation}.txt`,
+            imageFiles: scenes.map((_, i) => `${format.orientation}${i}.png`),
+            durations,
+            effects,
+            narrationFiles: narration.map((clip, i) => audioFileName(i, clip)),
+            music,
+            musicMix,
+            frame: { width: format.width, height: format.height, fit: frameFit },
+            subtitles: subtitleSettings.burnIn
+              ? { file: `captions-${slug}.srt`, fontsDir: 'fonts', forceStyle: subtitleForceStyle(subtitleSettings, format) }
+              : undefined,
+            watermark: watermarkLogo ? { file: 'logo.png' } : undefined,
+            output: `output-${slug}.mp4`
+          })
+        };
       });
 
-      setProgress('Processing scenes...');
+      throwIfCancelled();
+      setProgress(formats.length > 1 ? `Rendering ${formats.length} videos...` : 'Rendering video...');
       setProgressPercent(65);
       await supabase
         .from('video_generation_jobs')
-        .update({ current_step: 'Processing scene images', progress: 65 })
+        .update({ current_step: 'Rendering final video', progress: 65 })
         .eq('id', job.id);
-      
-      // Write images to FFmpeg virtual filesystem
-      for (let i = 0; i < imageData.images.length; i++) {
-        const imageUrl = imageData.images[i].imageUrl;
-        const imageData64 = imageUrl.split(',')[1];
-        const imageBuffer = Uint8Array.from(atob(imageData64), c => c.charCodeAt(0));
-        await ffmpeg.writeFile(`image${i}.png`, imageBuffer);
-        
-        const imgProgress = 65 + Math.round((i / imageData.images.length) * 15);
-        setProgressPercent(imgProgress);
+
+      const downloadNames = formats.map(format => `generated-video-${formatSlug(format.id)}${languageSuffix}.mp4`);
+
+      // The render server reports progress on the job row, which the subscription above shows
+      let videos: ServerRenderedVideo[] | null = null;
+      if (serverRendering) {
+        try {
+          setProgress('Uploading scenes to the render server...');
+          videos = await renderVideosOnServer(
+            {
+              jobId: job.id,
+              userId: user.id,
+              job: { dirs, files, outputs },
+              formats: formats.map(format => format.id),
+              progressRange: [65, 99],
+              downloadNames
+            },
+            { signal: controller.signal }
+          );
+        } catch (error) {
+          if (!(error instanceof ServerRendererUnavailableError)) throw error;
+          toast.info('No render server is available right now. Rendering in your browser instead.');
+          setProgress(formats.length > 1 ? `Rendering ${formats.length} videos...` : 'Rendering video...');
+        }
       }
 
-      // Create video from images (5 seconds per image)
-      setProgress('Rendering video...');
-      setProgressPercent(80);
-      await supabase
-        .from('video_generation_jobs')
-        .update({ current_step: 'Rendering final video', progress: 80 })
-        .eq('id', job.id);
+      const renderedInBrowser = !videos;
+      if (!videos) {
+        // Progress comes from FFmpeg's own clock; the job row only gets coarse steps
+        let reportedPercent = 65;
+        const data = await renderVideos({ dirs, files, outputs }, {
+          signal: controller.signal,
+          onProgress: (ratio) => {
+            const percent = 65 + Math.floor(ratio * 34);
+            setProgressPercent(percent);
+            if (percent >= reportedPercent + 5) {
+              reportedPercent = percent;
+              supabase
+                .from('video_generation_jobs')
+                .update({ progress: percent })
+                .eq('id', job.id)
+                .then();
+            }
+          }
+        });
+        videos = data.map(video => {
+          const videoUrl = URL.createObjectURL(new Blob([video], { type: 'video/mp4' }));
+          return { videoUrl, downloadUrl: videoUrl };
+        });
+      }
 
-      await ffmpeg.exec([
-        '-framerate', '1/5',
-        '-i', 'image%d.png',
-        '-c:v', 'libx264',
-        '-pix_fmt', 'yuv420p',
-        '-t', String(scenes.length * 5),
-        'output.mp4'
-      ]);
-
-      // Read the output
-      const data = await ffmpeg.readFile('output.mp4');
-      const uint8Data = data instanceof Uint8Array ? new Uint8Array(data) : new Uint8Array();
-      const videoBlob = new Blob([uint8Data], { type: 'video/mp4' });
-      const url = URL.createObjectURL(videoBlob);
-      
-      setVideoUrl(url);
+      // Keep the render so it can be replayed from the Dashboard; the render
+      // server stores its videos itself
+      setProgress('Saving video...');
+      try {
+        for (const [f, format] of formats.entries()) {
+          const slug = formatSlug(format.id);
+          const asset = { userId: user.id, projectId: projectId ?? null, jobId: job.id, format: format.id };
+          if (renderedInBrowser) {
+            await saveAsset({
+              ...asset,
+              kind: 'video',
+              name: `videos/${outputs[f].output}`,
+              data: await (await fetch(videos[f].videoUrl)).blob()
+            });
+          }
+          await saveAsset({
+            ...asset,
+            kind: 'captions',
+            name: `captions/captions-${slug}.vtt`,
+            data: new Blob([captions[f].vtt], { type: 'text/vtt' })
+          });
+          await saveAsset({
+            ...asset,
+            kind: 'captions',
+            name: `captions/captions-${slug}.srt`,
+            data: new Blob([captions[f].srt], { type: 'application/x-subrip' })
+          });
+        }
+      } catch (error) {
+        console.error('Error saving video:', error);
+        toast.warning('The video was rendered but could not be saved to your projects. Download it before leaving.');
+      }
+
+      const rendered: RenderedVideo[] = formats.map((format, f) => ({
+        format: format.id,
+        ...videos[f],
+        captions: {
+          ...captions[f],
+          vttUrl: URL.createObjectURL(new Blob([captions[f].vtt], { type: 'text/vtt' }))
+        },
+        burnedIn: subtitleSettings.burnIn
+      }));
+
+      updateSession({ results: rendered });
       setProgress('Video generated successfully!');
       setProgressPercent(100);
       
@@ -362,7 +715,23 @@ export const VideoGenerator = ({ script, visualScenes }: VideoGeneratorProps) =>
       toast.success("Video generated! Your video is ready to download.");
       
     } catch (error) {
+      if (error instanceof RenderCancelledError) {
+        toast.info('Video generation cancelled');
+        if (currentJobId) {
+          await supabase
+            .from('video_generation_jobs')
+            .update({ status: 'cancelled', current_step: 'Cancelled' })
+            .eq('id', currentJobId);
+        }
+        setProgress('');
+        setProgressPercent(0);
+        return;
+      }
+
       console.error('Error generating video:', error);
+      if (error instanceof RendererLoadError) {
+        setRendererError(error.message);
+      }
 
       const message = error instanceof Error ? error.message : String(error ?? 'Unknown error');
 
@@ -379,23 +748,30 @@ export const VideoGenerator = ({ script, visualScenes }: VideoGeneratorProps) =>
       }
 
       // Update job as failed
-      if (jobId) {
+      if (currentJobId) {
         await supabase
           .from('video_generation_jobs')
           .update({
             status: 'failed',
             error_message: message,
           })
-          .eq('id', jobId);
+          .eq('id', currentJobId);
       }
 
       setProgress('');
       setProgressPercent(0);
     } finally {
-      setIsGenerating(false);
+      updateSession({ isGenerating: false, controller: null });
     }
   };
 
+  const retryRendererLoad = () => {
+    setRendererError(null);
+    loadRenderer()
+      .then(() => toast.success('Video processor loaded'))
+      .catch((error) => setRendererError(error instanceof Error ? error.message : String(error)));
+  };
+
   return (
     <div className="space-y-4 p-6 border rounded-lg bg-card">
       <div className="flex items-center justify-between">
@@ -410,6 +786,161 @@ export const VideoGenerator = ({ script, visualScenes }: VideoGeneratorProps) =>
         Processing may take 2-5 minutes.
       </p>
 
+      <div className="space-y-4 rounded-lg border border-border p-4">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="narration" className="flex items-center gap-2">
+            <Mic className="w-4 h-4" />
+            Voiceover narration
+          </Label>
+          <Switch
+            id="narration"
+            checked={narrationSettings.enabled}
+            onCheckedChange={(enabled) => setNarrationSettings(settings => ({ ...settings, enabled }))}
+            disabled={isGenerating}
+          />
+        </div>
+
+        {narrationSettings.enabled && (
+          <div className="grid sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="voice" className="text-sm">Voice</Label>
+              <Select
+                value={narrationSettings.voice}
+                onValueChange={(voice) => setNarrationSettings(settings => ({ ...settings, voice }))}
+                disabled={isGenerating || voices.length === 0}
+              >
+                <SelectTrigger id="voice">
+                  <SelectValue placeholder="Loading voices..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {voices.map(voice => (
+                    <SelectItem key={voice} value={voice} className="capitalize">{voice}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label className="text-sm">Speed: {narrationSettings.speed.toFixed(1)}x</Label>
+              <Slider
+                min={0.5}
+                max={2}
+                step={0.1}
+                value={[narrationSettings.speed]}
+                onValueChange={([speed]) => setNarrationSettings(settings => ({ ...settings, speed }))}
+                disabled={isGenerating}
+                className="py-2"
+              />
+            </div>
+          </div>
+        )}
+      </div>
+
+      <FormatOptions
+        formats={selectedFormats}
+        onFormatsChange={setSelectedFormats}
+        fit={frameFit}
+        onFitChange={setFrameFit}
+        disabled={isGenerating}
+      />
+
+      <MusicBedEditor
+        cues={productionPackage.music}
+        scriptDuration={scriptDuration}
+        tracks={[...musicLibrary, ...uploadedTracks]}
+        onUpload={(files) => setUploadedTracks(tracks => [...tracks, ...files.map(trackFromUpload)])}
+        assignments={musicAssignments}
+        onAssignmentsChange={setMusicAssignments}
+        mix={musicMix}
+        onMixChange={setMusicMix}
+        disabled={isGenerating}
+      />
+
+      <SubtitleOptions settings={subtitleSettings} onChange={setSubtitleSettings} disabled={isGenerating} />
+
+      {channelProfile?.logoPath && (
+        <div className="space-y-2 rounded-lg border border-border p-4">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="logo-watermark" className="flex items-center gap-2">
+              <Stamp className="w-4 h-4" />
+              {channelProfile.name} logo watermark
+            </Label>
+            <Switch
+              id="logo-watermark"
+              checked={logoWatermark}
+              onCheckedChange={setLogoWatermark}
+              disabled={isGenerating}
+            />
+          </div>
+          <p className="text-xs text-muted-foreground">Shown in the top-right corner of every format.</p>
+        </div>
+      )}
+
+      <StyleGuideEditor guide={styleGuide} onChange={setStyleGuide} disabled={isGenerating} />
+
+      <StoryboardEditor
+        storyboard={storyboard}
+        onStoryboardChange={setStoryboard}
+        scenes={buildScenes()}
+        format={previewFormat}
+        generating={generatingScenes}
+        onGenerate={generateStoryboardImages}
+        disabled={isGenerating}
+      />
+
+      <SceneEffectsEditor
+        scenes={buildScenes()}
+        defaults={defaultEffects}
+        onDefaultsChange={setDefaultEffects}
+        overrides={effectOverrides}
+        onOverridesChange={setEffectOverrides}
+        disabled={isGenerating}
+      />
+
+      <SceneTimingEditor
+        scenes={buildScenes()}
+        overrides={durationOverrides}
+        onOverridesChange={setDurationOverrides}
+        narrationEnabled={narrationSettings.enabled}
+        disabled={isGenerating}
+      />
+
+      <div className="space-y-2 rounded-lg border border-border p-4">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="server-rendering" className="flex items-center gap-2">
+            <Server className="w-4 h-4" />
+            Render on the server
+          </Label>
+          <Switch
+            id="server-rendering"
+            checked={serverRendering}
+            onCheckedChange={setServerRendering}
+            disabled={isGenerating}
+          />
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Recommended for videos over {SERVER_RENDER_SUGGESTED_SECONDS / 60} minutes, which are too large to render in
+          the browser. Falls back to rendering in your browser when no render server is running.
+        </p>
+      </div>
+
+      {rendererError && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Video processor unavailable</AlertTitle>
+          <AlertDescription className="space-y-3">
+            <p>{rendererError}</p>
+            <p>
+              Your browser must support WebAssembly and be able to download the FFmpeg files served with this app.
+              Check your connection or content security policy, then try again.
+            </p>
+            <Button variant="outline" size="sm" onClick={retryRendererLoad}>
+              <RotateCcw className="w-4 h-4 mr-2" />
+              Retry loading
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+
       {progress && (
         <div className="space-y-2">
           <div className="flex justify-between text-sm">
@@ -420,26 +951,63 @@ export const VideoGenerator = ({ script, visualScenes }: VideoGeneratorProps) =>
         </div>
       )}
 
-      {videoUrl && (
-        <div className="space-y-3">
+      {renders.map(({ format, videoUrl, downloadUrl, captions, burnedIn }) => (
+        <div key={format} className="space-y-3">
+          {renders.length > 1 && (
+            <h4 className="text-sm font-semibold">
+              {VIDEO_FORMATS[format].label} · {VIDEO_FORMATS[format].description}
+            </h4>
+          )}
           <video 
             src={videoUrl} 
             controls 
-            className="w-full rounded border"
-          />
+            className="w-full max-h-[70vh] rounded border bg-black"
+          >
+            {!burnedIn && (
+              <track kind="captions" src={captions.vttUrl} srcLang={language} label={languageName(language)} default />
+            )}
+          </video>
           <Button
             onClick={() => {
               const a = document.createElement('a');
-              a.href = videoUrl;
-              a.download = 'generated-video.mp4';
+              a.href = downloadUrl;
+              a.download = `generated-video-${formatSlug(format)}${languageSuffix}.mp4`;
               a.click();
             }}
             className="w-full"
           >
             <Download className="w-4 h-4 mr-2" />
-            Download Video
+            Download {VIDEO_FORMATS[format].label} Video
           </Button>
+          <div className="grid grid-cols-2 gap-3">
+            <Button
+              variant="outline"
+              onClick={() => downloadText(captions.srt, `captions-${formatSlug(format)}${languageSuffix}.srt`, 'application/x-subrip')}
+            >
+              <FileText className="w-4 h-4 mr-2" />
+              Download SRT
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => downloadText(captions.vtt, `captions-${formatSlug(format)}${languageSuffix}.vtt`, 'text/vtt')}
+            >
+              <FileText className="w-4 h-4 mr-2" />
+              Download WebVTT
+            </Button>
+          </div>
         </div>
+      ))}
+
+      {isGenerating && (
+        <Button
+          variant="outline"
+          onClick={() => session.controller?.abort()}
+          disabled={!session.controller || session.controller.signal.aborted}
+          className="w-full"
+        >
+          <Square className="w-4 h-4 mr-2" />
+          Cancel
+        </Button>
       )}
 
       <Button
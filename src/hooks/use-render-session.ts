@@ -0,0 +1,56 @@
+import * as React from "react";
+
+/**
+ * Progress and results of a video render. Kept outside React so a render
+ * started in a dialog keeps reporting after the dialog closes, and shows up
+ * again when it reopens.
+ */
+export interface RenderSession<T> {
+  isGenerating: boolean;
+  progress: string;
+  progressPercent: number;
+  currentStep: string;
+  jobId: string | null;
+  results: T[];
+  /** Aborts the render in progress. */
+  controller: AbortController | null;
+}
+
+const initialSession: RenderSession<never> = {
+  isGenerating: false,
+  progress: "",
+  progressPercent: 0,
+  currentStep: "",
+  jobId: null,
+  results: [],
+  controller: null,
+};
+
+const sessions = new Map<string, RenderSession<unknown>>();
+const listeners = new Map<string, Set<() => void>>();
+
+export function updateRenderSession<T>(key: string, patch: Partial<RenderSession<T>>) {
+  sessions.set(key, { ...(sessions.get(key) ?? initialSession), ...patch });
+  listeners.get(key)?.forEach((listener) => listener());
+}
+
+/** The render session for `key` (e.g. a project), plus an updater bound to it. */
+export function useRenderSession<T>(key: string) {
+  const [session, setSession] = React.useState(() => (sessions.get(key) ?? initialSession) as RenderSession<T>);
+
+  React.useEffect(() => {
+    const listener = () => setSession((sessions.get(key) ?? initialSession) as RenderSession<T>);
+    listener();
+
+    const keyListeners = listeners.get(key) ?? new Set();
+    keyListeners.add(listener);
+    listeners.set(key, keyListeners);
+    return () => {
+      keyListeners.delete(listener);
+    };
+  }, [key]);
+
+  const update = React.useCallback((patch: Partial<RenderSession<T>>) => updateRenderSession(key, patch), [key]);
+
+  return [session, update] as const;
+}
@@ -14,6 +14,60 @@ export type Database = {
   }
   public: {
     Tables: {
+      channel_profiles: {
+        Row: {
+          banned_phrases: string[]
+          brand_voice: string
+          created_at: string
+          cta: string
+          font: string | null
+          id: string
+          intro_line: string
+          logo_path: string | null
+          name: string
+          outro_line: string
+          primary_color: string
+          secondary_color: string
+          tone_rules: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          banned_phrases?: string[]
+          brand_voice?: string
+          created_at?: string
+          cta?: string
+          font?: string | null
+          id?: string
+          intro_line?: string
+          logo_path?: string | null
+          name: string
+          outro_line?: string
+          primary_color?: string
+          secondary_color?: string
+          tone_rules?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          banned_phrases?: string[]
+          brand_voice?: string
+          created_at?: string
+          cta?: string
+          font?: string | null
+          id?: string
+          intro_line?: string
+          logo_path?: string | null
+          name?: string
+          outro_line?: string
+          primary_color?: string
+          secondary_color?: string
+          tone_rules?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           avatar_url: string | null
@@ -41,51 +95,217 @@ export type Database = {
         }
         Relationships: []
       }
+      prompt_templates: {
+        Row: {
+          created_at: string
+          id: string
+          is_shared: boolean
+          name: string
+          structure: string
+          style_name: string
+          tone: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_shared?: boolean
+          name: string
+          structure?: string
+          style_name: string
+          tone?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_shared?: boolean
+          name?: string
+          structure?: string
+          style_name?: string
+          tone?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      video_assets: {
+        Row: {
+          content_type: string
+          created_at: string
+          format: string | null
+          id: string
+          job_id: string | null
+          kind: string
+          project_id: string | null
+          scene_index: number | null
+          storage_path: string
+          user_id: string
+        }
+        Insert: {
+          content_type: string
+          created_at?: string
+          format?: string | null
+          id?: string
+          job_id?: string | null
+          kind: string
+          project_id?: string | null
+          scene_index?: number | null
+          storage_path: string
+          user_id: string
+        }
+        Update: {
+          content_type?: string
+          created_at?: string
+          format?: string | null
+          id?: string
+          job_id?: string | null
+          kind?: string
+          project_id?: string | null
+          scene_index?: number | null
+          storage_path?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "video_assets_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "video_generation_jobs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "video_assets_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "video_projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       video_generation_jobs: {
         Row: {
+          claimed_at: string | null
           completed_scenes: number | null
           created_at: string
           current_step: string | null
           error_message: string | null
           id: string
+          manifest: Json | null
+          outputs: Json | null
           progress: number
+          project_id: string | null
+          renderer: string
           status: string
           total_scenes: number | null
           updated_at: string
           user_id: string
+          worker_id: string | null
         }
         Insert: {
+          claimed_at?: string | null
           completed_scenes?: number | null
           created_at?: string
           current_step?: string | null
           error_message?: string | null
           id?: string
+          manifest?: Json | null
+          outputs?: Json | null
           progress?: number
+          project_id?: string | null
+          renderer?: string
           status?: string
           total_scenes?: number | null
           updated_at?: string
           user_id: string
+          worker_id?: string | null
         }
         Update: {
+          claimed_at?: string | null
           completed_scenes?: number | null
           created_at?: string
           current_step?: string | null
           error_message?: string | null
           id?: string
+          manifest?: Json | null
+          outputs?: Json | null
           progress?: number
+          project_id?: string | null
+          renderer?: string
           status?: string
           total_scenes?: number | null
           updated_at?: string
           user_id?: string
+          worker_id?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "video_generation_jobs_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "video_projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      video_project_revisions: {
+        Row: {
+          created_at: string
+          generated_content: string
+          id: string
+          project_id: string
+          restored_from: string | null
+          source: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          generated_content: string
+          id?: string
+          project_id: string
+          restored_from?: string | null
+          source: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          generated_content?: string
+          id?: string
+          project_id?: string
+          restored_from?: string | null
+          source?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "video_project_revisions_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "video_projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "video_project_revisions_restored_from_fkey"
+            columns: ["restored_from"]
+            isOneToOne: false
+            referencedRelation: "video_project_revisions"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       video_projects: {
         Row: {
+          channel_profile_id: string | null
           created_at: string
           generated_content: string
           id: string
+          kind: string
+          language: string
+          parent_project_id: string | null
           style: string
+          style_guide: Json | null
           target_audience: string
           title: string
           topic: string
@@ -94,10 +314,15 @@ export type Database = {
           video_length: string
         }
         Insert: {
+          channel_profile_id?: string | null
           created_at?: string
           generated_content: string
           id?: string
+          kind?: string
+          language?: string
+          parent_project_id?: string | null
           style: string
+          style_guide?: Json | null
           target_audience: string
           title: string
           topic: string
@@ -106,10 +331,15 @@ export type Database = {
           video_length: string
         }
         Update: {
+          channel_profile_id?: string | null
           created_at?: string
           generated_content?: string
           id?: string
+          kind?: string
+          language?: string
+          parent_project_id?: string | null
           style?: string
+          style_guide?: Json | null
           target_audience?: string
           title?: string
           topic?: string
@@ -117,14 +347,49 @@ export type Database = {
           user_id?: string
           video_length?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "video_projects_channel_profile_id_fkey"
+            columns: ["channel_profile_id"]
+            isOneToOne: false
+            referencedRelation: "channel_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "video_projects_parent_project_id_fkey"
+            columns: ["parent_project_id"]
+            isOneToOne: false
+            referencedRelation: "video_projects"
+            referencedColumns: ["id"]
+          },
+        ]
       }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      claim_video_generation_job: {
+        Args: { p_worker_id: string }
+        Returns: {
+          claimed_at: string | null
+          completed_scenes: number | null
+          created_at: string
+          current_step: string | null
+          error_message: string | null
+          id: string
+          manifest: Json | null
+          outputs: Json | null
+          progress: number
+          project_id: string | null
+          renderer: string
+          status: string
+          total_scenes: number | null
+          updated_at: string
+          user_id: string
+          worker_id: string | null
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,126 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { formatSlug, type AspectRatio } from "@/lib/video-formats";
+
+/** Private bucket holding scene images, rendered videos and captions under `{user_id}/{job_id}/`. */
+export const ASSET_BUCKET = "video-assets";
+
+export type AssetKind = "scene_image" | "video" | "captions" | "thumbnail";
+
+export type VideoAsset = Tables<"video_assets">;
+
+// Replayed videos stay playable for a while after the list is opened
+const SIGNED_URL_SECONDS = 60 * 60;
+
+/** Storage folder of a job's assets. */
+export const assetFolder = (userId: string, jobId: string) => `${userId}/${jobId}`;
+
+/**
+ * Uploads a file to the job's asset folder and records it, so it shows up
+ * with the project's past renders.
+ */
+export async function saveAsset({
+  userId,
+  projectId,
+  jobId,
+  kind,
+  name,
+  data,
+  format,
+}: {
+  userId: string;
+  projectId: string | null;
+  jobId: string;
+  kind: AssetKind;
+  /** File name, relative to the job's asset folder. */
+  name: string;
+  data: Blob;
+  format?: string;
+}): Promise<VideoAsset> {
+  const path = `${assetFolder(userId, jobId)}/${name}`;
+  const { error: uploadError } = await supabase.storage
+    .from(ASSET_BUCKET)
+    .upload(path, data, { contentType: data.type, upsert: true });
+  if (uploadError) throw new Error(`Failed to store ${name}: ${uploadError.message}`);
+
+  const { data: asset, error } = await supabase
+    .from("video_assets")
+    .upsert(
+      {
+        user_id: userId,
+        project_id: projectId,
+        job_id: jobId,
+        kind,
+        storage_path: path,
+        content_type: data.type,
+        format: format ?? null,
+      },
+      { onConflict: "storage_path" }
+    )
+    .select()
+    .single();
+  if (error) throw error;
+  return asset;
+}
+
+/** A fresh link to a stored asset, e.g. for a scene image whose first link may have expired. */
+export async function signedAssetUrl(path: string): Promise<string> {
+  const { data, error } = await supabase.storage.from(ASSET_BUCKET).createSignedUrl(path, SIGNED_URL_SECONDS);
+  if (error) throw error;
+  return data.signedUrl;
+}
+
+export interface SavedVideo {
+  format: AspectRatio;
+  videoUrl: string;
+  downloadUrl: string;
+  /** WebVTT captions for the player, when they were saved with the video. */
+  vttUrl: string | null;
+  srtUrl: string | null;
+}
+
+export interface SavedRender {
+  jobId: string;
+  createdAt: string;
+  videos: SavedVideo[];
+}
+
+/** Past renders of a project, newest first, with signed links to their files. */
+export async function loadSavedRenders(projectId: string): Promise<SavedRender[]> {
+  const { data, error } = await supabase
+    .from("video_assets")
+    .select("*")
+    .eq("project_id", projectId)
+    .in("kind", ["video", "captions"])
+    .order("created_at", { ascending: false });
+  if (error) throw error;
+
+  const assets = data ?? [];
+  const sign = async (asset: VideoAsset | undefined, download?: string) => {
+    if (!asset) return null;
+    const { data, error } = await supabase.storage
+      .from(ASSET_BUCKET)
+      .createSignedUrl(asset.storage_path, SIGNED_URL_SECONDS, download ? { download } : undefined);
+    if (error) throw error;
+    return data.signedUrl;
+  };
+
+  const renders = new Map<string, SavedRender>();
+  for (const video of assets.filter((asset) => asset.kind === "video" && asset.job_id)) {
+    const jobId = video.job_id!;
+    const format = video.format as AspectRatio;
+    const captions = assets.filter((asset) => asset.kind === "captions" && asset.job_id === jobId && asset.format === format);
+
+    const [videoUrl, downloadUrl, vttUrl, srtUrl] = await Promise.all([
+      sign(video),
+      sign(video, `generated-video-${formatSlug(format)}.mp4`),
+      sign(captions.find((asset) => asset.storage_path.endsWith(".vtt"))),
+      sign(captions.find((asset) => asset.storage_path.endsWith(".srt")), `captions-${formatSlug(format)}.srt`),
+    ]);
+
+    const render = renders.get(jobId) ?? { jobId, createdAt: video.created_at, videos: [] };
+    render.videos.push({ format, videoUrl: videoUrl!, downloadUrl: downloadUrl!, vttUrl, srtUrl });
+    renders.set(jobId, render);
+  }
+  return [...renders.values()];
+}
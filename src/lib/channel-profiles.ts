@@ -0,0 +1,129 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { ASSET_BUCKET } from "@/lib/assets";
+
+/** A channel's brand kit; see supabase/functions/_shared/channel-profile.ts for how prompts use it. */
+export interface ChannelProfile {
+  id: string;
+  name: string;
+  brandVoice: string;
+  toneRules: string;
+  /** Recurring lines the first and last segments open and close with. */
+  introLine: string;
+  outroLine: string;
+  bannedPhrases: string[];
+  cta: string;
+  /** Path in the asset bucket of the logo watermarked onto renders. */
+  logoPath: string | null;
+  /** Hex colors for placeholder scenes and caption outlines. */
+  primaryColor: string;
+  secondaryColor: string;
+  /** Caption font, one of SUBTITLE_FONTS. */
+  font: string | null;
+}
+
+export type ChannelProfileDraft = Omit<ChannelProfile, "id"> & { id?: string };
+
+export const EMPTY_CHANNEL_PROFILE: ChannelProfileDraft = {
+  name: "",
+  brandVoice: "",
+  toneRules: "",
+  introLine: "",
+  outroLine: "",
+  bannedPhrases: [],
+  cta: "",
+  logoPath: null,
+  primaryColor: "#667eea",
+  secondaryColor: "#764ba2",
+  font: null,
+};
+
+const fromRow = (row: Tables<"channel_profiles">): ChannelProfile => ({
+  id: row.id,
+  name: row.name,
+  brandVoice: row.brand_voice,
+  toneRules: row.tone_rules,
+  introLine: row.intro_line,
+  outroLine: row.outro_line,
+  bannedPhrases: row.banned_phrases,
+  cta: row.cta,
+  logoPath: row.logo_path,
+  primaryColor: row.primary_color,
+  secondaryColor: row.secondary_color,
+  font: row.font,
+});
+
+export type ChannelProfilePrompt = Pick<
+  ChannelProfile,
+  "name" | "brandVoice" | "toneRules" | "introLine" | "outroLine" | "bannedPhrases" | "cta"
+>;
+
+/** The profile as sent to the generation functions: only what goes into prompts. */
+export const profileForRequest = ({
+  name,
+  brandVoice,
+  toneRules,
+  introLine,
+  outroLine,
+  bannedPhrases,
+  cta,
+}: ChannelProfilePrompt): ChannelProfilePrompt => ({
+  name,
+  brandVoice,
+  toneRules,
+  introLine,
+  outroLine,
+  bannedPhrases: bannedPhrases.filter((phrase) => phrase.trim()),
+  cta,
+});
+
+export async function listChannelProfiles(): Promise<ChannelProfile[]> {
+  const { data, error } = await supabase.from("channel_profiles").select("*").order("name");
+  if (error) throw error;
+  return data.map(fromRow);
+}
+
+export async function saveChannelProfile(profile: ChannelProfileDraft): Promise<ChannelProfile> {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) throw new Error("You must be logged in to save a channel profile");
+
+  const row = {
+    user_id: user.id,
+    name: profile.name.trim(),
+    brand_voice: profile.brandVoice,
+    tone_rules: profile.toneRules,
+    intro_line: profile.introLine,
+    outro_line: profile.outroLine,
+    banned_phrases: profile.bannedPhrases.map((phrase) => phrase.trim()).filter(Boolean),
+    cta: profile.cta,
+    logo_path: profile.logoPath,
+    primary_color: profile.primaryColor,
+    secondary_color: profile.secondaryColor,
+    font: profile.font,
+  };
+  const { data, error } = profile.id
+    ? await supabase.from("channel_profiles").update(row).eq("id", profile.id).select().single()
+    : await supabase.from("channel_profiles").insert(row).select().single();
+  if (error) throw error;
+  return fromRow(data);
+}
+
+export async function deleteChannelProfile(id: string) {
+  const { error } = await supabase.from("channel_profiles").delete().eq("id", id);
+  if (error) throw error;
+}
+
+/** Stores a logo (already converted to PNG, keeping its transparency) and returns its path. */
+export async function uploadLogo(image: Blob): Promise<string> {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) throw new Error("You must be logged in to upload a logo");
+
+  const path = `${user.id}/brand-logos/${crypto.randomUUID()}.png`;
+  const { error } = await supabase.storage.from(ASSET_BUCKET).upload(path, image, { contentType: "image/png" });
+  if (error) throw new Error(`Failed to upload the logo: ${error.message}`);
+  return path;
+}
@@ -0,0 +1,58 @@
+export interface DiffRow {
+  type: "same" | "removed" | "added" | "changed";
+  left?: string;
+  right?: string;
+}
+
+/**
+ * Line-based diff laid out for a side-by-side view: unchanged lines pair up,
+ * and runs of removed/added lines between them are zipped into "changed" rows.
+ */
+export function diffLines(before: string, after: string): DiffRow[] {
+  const a = before ? before.split("\n") : [];
+  const b = after ? after.split("\n") : [];
+
+  // Longest common subsequence table, filled from the end
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const rows: DiffRow[] = [];
+  let removed: string[] = [];
+  let added: string[] = [];
+
+  const flush = () => {
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      const left = removed[k];
+      const right = added[k];
+      rows.push({
+        type: left !== undefined && right !== undefined ? "changed" : left !== undefined ? "removed" : "added",
+        left,
+        right,
+      });
+    }
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      flush();
+      rows.push({ type: "same", left: a[i], right: b[j] });
+      i++;
+      j++;
+    } else if (j < b.length && (i === a.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      added.push(b[j++]);
+    } else {
+      removed.push(a[i++]);
+    }
+  }
+  flush();
+
+  return rows;
+}
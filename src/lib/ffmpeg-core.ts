@@ -0,0 +1,38 @@
+// FFmpeg core assets served by the app itself, so rendering works offline and
+// under a CSP that blocks third-party CDNs
+import coreURL from "@ffmpeg/core?url";
+import wasmURL from "@ffmpeg/core/wasm?url";
+import coreMtURL from "@ffmpeg/core-mt?url";
+import wasmMtURL from "@ffmpeg/core-mt/wasm?url";
+import workerMtURL from "@ffmpeg/core-mt/worker?url";
+
+/** Bundled @ffmpeg/core version; vite.config.ts refuses to build an unsupported one. */
+export const FFMPEG_CORE_VERSION = __FFMPEG_CORE_VERSION__;
+
+export interface CoreAssets {
+  coreURL: string;
+  wasmURL: string;
+  /** Pthread worker script, only used by the multithreaded core. */
+  workerURL?: string;
+  multithreaded: boolean;
+}
+
+/**
+ * The multithreaded core needs SharedArrayBuffer, which browsers only expose
+ * when the page is served with COOP/COEP headers; otherwise fall back to the
+ * single-threaded build.
+ */
+export function coreAssets(): CoreAssets {
+  // Resolve against the page so the worker imports the same files
+  const absolute = (url: string) => new URL(url, window.location.href).toString();
+
+  if (window.crossOriginIsolated) {
+    return {
+      coreURL: absolute(coreMtURL),
+      wasmURL: absolute(wasmMtURL),
+      workerURL: absolute(workerMtURL),
+      multithreaded: true,
+    };
+  }
+  return { coreURL: absolute(coreURL), wasmURL: absolute(wasmURL), multithreaded: false };
+}
@@ -0,0 +1,34 @@
+export interface Language {
+  /** ISO 639-1 code, also used as the captions track's srclang. */
+  code: string;
+  name: string;
+  /** Caption font that covers the language's script, when the default one doesn't. */
+  subtitleFont?: string;
+}
+
+// Mirrors LANGUAGES in supabase/functions/_shared/languages.ts
+export const LANGUAGES: Language[] = [
+  { code: "en", name: "English" },
+  { code: "es", name: "Spanish" },
+  { code: "pt", name: "Portuguese" },
+  { code: "fr", name: "French" },
+  { code: "de", name: "German" },
+  { code: "it", name: "Italian" },
+  { code: "nl", name: "Dutch" },
+  { code: "pl", name: "Polish" },
+  { code: "tr", name: "Turkish" },
+  { code: "ru", name: "Russian" },
+  { code: "uk", name: "Ukrainian" },
+  { code: "ar", name: "Arabic", subtitleFont: "Noto Sans Arabic" },
+  { code: "hi", name: "Hindi", subtitleFont: "Noto Sans Devanagari" },
+  { code: "id", name: "Indonesian" },
+  { code: "ja", name: "Japanese", subtitleFont: "Noto Sans JP" },
+  { code: "ko", name: "Korean", subtitleFont: "Noto Sans KR" },
+  { code: "zh", name: "Chinese (Simplified)", subtitleFont: "Noto Sans SC" },
+];
+
+export const DEFAULT_LANGUAGE = "en";
+
+export const languageName = (code: string) => LANGUAGES.find((language) => language.code === code)?.name ?? code;
+
+export const subtitleFontFor = (code: string) => LANGUAGES.find((language) => language.code === code)?.subtitleFont;
@@ -0,0 +1,121 @@
+import { z } from "zod";
+import type { MusicCue } from "@/lib/production-package";
+
+const libraryTrackSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  artist: z.string().default(""),
+  license: z.string().default(""),
+  /** File name relative to the manifest. */
+  file: z.string(),
+  genre: z.string().default(""),
+  mood: z.string().default(""),
+  tempo: z.string().default(""),
+});
+
+const manifestSchema = z.object({
+  tracks: z.array(libraryTrackSchema).default([]),
+});
+
+export interface MusicTrack {
+  id: string;
+  title: string;
+  artist: string;
+  license: string;
+  source: "library" | "upload";
+  /** URL (library) or File (upload) the audio is loaded from. */
+  audio: string | File;
+  genre: string;
+  mood: string;
+  tempo: string;
+}
+
+/** A track playing under a range of the script timeline, in script seconds. */
+export interface MusicAssignment {
+  id: string;
+  trackId: string;
+  start: number;
+  end: number;
+}
+
+export interface MusicMixSettings {
+  enabled: boolean;
+  /** Linear gain applied to the music before mixing, 1 = unchanged. */
+  volume: number;
+  /** Lower the music while the narration speaks. */
+  ducking: boolean;
+  fadeSeconds: number;
+  /** Integrated loudness of the final mix, in LUFS. */
+  loudnessTarget: number;
+}
+
+export const DEFAULT_MUSIC_MIX: MusicMixSettings = {
+  enabled: true,
+  volume: 0.35,
+  ducking: true,
+  fadeSeconds: 2,
+  loudnessTarget: -14,
+};
+
+export const LOUDNESS_TARGETS: Array<{ value: number; label: string }> = [
+  { value: -14, label: "-14 LUFS (YouTube, Spotify)" },
+  { value: -16, label: "-16 LUFS (Apple, podcasts)" },
+  { value: -23, label: "-23 LUFS (EBU broadcast)" },
+];
+
+const MANIFEST_URL = "/music/manifest.json";
+
+/** Loads the royalty-free tracks listed in `public/music/manifest.json`. */
+export async function fetchMusicLibrary(): Promise<MusicTrack[]> {
+  const response = await fetch(MANIFEST_URL);
+  if (!response.ok) throw new Error(`Music library unavailable (${response.status})`);
+
+  const manifest = manifestSchema.parse(await response.json());
+  const base = new URL(MANIFEST_URL, window.location.href);
+  return manifest.tracks.map((track) => ({
+    id: track.id,
+    title: track.title,
+    artist: track.artist,
+    license: track.license,
+    source: "library",
+    audio: new URL(track.file, base).toString(),
+    genre: track.genre,
+    mood: track.mood,
+    tempo: track.tempo,
+  }));
+}
+
+export function trackFromUpload(file: File): MusicTrack {
+  return {
+    id: `upload-${crypto.randomUUID()}`,
+    title: file.name.replace(/\.[^.]+$/, ""),
+    artist: "",
+    license: "",
+    source: "upload",
+    audio: file,
+    genre: "",
+    mood: "",
+    tempo: "",
+  };
+}
+
+const words = (value: string) => value.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+
+// Shared words between a cue and a track, weighted towards genre and mood
+function matchScore(cue: MusicCue, track: MusicTrack): number {
+  const score = (cueValue: string, trackValue: string, weight: number) => {
+    const trackWords = new Set(words(trackValue));
+    return words(cueValue).filter((word) => trackWords.has(word)).length * weight;
+  };
+  return score(cue.genre, track.genre, 3) + score(cue.mood, track.mood, 3) + score(cue.tempo, track.tempo, 1);
+}
+
+/** One assignment per music cue, using the best matching track available. */
+export function suggestAssignments(cues: MusicCue[], tracks: MusicTrack[]): MusicAssignment[] {
+  if (tracks.length === 0) return [];
+
+  return cues.map((cue) => {
+    const best = tracks.reduce((winner, track) => (matchScore(cue, track) > matchScore(cue, winner) ? track : winner));
+    return { id: crypto.randomUUID(), trackId: best.id, start: cue.start, end: cue.end };
+  });
+}
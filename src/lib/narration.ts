@@ -0,0 +1,83 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface NarrationSettings {
+  enabled: boolean;
+  voice: string;
+  /** Playback rate, 1 = normal. */
+  speed: number;
+}
+
+export interface NarrationClip {
+  data: Uint8Array;
+  mimeType: string;
+  /** Length in seconds. */
+  duration: number;
+}
+
+export const DEFAULT_NARRATION: NarrationSettings = {
+  enabled: true,
+  voice: "",
+  speed: 1,
+};
+
+export async function fetchVoices(): Promise<{ provider: string; voices: string[] }> {
+  const { data, error } = await supabase.functions.invoke("generate-voiceover", {
+    body: { listVoices: true },
+  });
+  if (error) throw error;
+  if (data?.error) throw new Error(data.error);
+  return data;
+}
+
+export async function measureAudioDuration(data: Uint8Array): Promise<number> {
+  const context = new AudioContext();
+  try {
+    // decodeAudioData detaches the buffer it is given, so hand it a copy
+    const buffer = await context.decodeAudioData(data.slice().buffer);
+    return buffer.duration;
+  } finally {
+    context.close();
+  }
+}
+
+/** Synthesizes one narration clip through the configured TTS provider. */
+export async function synthesizeNarration(text: string, settings: NarrationSettings): Promise<NarrationClip> {
+  const { data, error } = await supabase.functions.invoke("generate-voiceover", {
+    body: { text, voice: settings.voice, speed: settings.speed },
+  });
+  if (error) throw error;
+  if (data?.error) throw new Error(data.error);
+
+  const bytes = Uint8Array.from(atob(data.audio), (c) => c.charCodeAt(0));
+  return {
+    data: bytes,
+    mimeType: data.mimeType,
+    duration: await measureAudioDuration(bytes),
+  };
+}
+
+/**
+ * A tenth of a second of silence, for scenes without any narration text, so
+ * narration still has one clip per scene.
+ */
+export function silentNarration(): NarrationClip {
+  const sampleRate = 8000;
+  const samples = sampleRate / 10;
+  const view = new DataView(new ArrayBuffer(44 + samples * 2));
+  const ascii = (offset: number, text: string) =>
+    [...text].forEach((char, i) => view.setUint8(offset + i, char.charCodeAt(0)));
+  // 16-bit mono PCM WAV header; the samples after it are already zero
+  ascii(0, "RIFF");
+  view.setUint32(4, 36 + samples * 2, true);
+  ascii(8, "WAVEfmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, 1, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  ascii(36, "data");
+  view.setUint32(40, samples * 2, true);
+  return { data: new Uint8Array(view.buffer), mimeType: "audio/wav", duration: samples / sampleRate };
+}
@@ -0,0 +1,114 @@
+/**
+ * Parses a JSON document that may be cut off at any point, as it is while a
+ * model is still streaming it. Whatever has arrived so far is returned:
+ * unterminated strings keep their text, unfinished objects keep their
+ * complete keys, and a dangling key or literal is dropped.
+ */
+export function parsePartialJson(input: string): unknown {
+  let index = 0;
+  const INCOMPLETE = Symbol("incomplete");
+
+  const skipWhitespace = () => {
+    while (index < input.length && /\s/.test(input[index])) index++;
+  };
+
+  // Set by parseString: false when the input ended before the closing quote
+  let stringClosed = true;
+
+  const parseString = (): string => {
+    index++; // opening quote
+    stringClosed = false;
+    let result = "";
+    while (index < input.length) {
+      const char = input[index];
+      if (char === '"') {
+        index++;
+        stringClosed = true;
+        return result;
+      }
+      if (char === "\\") {
+        const next = input[index + 1];
+        if (next === undefined) break;
+        if (next === "u") {
+          const hex = input.slice(index + 2, index + 6);
+          if (hex.length < 4) break;
+          result += String.fromCharCode(parseInt(hex, 16));
+          index += 6;
+          continue;
+        }
+        const escapes: Record<string, string> = { n: "\n", t: "\t", r: "\r", b: "\b", f: "\f" };
+        result += escapes[next] ?? next;
+        index += 2;
+        continue;
+      }
+      result += char;
+      index++;
+    }
+    // Unterminated: hand back the text received so far
+    return result;
+  };
+
+  const parseValue = (): unknown => {
+    skipWhitespace();
+    const char = input[index];
+    if (char === undefined) return INCOMPLETE;
+    if (char === "{") return parseObject();
+    if (char === "[") return parseArray();
+    if (char === '"') return parseString();
+
+    const literal = input.slice(index).match(/^(-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?|true|false|null)/);
+    if (!literal) return INCOMPLETE;
+    index += literal[0].length;
+    // A number touching the end of input may still be growing; keep it anyway
+    return JSON.parse(literal[0]);
+  };
+
+  const parseArray = (): unknown[] => {
+    index++;
+    const result: unknown[] = [];
+    while (index < input.length) {
+      skipWhitespace();
+      if (input[index] === "]") {
+        index++;
+        return result;
+      }
+      const value = parseValue();
+      if (value === INCOMPLETE) return result;
+      result.push(value);
+      skipWhitespace();
+      if (input[index] === ",") index++;
+    }
+    return result;
+  };
+
+  const parseObject = (): Record<string, unknown> => {
+    index++;
+    const result: Record<string, unknown> = {};
+    while (index < input.length) {
+      skipWhitespace();
+      if (input[index] === "}") {
+        index++;
+        return result;
+      }
+      if (input[index] !== '"') return result;
+      const key = parseString();
+      if (!stringClosed) return result;
+      skipWhitespace();
+      if (input[index] !== ":") return result;
+      index++;
+      const value = parseValue();
+      if (value === INCOMPLETE) return result;
+      result[key] = value;
+      skipWhitespace();
+      if (input[index] === ",") index++;
+    }
+    return result;
+  };
+
+  // Skip any prose or code fence before the document starts
+  const start = input.search(/[{[]/);
+  if (start === -1) return undefined;
+  index = start;
+  const value = parseValue();
+  return value === INCOMPLETE ? undefined : value;
+}
@@ -0,0 +1,419 @@
+import { z } from "zod";
+import type { ChannelProfilePrompt } from "@/lib/channel-profiles";
+import type { PromptTemplatePrompt } from "@/lib/prompt-templates";
+
+// Mirrors supabase/functions/_shared/production-package.ts — keep both in sync
+export const PRODUCTION_PACKAGE_VERSION = 1;
+
+const timestamp = z.preprocess(
+  (value) => (typeof value === "string" ? parseTimestamp(value) ?? value : value),
+  z.number().int().min(0)
+);
+
+const scriptSegmentSchema = z.object({
+  id: z.string().min(1),
+  start: timestamp,
+  end: timestamp,
+  title: z.string().default(""),
+  text: z.string().min(1),
+});
+
+const visualSceneSchema = z.object({
+  id: z.string().min(1),
+  segmentId: z.string().min(1),
+  description: z.string().min(1),
+  shot: z.string().default(""),
+  onScreenText: z.string().default(""),
+});
+
+const musicCueSchema = z.object({
+  start: timestamp,
+  end: timestamp,
+  genre: z.string().default(""),
+  mood: z.string().default(""),
+  tempo: z.string().default(""),
+  notes: z.string().default(""),
+});
+
+const thumbnailSchema = z.object({
+  headline: z.string().default(""),
+  description: z.string().min(1),
+  colors: z.array(z.string()).default([]),
+  composition: z.string().default(""),
+});
+
+const hashtag = z.preprocess(
+  (value) => (typeof value === "string" ? `#${value.trim().replace(/^#+/, "").replace(/\s+/g, "")}` : value),
+  z.string().min(2)
+);
+
+// Packages generated before SEO metadata existed get an empty one
+const seoSchema = z.object({
+  titles: z.array(z.string()).default([]),
+  description: z.string().default(""),
+  tags: z.array(z.string()).default([]),
+  hashtags: z.array(hashtag).default([]),
+  pinnedComment: z.string().default(""),
+});
+
+export const productionPackageSchema = z.object({
+  version: z.literal(PRODUCTION_PACKAGE_VERSION),
+  title: z.string().default(""),
+  segments: z.array(scriptSegmentSchema).min(1),
+  scenes: z.array(visualSceneSchema),
+  music: z.array(musicCueSchema).default([]),
+  thumbnail: thumbnailSchema,
+  seo: seoSchema.default({}),
+});
+
+export type ScriptSegment = z.infer<typeof scriptSegmentSchema>;
+export type VisualScene = z.infer<typeof visualSceneSchema>;
+export type MusicCue = z.infer<typeof musicCueSchema>;
+export type ThumbnailConcept = z.infer<typeof thumbnailSchema>;
+export type SeoMetadata = z.infer<typeof seoSchema>;
+export type ProductionPackage = z.infer<typeof productionPackageSchema>;
+
+export type SectionKey = "script" | "visuals" | "music" | "thumbnail" | "seo";
+
+/** The VideoForm inputs a package is generated from. */
+export interface VideoBrief {
+  topic: string;
+  videoLength: string;
+  style: string;
+  targetAudience: string;
+  /** Language code the package is written in; English when missing. */
+  language?: string;
+  channelProfile?: ChannelProfilePrompt | null;
+  promptTemplate?: PromptTemplatePrompt | null;
+}
+
+// Mirrors isLongForm in supabase/functions/_shared/long-form.ts
+export const isLongForm = (videoLength: string) => /^\s*20\+/.test(videoLength ?? "");
+
+export function parseTimestamp(value: string): number | null {
+  const match = value.trim().match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?$/);
+  if (!match) return null;
+  const [, first, second, third] = match;
+  return third !== undefined
+    ? Number(first) * 3600 + Number(second) * 60 + Number(third)
+    : Number(first) * 60 + Number(second);
+}
+
+export function formatTimestamp(seconds: number): string {
+  const whole = Math.max(0, Math.round(seconds));
+  const hours = Math.floor(whole / 3600);
+  const minutes = Math.floor((whole % 3600) / 60);
+  const secs = whole % 60;
+  const mmss = `${String(minutes).padStart(2, "0")}:${String(secs).padStart(2, "0")}`;
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
+}
+
+/**
+ * Reads a `video_projects.generated_content` value. New rows hold the JSON
+ * package; rows saved before the structured format hold markdown, which is
+ * converted on the fly so old projects keep loading.
+ */
+export function parseGeneratedContent(raw: string): ProductionPackage {
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch {
+    return packageFromMarkdown(raw);
+  }
+  const result = productionPackageSchema.safeParse(json);
+  // Packages kept from a cancelled stream may be incomplete
+  return result.success ? result.data : draftFromPartial(json);
+}
+
+export function serializePackage(pkg: ProductionPackage): string {
+  return JSON.stringify(pkg);
+}
+
+export function scenesForSegment(pkg: ProductionPackage, segmentId: string): VisualScene[] {
+  return pkg.scenes.filter((scene) => scene.segmentId === segmentId);
+}
+
+export const EMPTY_SEO: SeoMetadata = { titles: [], description: "", tags: [], hashtags: [], pinnedComment: "" };
+
+// YouTube only shows chapters when the first starts at 00:00, there are at
+// least three, and each lasts 10 seconds or more
+const MIN_CHAPTER_SECONDS = 10;
+const MIN_CHAPTERS = 3;
+
+export interface Chapter {
+  start: number;
+  title: string;
+}
+
+/**
+ * Chapters from the script's segment markers. Segments starting less than
+ * 10 seconds into the previous chapter are folded into it; returns no
+ * chapters when YouTube wouldn't show them.
+ */
+export function buildChapters(pkg: ProductionPackage): Chapter[] {
+  const end = pkg.segments.reduce((latest, segment) => Math.max(latest, segment.end), 0);
+  const chapters: Chapter[] = [];
+
+  pkg.segments.forEach((segment, index) => {
+    const title = segment.title.trim() || `Part ${index + 1}`;
+    const previous = chapters[chapters.length - 1];
+    if (!previous) chapters.push({ start: 0, title });
+    else if (segment.start - previous.start >= MIN_CHAPTER_SECONDS) chapters.push({ start: segment.start, title });
+  });
+
+  const last = chapters[chapters.length - 1];
+  if (last && chapters.length > 1 && end - last.start < MIN_CHAPTER_SECONDS) chapters.pop();
+  return chapters.length >= MIN_CHAPTERS ? chapters : [];
+}
+
+/** The SEO description with the chapter list appended, as pasted into YouTube. */
+export function descriptionWithChapters(pkg: ProductionPackage): string {
+  const chapters = buildChapters(pkg);
+  if (chapters.length === 0) return pkg.seo.description;
+  const list = chapters.map((chapter) => `${formatTimestamp(chapter.start)} ${chapter.title}`).join("\n");
+  return `${pkg.seo.description.trim()}\n\nChapters:\n${list}`;
+}
+
+const range = (start: number, end: number) => `[${formatTimestamp(start)} - ${formatTimestamp(end)}]`;
+
+// Plain-text rendering of one section, used for display and copy-to-clipboard
+export function sectionText(pkg: ProductionPackage, section: SectionKey): string {
+  switch (section) {
+    case "script":
+      return pkg.segments
+        .map((segment) => `[${formatTimestamp(segment.start)}]${segment.title ? ` ${segment.title}` : ""}\n${segment.text}`)
+        .join("\n\n");
+    case "visuals":
+      return pkg.segments
+        .flatMap((segment) =>
+          scenesForSegment(pkg, segment.id).map((scene) =>
+            [
+              `${range(segment.start, segment.end)}${segment.title ? ` ${segment.title}` : ""}`,
+              scene.description,
+              scene.shot && `Shot: ${scene.shot}`,
+              scene.onScreenText && `On-screen text: ${scene.onScreenText}`,
+            ]
+              .filter(Boolean)
+              .join("\n")
+          )
+        )
+        .join("\n\n");
+    case "music":
+      return pkg.music
+        .map((cue) =>
+          [
+            cue.end > cue.start ? range(cue.start, cue.end) : "",
+            [cue.genre, cue.mood, cue.tempo].filter(Boolean).join(" · "),
+            cue.notes,
+          ]
+            .filter(Boolean)
+            .join("\n")
+        )
+        .join("\n\n");
+    case "thumbnail":
+      return [
+        pkg.thumbnail.headline && `Headline: ${pkg.thumbnail.headline}`,
+        pkg.thumbnail.description,
+        pkg.thumbnail.composition && `Composition: ${pkg.thumbnail.composition}`,
+        pkg.thumbnail.colors.length > 0 && `Colors: ${pkg.thumbnail.colors.join(", ")}`,
+      ]
+        .filter(Boolean)
+        .join("\n\n");
+    case "seo":
+      return [
+        pkg.seo.titles.length > 0 && `Titles:\n${pkg.seo.titles.map((title, i) => `${i + 1}. ${title}`).join("\n")}`,
+        pkg.seo.description && `Description:\n${descriptionWithChapters(pkg)}`,
+        pkg.seo.tags.length > 0 && `Tags: ${pkg.seo.tags.join(", ")}`,
+        pkg.seo.hashtags.length > 0 && `Hashtags: ${pkg.seo.hashtags.join(" ")}`,
+        pkg.seo.pinnedComment && `Pinned comment:\n${pkg.seo.pinnedComment}`,
+      ]
+        .filter(Boolean)
+        .join("\n\n");
+  }
+}
+
+export function packageToMarkdown(pkg: ProductionPackage): string {
+  return [
+    pkg.title && `# ${pkg.title}`,
+    `## SCRIPT\n\n${sectionText(pkg, "script")}`,
+    `## VISUAL SCENES\n\n${sectionText(pkg, "visuals")}`,
+    `## MUSIC RECOMMENDATIONS\n\n${sectionText(pkg, "music")}`,
+    `## THUMBNAIL CONCEPT\n\n${sectionText(pkg, "thumbnail")}`,
+    sectionText(pkg, "seo") && `## SEO METADATA\n\n${sectionText(pkg, "seo")}`,
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+// Flexible header patterns for the pre-JSON markdown format
+const LEGACY_HEADERS: Record<SectionKey, RegExp> = {
+  script: /##\s*(?:\d+\.)?\s*(?:FULL\s+)?SCRIPT/i,
+  visuals: /##\s*(?:\d+\.)?\s*(?:DETAILED\s+)?VISUAL\s+(?:SCENES|DESCRIPTIONS)/i,
+  music: /##\s*(?:\d+\.)?\s*(?:BACKGROUND\s+)?MUSIC\s+RECOMMENDATIONS?/i,
+  thumbnail: /##\s*(?:\d+\.)?\s*THUMBNAIL\s+(?:CONCEPT|DESIGN)/i,
+  seo: /##\s*(?:\d+\.)?\s*SEO\s+METADATA/i,
+};
+
+const LEGACY_ORDER: SectionKey[] = ["script", "visuals", "music", "thumbnail", "seo"];
+
+function extractLegacySection(text: string, section: SectionKey): string {
+  const match = text.match(LEGACY_HEADERS[section]);
+  if (!match) return "";
+
+  const contentStart = match.index! + match[0].length;
+  const rest = text.slice(contentStart);
+  const ends = LEGACY_ORDER.slice(LEGACY_ORDER.indexOf(section) + 1)
+    .map((next) => rest.match(LEGACY_HEADERS[next])?.index)
+    .filter((index): index is number => index !== undefined);
+
+  return rest.slice(0, ends.length > 0 ? Math.min(...ends) : rest.length).trim();
+}
+
+// Fallback segment length when the markdown gives no closing timestamp
+const LEGACY_SEGMENT_SECONDS = 5;
+
+function legacySegments(script: string): ScriptSegment[] {
+  const markerRegex = /\[(\d{1,2}:\d{2}(?::\d{2})?)\]/;
+  const parts: Array<{ start: number; text: string }> = [];
+
+  for (const line of script.split("\n").map((l) => l.trim()).filter(Boolean)) {
+    const match = line.match(markerRegex);
+    const start = match ? parseTimestamp(match[1]) : null;
+    if (start !== null) {
+      parts.push({ start, text: line.replace(markerRegex, "").trim() });
+    } else if (parts.length > 0) {
+      parts[parts.length - 1].text += ` ${line}`;
+    } else {
+      parts.push({ start: 0, text: line });
+    }
+  }
+
+  return parts
+    .filter((part) => part.text.trim())
+    .map((part, index, all) => {
+      const next = all[index + 1];
+      return {
+        id: `seg-${index + 1}`,
+        start: part.start,
+        end: next && next.start > part.start ? next.start : part.start + LEGACY_SEGMENT_SECONDS,
+        title: "",
+        text: part.text.trim(),
+      };
+    });
+}
+
+function legacyVisualDescriptions(visuals: string): string[] {
+  const lines = visuals.split("\n").map((line) => line.trim()).filter(Boolean);
+  const bullets = lines
+    .filter((line) => /^\*\s+\*\*(?:Visuals|B-roll):\*\*/i.test(line))
+    .map((line) => line.replace(/^\*\s+\*\*(?:Visuals|B-roll):\*\*\s*/i, "").trim())
+    .filter((description) => description.length > 20);
+  if (bullets.length > 0) return bullets;
+
+  // Otherwise treat every substantial non-header line as one scene
+  return lines
+    .filter((line) => !/^\[[\d:\s-]+\]$/.test(line) && !/^\*\*[^*]+\*\*$/.test(line))
+    .map((line) => line.replace(/^[-*\d.\s]+/, "").replace(/\*\*/g, "").trim())
+    .filter((line) => line.length > 20);
+}
+
+export function packageFromMarkdown(markdown: string): ProductionPackage {
+  const segments = legacySegments(extractLegacySection(markdown, "script") || markdown);
+  if (segments.length === 0) {
+    segments.push({ id: "seg-1", start: 0, end: LEGACY_SEGMENT_SECONDS, title: "", text: markdown.trim() || "No script" });
+  }
+
+  const descriptions = legacyVisualDescriptions(extractLegacySection(markdown, "visuals"));
+  const scenes: VisualScene[] = segments.map((segment, index) => ({
+    id: `scene-${index + 1}`,
+    segmentId: segment.id,
+    description: descriptions[index] || "A professional video scene",
+    shot: "",
+    onScreenText: "",
+  }));
+
+  const music = extractLegacySection(markdown, "music");
+  const thumbnail = extractLegacySection(markdown, "thumbnail");
+
+  return {
+    version: PRODUCTION_PACKAGE_VERSION,
+    title: "",
+    segments,
+    scenes,
+    music: music ? [{ start: 0, end: 0, genre: "", mood: "", tempo: "", notes: music }] : [],
+    thumbnail: { headline: "", description: thumbnail || "No thumbnail concept", colors: [], composition: "" },
+    seo: EMPTY_SEO,
+  };
+}
+
+const asString = (value: unknown) => (typeof value === "string" ? value : "");
+const asStrings = (value: unknown) =>
+  (Array.isArray(value) ? value : []).filter((item): item is string => typeof item === "string");
+const asSeconds = (value: unknown) =>
+  typeof value === "number" ? value : (typeof value === "string" && parseTimestamp(value)) || 0;
+const asObjects = (value: unknown) =>
+  (Array.isArray(value) ? value : []).filter(
+    (item): item is Record<string, unknown> => typeof item === "object" && item !== null
+  );
+
+/**
+ * Builds a best-effort package from a JSON document that is still streaming
+ * in (see parsePartialJson). Sections that have not arrived yet are empty;
+ * entries are kept as soon as their main text field has started.
+ */
+export function draftFromPartial(value: unknown): ProductionPackage {
+  const raw = typeof value === "object" && value !== null ? (value as Record<string, unknown>) : {};
+  const thumbnail = typeof raw.thumbnail === "object" && raw.thumbnail !== null
+    ? (raw.thumbnail as Record<string, unknown>)
+    : {};
+  const seo = typeof raw.seo === "object" && raw.seo !== null ? (raw.seo as Record<string, unknown>) : {};
+
+  const segments = asObjects(raw.segments)
+    .filter((segment) => asString(segment.text))
+    .map((segment, index) => {
+      const start = asSeconds(segment.start);
+      return {
+        id: asString(segment.id) || `seg-${index + 1}`,
+        start,
+        end: Math.max(start, asSeconds(segment.end)),
+        title: asString(segment.title),
+        text: asString(segment.text),
+      };
+    });
+
+  return {
+    version: PRODUCTION_PACKAGE_VERSION,
+    title: asString(raw.title),
+    segments,
+    scenes: asObjects(raw.scenes)
+      .filter((scene) => asString(scene.description))
+      .map((scene, index) => ({
+        id: asString(scene.id) || `scene-${index + 1}`,
+        segmentId: asString(scene.segmentId),
+        description: asString(scene.description),
+        shot: asString(scene.shot),
+        onScreenText: asString(scene.onScreenText),
+      })),
+    music: asObjects(raw.music).map((cue) => ({
+      start: asSeconds(cue.start),
+      end: asSeconds(cue.end),
+      genre: asString(cue.genre),
+      mood: asString(cue.mood),
+      tempo: asString(cue.tempo),
+      notes: asString(cue.notes),
+    })),
+    thumbnail: {
+      headline: asString(thumbnail.headline),
+      description: asString(thumbnail.description),
+      colors: asStrings(thumbnail.colors),
+      composition: asString(thumbnail.composition),
+    },
+    seo: {
+      titles: asStrings(seo.titles).filter(Boolean),
+      description: asString(seo.description),
+      tags: asStrings(seo.tags).filter(Boolean),
+      hashtags: asStrings(seo.hashtags).filter(Boolean),
+      pinnedComment: asString(seo.pinnedComment),
+    },
+  };
+}
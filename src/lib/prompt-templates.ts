@@ -0,0 +1,126 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import type { VideoBrief } from "@/lib/production-package";
+
+/** A reusable prompt; see supabase/functions/_shared/prompt-template.ts for how prompts use it. */
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  /** Shown in the style list and sent as the video's style. */
+  styleName: string;
+  /** The sections the script follows, in order; may use TEMPLATE_VARIABLES placeholders. */
+  structure: string;
+  tone: string;
+  /** Shared templates are visible to, and usable by, every user. */
+  isShared: boolean;
+  /** Only the owner can edit or delete a template; others can copy it. */
+  owned: boolean;
+}
+
+export type PromptTemplateDraft = Omit<PromptTemplate, "id" | "owned"> & { id?: string };
+
+export const EMPTY_PROMPT_TEMPLATE: PromptTemplateDraft = {
+  name: "",
+  styleName: "",
+  structure: "",
+  tone: "",
+  isShared: false,
+};
+
+// Mirrors TEMPLATE_VARIABLES in supabase/functions/_shared/prompt-template.ts
+export const TEMPLATE_VARIABLES = [
+  { name: "topic", description: "The video topic" },
+  { name: "audience", description: "The target audience" },
+  { name: "length", description: "The video length, e.g. 5-10 minutes" },
+  { name: "style", description: "The style name" },
+  { name: "language", description: "The language the video is written in" },
+  { name: "channel", description: "The channel profile's name, if any" },
+];
+
+/** Placeholders in the text that the generation function won't fill in. */
+export function unknownPlaceholders(text: string): string[] {
+  const known = new Set(TEMPLATE_VARIABLES.map((variable) => variable.name));
+  const names = [...text.matchAll(/\{(\w+)\}/g)].map(([, name]) => name);
+  return [...new Set(names)].filter((name) => !known.has(name));
+}
+
+const fromRow = (row: Tables<"prompt_templates">, userId: string | undefined): PromptTemplate => ({
+  id: row.id,
+  name: row.name,
+  styleName: row.style_name,
+  structure: row.structure,
+  tone: row.tone,
+  isShared: row.is_shared,
+  owned: row.user_id === userId,
+});
+
+export type PromptTemplatePrompt = Pick<PromptTemplate, "name" | "structure" | "tone">;
+
+/** The template as sent to the generation function: only what goes into prompts. */
+export const templateForRequest = ({ name, structure, tone }: PromptTemplatePrompt): PromptTemplatePrompt => ({
+  name,
+  structure,
+  tone,
+});
+
+/** A template to open in the editor: someone else's shared template becomes a new copy. */
+export const editableTemplate = (template: PromptTemplate): PromptTemplateDraft =>
+  template.owned
+    ? template
+    : { ...template, id: undefined, name: `${template.name} (copy)`, isShared: false };
+
+/** The user's own templates and everyone's shared ones. */
+export async function listPromptTemplates(): Promise<PromptTemplate[]> {
+  const [{ data, error }, { data: auth }] = await Promise.all([
+    supabase.from("prompt_templates").select("*").order("name"),
+    supabase.auth.getUser(),
+  ]);
+  if (error) throw error;
+  return data.map((row) => fromRow(row, auth.user?.id));
+}
+
+export async function savePromptTemplate(template: PromptTemplateDraft): Promise<PromptTemplate> {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) throw new Error("You must be logged in to save a prompt template");
+
+  const row = {
+    user_id: user.id,
+    name: template.name.trim(),
+    style_name: template.styleName.trim(),
+    structure: template.structure.trim(),
+    tone: template.tone.trim(),
+    is_shared: template.isShared,
+  };
+  const { data, error } = template.id
+    ? await supabase.from("prompt_templates").update(row).eq("id", template.id).select().single()
+    : await supabase.from("prompt_templates").insert(row).select().single();
+  if (error) throw error;
+  return fromRow(data, user.id);
+}
+
+export async function deletePromptTemplate(id: string) {
+  const { error } = await supabase.from("prompt_templates").delete().eq("id", id);
+  if (error) throw error;
+}
+
+export interface PromptMessage {
+  role: "system" | "user";
+  content: string;
+}
+
+/**
+ * The prompt generate-video-content would send for this brief, rendered by the
+ * function itself so the preview matches what the model sees. Long videos show
+ * the outline pass's prompt.
+ */
+export async function previewPrompt(brief: VideoBrief): Promise<PromptMessage[]> {
+  const { data, error } = await supabase.functions.invoke("generate-video-content", {
+    body: { ...brief, preview: true },
+  });
+
+  if (error) throw error;
+  if (data?.error) throw new Error(data.error);
+  return data.messages;
+}
@@ -0,0 +1,50 @@
+// Messages exchanged between the render service and its worker, and the
+// manifest handed to the server renderer
+
+export interface RenderFile {
+  path: string;
+  data: Uint8Array;
+}
+
+export interface RenderOutputSpec {
+  /** FFmpeg arguments, as built by `buildRenderArgs`. */
+  args: string[];
+  /** File the arguments write, read back once FFmpeg finishes. */
+  output: string;
+  /** Seconds of video the output covers, used to turn FFmpeg's clock into progress. */
+  duration: number;
+}
+
+export interface RenderJob {
+  /** Directories to create before the files are written. */
+  dirs: string[];
+  files: RenderFile[];
+  /** Rendered one after another from the same input files. */
+  outputs: RenderOutputSpec[];
+}
+
+export type RenderWorkerRequest =
+  | { type: "load"; coreURL: string; wasmURL: string; workerURL?: string }
+  | ({ type: "render"; jobId: string } & RenderJob);
+
+export type RenderWorkerEvent =
+  | { type: "loaded" }
+  | { type: "progress"; jobId: string; output: number; ratio: number }
+  | { type: "log"; jobId: string; message: string }
+  | { type: "output"; jobId: string; output: number; data: Uint8Array }
+  | { type: "done"; jobId: string }
+  | { type: "error"; jobId: string | null; message: string };
+
+/**
+ * A render job queued for the server renderer (render-worker/), stored on the
+ * job row. The files themselves are uploaded to the job's storage folder.
+ */
+export interface ServerRenderManifest {
+  dirs: string[];
+  /** Paths of the uploaded files, relative to the job's `inputs/` folder. */
+  files: string[];
+  /** Each output is stored as a video asset of its aspect ratio. */
+  outputs: Array<RenderOutputSpec & { format: string }>;
+  /** Job progress, in percent, when rendering starts and when the last output is done. */
+  progressRange: [number, number];
+}
@@ -0,0 +1,167 @@
+import { coreAssets, FFMPEG_CORE_VERSION } from "@/lib/ffmpeg-core";
+import type { RenderJob, RenderWorkerEvent, RenderWorkerRequest } from "@/lib/render-protocol";
+
+// Compiling the wasm can take a while on slow machines, but not this long
+const LOAD_TIMEOUT_MS = 60_000;
+
+export class RenderCancelledError extends Error {
+  constructor() {
+    super("Render cancelled");
+    this.name = "RenderCancelledError";
+  }
+}
+
+/** FFmpeg itself could not be started, e.g. the wasm failed to download or compile. */
+export class RendererLoadError extends Error {
+  constructor(reason: string) {
+    super(`The video processor (FFmpeg ${FFMPEG_CORE_VERSION}) failed to load: ${reason}`);
+    this.name = "RendererLoadError";
+  }
+}
+
+interface ActiveJob {
+  jobId: string;
+  outputs: Uint8Array[];
+  onProgress?: (ratio: number) => void;
+  resolve: (outputs: Uint8Array[]) => void;
+  reject: (error: Error) => void;
+  /** Output count, so progress can be spread across them. */
+  total: number;
+}
+
+let worker: Worker | null = null;
+let ready: Promise<Worker> | null = null;
+let active: ActiveJob | null = null;
+
+function handleEvent(event: RenderWorkerEvent) {
+  if (event.type === "loaded" || !active || event.jobId !== active.jobId) return;
+  const job = active;
+
+  switch (event.type) {
+    case "progress":
+      job.onProgress?.((event.output + event.ratio) / job.total);
+      break;
+    case "output":
+      job.outputs[event.output] = event.data;
+      break;
+    case "done":
+      active = null;
+      job.resolve(job.outputs);
+      break;
+    case "error":
+      active = null;
+      job.reject(new Error(event.message));
+      break;
+  }
+}
+
+/** Starts the render worker and loads FFmpeg into it, or returns the one already running. */
+export function loadRenderer(): Promise<Worker> {
+  if (ready) return ready;
+
+  const { coreURL, wasmURL, workerURL } = coreAssets();
+  const loading = new Promise<Worker>((resolve, reject) => {
+    const instance = new Worker(new URL("../workers/render.worker.ts", import.meta.url), { type: "module" });
+    worker = instance;
+
+    const timeout = setTimeout(() => {
+      reject(new RendererLoadError("timed out"));
+      terminateRenderer();
+    }, LOAD_TIMEOUT_MS);
+
+    instance.onmessage = ({ data }: MessageEvent<RenderWorkerEvent>) => {
+      if (data.type === "loaded") {
+        clearTimeout(timeout);
+        resolve(instance);
+      } else if (data.type === "error" && data.jobId === null) {
+        clearTimeout(timeout);
+        reject(new RendererLoadError(data.message));
+        terminateRenderer();
+      } else {
+        handleEvent(data);
+      }
+    };
+    instance.onerror = (event) => {
+      clearTimeout(timeout);
+      const message = event.message || "the render worker crashed";
+      reject(new RendererLoadError(message));
+      active?.reject(new Error(message));
+      active = null;
+      terminateRenderer();
+    };
+
+    instance.postMessage({ type: "load", coreURL, wasmURL, workerURL } satisfies RenderWorkerRequest);
+  });
+  ready = loading;
+
+  // Let a failed load be retried
+  loading.catch(() => {
+    if (ready === loading) ready = null;
+  });
+  return loading;
+}
+
+/**
+ * Stops the worker immediately, cancelling any render in progress. FFmpeg
+ * can't be interrupted mid-command, so this is also how a render is
+ * cancelled; the next render starts a fresh worker.
+ */
+export function terminateRenderer() {
+  worker?.terminate();
+  worker = null;
+  ready = null;
+
+  if (active) {
+    const job = active;
+    active = null;
+    job.reject(new RenderCancelledError());
+  }
+}
+
+/**
+ * Renders every output of the job in the worker and resolves with their
+ * bytes, in order. Only one job runs at a time. Aborting `signal` cancels
+ * the render and rejects with `RenderCancelledError`.
+ */
+export async function renderVideos(
+  job: RenderJob,
+  { onProgress, signal }: { onProgress?: (ratio: number) => void; signal?: AbortSignal } = {}
+): Promise<Uint8Array[]> {
+  if (active) throw new Error("Another video is already rendering");
+  if (signal?.aborted) throw new RenderCancelledError();
+
+  // Loading can take a while on a cold cache, so it has to be cancellable too
+  const instance = await new Promise<Worker>((resolve, reject) => {
+    const onAbort = () => reject(new RenderCancelledError());
+    signal?.addEventListener("abort", onAbort, { once: true });
+    loadRenderer()
+      .then(resolve, reject)
+      .finally(() => signal?.removeEventListener("abort", onAbort));
+  });
+
+  const jobId = crypto.randomUUID();
+  return new Promise<Uint8Array[]>((resolve, reject) => {
+    const onAbort = () => terminateRenderer();
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    const settle =
+      <T>(callback: (value: T) => void) =>
+      (value: T) => {
+        signal?.removeEventListener("abort", onAbort);
+        callback(value);
+      };
+
+    active = {
+      jobId,
+      outputs: [],
+      onProgress,
+      resolve: settle(resolve),
+      reject: settle(reject),
+      total: job.outputs.length,
+    };
+
+    // Hand the file buffers over instead of copying them
+    const transfer = [...new Set(job.files.map(({ data }) => data.buffer))];
+    instance.postMessage({ type: "render", jobId, ...job } satisfies RenderWorkerRequest, transfer);
+  });
+}
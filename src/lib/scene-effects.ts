@@ -0,0 +1,67 @@
+export type MotionPreset = "none" | "zoom-in" | "zoom-out" | "pan-left" | "pan-right";
+
+export type TransitionType = "cut" | "crossfade" | "dip-to-black" | "slide";
+
+export interface SceneEffects {
+  motion: MotionPreset;
+  /** Transition into the scene from the one before it; ignored on the first scene. */
+  transition: TransitionType;
+}
+
+export const MOTION_PRESETS: Record<MotionPreset, string> = {
+  none: "Still",
+  "zoom-in": "Zoom in",
+  "zoom-out": "Zoom out",
+  "pan-left": "Pan left",
+  "pan-right": "Pan right",
+};
+
+export const TRANSITIONS: Record<TransitionType, string> = {
+  cut: "Hard cut",
+  crossfade: "Crossfade",
+  "dip-to-black": "Dip to black",
+  slide: "Slide",
+};
+
+// Still images with hard cuts, as rendered before effects existed
+export const DEFAULT_SCENE_EFFECTS: SceneEffects = {
+  motion: "none",
+  transition: "cut",
+};
+
+// How far the Ken Burns presets push in, as a zoom factor
+const MOTION_ZOOM = 0.15;
+
+/** `zoompan` filter options for a preset; `frames` is how many frames the scene lasts. */
+export function zoompanOptions(motion: MotionPreset, frames: number): string {
+  const progress = `on/${Math.max(1, frames - 1)}`;
+  const centerX = "x='iw/2-(iw/zoom/2)'";
+  const centerY = "y='ih/2-(ih/zoom/2)'";
+
+  switch (motion) {
+    case "zoom-in":
+      return `z='1+${MOTION_ZOOM}*${progress}':${centerX}:${centerY}`;
+    case "zoom-out":
+      return `z='${1 + MOTION_ZOOM}-${MOTION_ZOOM}*${progress}':${centerX}:${centerY}`;
+    case "pan-left":
+      return `z='${1 + MOTION_ZOOM}':x='(iw-iw/zoom)*(1-${progress})':${centerY}`;
+    case "pan-right":
+      return `z='${1 + MOTION_ZOOM}':x='(iw-iw/zoom)*${progress}':${centerY}`;
+    case "none":
+      return "z=1:x=0:y=0";
+  }
+}
+
+const XFADE_TRANSITIONS: Record<Exclude<TransitionType, "cut">, string> = {
+  crossfade: "fade",
+  "dip-to-black": "fadeblack",
+  slide: "slideleft",
+};
+
+/** Name of the `xfade` transition, or null for a hard cut. */
+export const xfadeTransition = (transition: TransitionType) =>
+  transition === "cut" ? null : XFADE_TRANSITIONS[transition];
+
+/** True when no scene moves or blends, so the cheap slideshow path can be used. */
+export const isStaticSlideshow = (effects: SceneEffects[]) =>
+  effects.every((effect, i) => effect.motion === "none" && (i === 0 || effect.transition === "cut"));
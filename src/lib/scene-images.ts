@@ -0,0 +1,99 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { StyleGuide } from "@/lib/style-guide";
+import type { ImageOrientation } from "@/lib/video-formats";
+
+/** Outcome for one scene; a failed scene doesn't fail the others. */
+export type SceneImageResult =
+  | { sceneIndex: number; status: "succeeded"; imageUrl: string; path: string }
+  | { sceneIndex: number; status: "failed"; error: string; statusCode?: number };
+
+export interface SceneImage {
+  /** Signed link, valid for an hour. */
+  url: string;
+  /** Path in the asset bucket, to sign the image again later. Not set for placeholders and uploads. */
+  path?: string;
+}
+
+export type FailedSceneImage = Extract<SceneImageResult, { status: "failed" }>;
+
+/** The image provider is out of credits, so no scene can be generated. */
+export class ImageCreditsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImageCreditsError";
+  }
+}
+
+// Passes over just the failed scenes, on top of the edge function's own retries
+const FAILED_SCENE_ROUNDS = 1;
+
+export const isPaymentError = (message: string) =>
+  message.includes("Payment required") ||
+  message.includes("payment_required") ||
+  message.includes("credits") ||
+  message.includes("402");
+
+/**
+ * Generates images for the given scenes (all of them by default) and stores
+ * them with the job's assets, or the project's when there is no job yet.
+ * Resolves with one result per requested scene.
+ */
+export async function generateSceneImages({
+  descriptions,
+  orientation,
+  jobId,
+  projectId,
+  sceneIndexes,
+  styleGuide,
+}: {
+  descriptions: string[];
+  orientation: ImageOrientation;
+  jobId?: string;
+  projectId?: string;
+  sceneIndexes?: number[];
+  /** Look shared by every scene; see `styleGuideForRequest`. */
+  styleGuide?: StyleGuide;
+}): Promise<SceneImageResult[]> {
+  const { data, error } = await supabase.functions.invoke("generate-scene-images", {
+    body: { sceneDescriptions: descriptions, sceneIndexes, orientation, jobId, projectId, styleGuide },
+  });
+
+  const message = error?.message || (typeof data?.error === "string" ? data.error : "");
+  if (message) {
+    if (isPaymentError(message)) throw new ImageCreditsError(message);
+    throw error || new Error(message);
+  }
+  if (!Array.isArray(data?.images)) throw new Error("Failed to generate images");
+  return data.images;
+}
+
+/**
+ * Generates every scene's image (or those in `sceneIndexes`), asking again
+ * for only the scenes that failed. Resolves with an image per scene, or null
+ * for scenes that were skipped or still failed.
+ */
+export async function generateAllSceneImages(
+  options: {
+    descriptions: string[];
+    orientation: ImageOrientation;
+    jobId: string;
+    sceneIndexes?: number[];
+    styleGuide?: StyleGuide;
+  }
+): Promise<(SceneImage | null)[]> {
+  const images: (SceneImage | null)[] = options.descriptions.map(() => null);
+  let pending = options.sceneIndexes;
+
+  for (let round = 0; round <= FAILED_SCENE_ROUNDS; round++) {
+    const results = await generateSceneImages({ ...options, sceneIndexes: pending });
+    const failed = results.filter((result): result is FailedSceneImage => result.status === "failed");
+    results.forEach((result) => {
+      if (result.status === "succeeded") images[result.sceneIndex] = { url: result.imageUrl, path: result.path };
+    });
+
+    if (failed.length === 0) break;
+    console.warn(`${failed.length} scene images failed:`, failed);
+    pending = failed.map((result) => result.sceneIndex);
+  }
+  return images;
+}
@@ -0,0 +1,92 @@
+import { descriptionWithChapters, type ProductionPackage } from "@/lib/production-package";
+
+// Mirrors SEO_LIMITS in supabase/functions/_shared/production-package.ts
+export const SEO_LIMITS = {
+  titleOptions: 5,
+  titleLength: 100,
+  descriptionLength: 5000,
+  tagsLength: 500,
+  maxHashtags: 15,
+  // Not a YouTube limit, but longer titles are cut off in search results
+  titleDisplayLength: 70,
+  pinnedCommentLength: 10000,
+} as const;
+
+export type SeoField = "titles" | "description" | "tags" | "hashtags" | "pinnedComment";
+
+export interface SeoCheck {
+  label: string;
+  ok: boolean;
+  /** Shown when the check fails, e.g. how far over the limit the text is. */
+  problem?: string;
+}
+
+/** Length of the tags as YouTube counts it: commas between tags, quotes around tags with spaces. */
+export const tagsLength = (tags: string[]) =>
+  tags.reduce((total, tag, index) => total + tag.length + (/\s/.test(tag) ? 2 : 0) + (index > 0 ? 1 : 0), 0);
+
+const lengthCheck = (label: string, length: number, max: number): SeoCheck => ({
+  label: `${label}: ${length}/${max} characters`,
+  ok: length <= max,
+  problem: length > max ? `${length - max} characters over the limit` : undefined,
+});
+
+/** The field as it is pasted into YouTube. */
+export function seoFieldText(pkg: ProductionPackage, field: SeoField): string {
+  const { seo } = pkg;
+  switch (field) {
+    case "titles":
+      return seo.titles.map((title, i) => `${i + 1}. ${title}`).join("\n");
+    case "description":
+      return seo.description ? descriptionWithChapters(pkg) : "";
+    case "tags":
+      return seo.tags.join(", ");
+    case "hashtags":
+      return seo.hashtags.join(" ");
+    case "pinnedComment":
+      return seo.pinnedComment;
+  }
+}
+
+export function seoChecks(pkg: ProductionPackage, field: SeoField): SeoCheck[] {
+  const { seo } = pkg;
+  switch (field) {
+    case "titles":
+      return [
+        {
+          label: `${seo.titles.length}/${SEO_LIMITS.titleOptions} title options`,
+          ok: seo.titles.length === SEO_LIMITS.titleOptions,
+        },
+        ...seo.titles.map((title, i) => {
+          const check = lengthCheck(`Title ${i + 1}`, title.length, SEO_LIMITS.titleLength);
+          return check.ok && title.length > SEO_LIMITS.titleDisplayLength
+            ? { ...check, ok: false, problem: `May be cut off in search after ${SEO_LIMITS.titleDisplayLength} characters` }
+            : check;
+        }),
+      ];
+    case "description":
+      return [lengthCheck("Description", descriptionWithChapters(pkg).length, SEO_LIMITS.descriptionLength)];
+    case "tags":
+      return [lengthCheck(`${seo.tags.length} tags`, tagsLength(seo.tags), SEO_LIMITS.tagsLength)];
+    case "hashtags": {
+      const invalid = seo.hashtags.filter((tag) => !/^#[\p{L}\p{N}_]+$/u.test(tag));
+      return [
+        {
+          label: `${seo.hashtags.length}/${SEO_LIMITS.maxHashtags} hashtags`,
+          ok: seo.hashtags.length > 0 && seo.hashtags.length <= SEO_LIMITS.maxHashtags,
+          problem:
+            seo.hashtags.length > SEO_LIMITS.maxHashtags
+              ? `YouTube ignores every hashtag on videos with more than ${SEO_LIMITS.maxHashtags}`
+              : undefined,
+        },
+        {
+          label: "Letters, numbers and underscores only",
+          ok: invalid.length === 0,
+          problem: invalid.length > 0 ? `Not valid: ${invalid.join(" ")}` : undefined,
+        },
+      ];
+    }
+    case "pinnedComment":
+      return [lengthCheck("Comment", seo.pinnedComment.length, SEO_LIMITS.pinnedCommentLength)];
+  }
+}
@@ -0,0 +1,179 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables } from "@/integrations/supabase/types";
+import { ASSET_BUCKET } from "@/lib/assets";
+import { RenderCancelledError } from "@/lib/render-service";
+import type { RenderJob, ServerRenderManifest } from "@/lib/render-protocol";
+
+/** Storage bucket holding server render inputs, see render-worker/. The videos go to the asset bucket. */
+export const RENDER_BUCKET = "render-jobs";
+
+/** Script length from which rendering on the server is suggested; FFmpeg.wasm runs out of memory on long videos. */
+export const SERVER_RENDER_SUGGESTED_SECONDS = 15 * 60;
+
+// How long a queued job waits for a render worker before the browser takes it back
+const CLAIM_TIMEOUT_MS = 45_000;
+
+// Rendered videos stay playable and downloadable for a day
+const SIGNED_URL_SECONDS = 60 * 60 * 24;
+
+/** No render worker claimed the job in time, so it was taken off the queue again. */
+export class ServerRendererUnavailableError extends Error {
+  constructor() {
+    super("No render server is available");
+    this.name = "ServerRendererUnavailableError";
+  }
+}
+
+export interface ServerRenderedVideo {
+  videoUrl: string;
+  /** Same video, served as an attachment so the browser saves it. */
+  downloadUrl: string;
+}
+
+type JobRow = Tables<"video_generation_jobs">;
+
+/** Storage folder of a job; the browser uploads its inputs to `inputs/`. */
+export const renderJobFolder = (userId: string, jobId: string) => `${userId}/${jobId}`;
+
+async function uploadInputs(folder: string, job: RenderJob, signal?: AbortSignal) {
+  // One at a time; long projects have hundreds of files and some are large
+  for (const { path, data } of job.files) {
+    if (signal?.aborted) throw new RenderCancelledError();
+    const { error } = await supabase.storage
+      .from(RENDER_BUCKET)
+      .upload(`${folder}/inputs/${path}`, new Blob([data]), { upsert: true });
+    if (error) throw new Error(`Failed to upload ${path}: ${error.message}`);
+  }
+}
+
+// Best effort, so the error that ended the render is the one reported
+async function removeInputs(folder: string, job: RenderJob) {
+  const { error } = await supabase.storage
+    .from(RENDER_BUCKET)
+    .remove(job.files.map(({ path }) => `${folder}/inputs/${path}`));
+  if (error) console.error("Error removing render inputs:", error);
+}
+
+// Resolves with the finished row, or rejects once the job fails, is cancelled
+// or no worker claims it in time
+function waitForWorker(jobId: string, signal?: AbortSignal): Promise<JobRow> {
+  return new Promise((resolve, reject) => {
+    let settled = false;
+    const channel = supabase.channel(`server-render-${jobId}`);
+
+    const settle = (callback: () => void) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(claimTimeout);
+      signal?.removeEventListener("abort", onAbort);
+      supabase.removeChannel(channel);
+      callback();
+    };
+
+    const check = (row: JobRow) => {
+      if (row.status === "completed") settle(() => resolve(row));
+      else if (row.status === "failed") settle(() => reject(new Error(row.error_message || "Server render failed")));
+      else if (row.status === "cancelled") settle(() => reject(new RenderCancelledError()));
+    };
+
+    const onAbort = () => settle(() => reject(new RenderCancelledError()));
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    // Take the job back unless a worker got to it first, in which case keep waiting.
+    // The manifest stays: once set it can't be changed, so the job can't be queued again
+    const claimTimeout = setTimeout(async () => {
+      const { data } = await supabase
+        .from("video_generation_jobs")
+        .update({ renderer: "browser" })
+        .eq("id", jobId)
+        .eq("status", "pending")
+        .select("id");
+      if (data?.length) settle(() => reject(new ServerRendererUnavailableError()));
+    }, CLAIM_TIMEOUT_MS);
+
+    channel
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "video_generation_jobs", filter: `id=eq.${jobId}` },
+        (payload) => check(payload.new as JobRow)
+      )
+      .subscribe(async (status) => {
+        if (status !== "SUBSCRIBED") return;
+        // The worker may have finished before the subscription was up
+        const { data } = await supabase.from("video_generation_jobs").select("*").eq("id", jobId).single();
+        if (data) check(data);
+      });
+  });
+}
+
+/**
+ * Renders the job with the server renderer: uploads its files, queues it on
+ * the job row and waits for a render worker to finish it. The worker writes
+ * progress to the row as it goes. Rejects with `ServerRendererUnavailableError`
+ * when no worker picks the job up, leaving the files in `job` untouched so the
+ * browser can render it instead. The uploaded inputs are removed whenever the
+ * render doesn't complete; a worker removes them itself once it is done.
+ */
+export async function renderVideosOnServer(
+  {
+    jobId,
+    userId,
+    job,
+    formats,
+    progressRange,
+    downloadNames,
+  }: {
+    jobId: string;
+    userId: string;
+    job: RenderJob;
+    /** Aspect ratio of each output, in output order. */
+    formats: string[];
+    progressRange: [number, number];
+    /** File name each output is downloaded as, in output order. */
+    downloadNames: string[];
+  },
+  { signal }: { signal?: AbortSignal } = {}
+): Promise<ServerRenderedVideo[]> {
+  const folder = renderJobFolder(userId, jobId);
+  let row: JobRow;
+  try {
+    await uploadInputs(folder, job, signal);
+    if (signal?.aborted) throw new RenderCancelledError();
+
+    const manifest: ServerRenderManifest = {
+      dirs: job.dirs,
+      files: job.files.map(({ path }) => path),
+      outputs: job.outputs.map((spec, i) => ({ ...spec, format: formats[i] })),
+      progressRange,
+    };
+    const { error } = await supabase
+      .from("video_generation_jobs")
+      .update({
+        renderer: "server",
+        manifest: manifest as unknown as Json,
+        status: "pending",
+        current_step: "Waiting for a render server",
+      })
+      .eq("id", jobId);
+    if (error) throw error;
+
+    row = await waitForWorker(jobId, signal);
+  } catch (error) {
+    // Taken back, cancelled or failed: no worker will clean up after a job it never finished
+    await removeInputs(folder, job);
+    throw error;
+  }
+  const paths = (row.outputs ?? []) as string[];
+
+  return Promise.all(
+    paths.map(async (path, i) => {
+      const bucket = supabase.storage.from(ASSET_BUCKET);
+      const [video, download] = await Promise.all([
+        bucket.createSignedUrl(path, SIGNED_URL_SECONDS),
+        bucket.createSignedUrl(path, SIGNED_URL_SECONDS, { download: downloadNames[i] ?? true }),
+      ]);
+      if (video.error || download.error) throw video.error ?? download.error;
+      return { videoUrl: video.data.signedUrl, downloadUrl: download.data.signedUrl };
+    })
+  );
+}
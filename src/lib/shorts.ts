@@ -0,0 +1,55 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { parseGeneratedContent, serializePackage, type ProductionPackage } from "@/lib/production-package";
+import type { AspectRatio } from "@/lib/video-formats";
+
+type VideoProject = Tables<"video_projects">;
+
+/** Formats a Short is rendered in unless the user picks others. */
+export const SHORT_FORMATS: AspectRatio[] = ["9:16"];
+
+const SHORT_VIDEO_LENGTH = "Short (30-60 seconds)";
+
+/**
+ * Cuts Shorts from a saved project's script and saves each one as a child
+ * project, so it can be edited and rendered like any other project.
+ */
+export async function createShorts(project: VideoProject): Promise<VideoProject[]> {
+  const { data, error } = await supabase.functions.invoke("create-shorts", {
+    body: {
+      package: parseGeneratedContent(project.generated_content),
+      topic: project.topic,
+      style: project.style,
+      targetAudience: project.target_audience,
+      language: project.language,
+    },
+  });
+
+  if (error) throw error;
+  if (data?.error) throw new Error(data.error);
+  if (!Array.isArray(data?.shorts) || data.shorts.length === 0) throw new Error("No Shorts returned");
+
+  const shorts: ProductionPackage[] = data.shorts;
+  const { data: children, error: saveError } = await supabase
+    .from("video_projects")
+    .insert(
+      shorts.map((short) => ({
+        user_id: project.user_id,
+        parent_project_id: project.id,
+        kind: "short",
+        language: project.language,
+        title: short.title.slice(0, 100),
+        topic: project.topic,
+        video_length: SHORT_VIDEO_LENGTH,
+        style: project.style,
+        target_audience: project.target_audience,
+        generated_content: serializePackage(short),
+        style_guide: project.style_guide,
+        channel_profile_id: project.channel_profile_id,
+      }))
+    )
+    .select();
+
+  if (saveError) throw saveError;
+  return children;
+}
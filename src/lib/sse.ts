@@ -0,0 +1,34 @@
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+/** Yields the events of a text/event-stream response body as they arrive. */
+export async function* readEventStream(response: Response): AsyncGenerator<ServerSentEvent> {
+  const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      buffer += value;
+
+      // Events are separated by a blank line
+      const frames = buffer.split("\n\n");
+      buffer = frames.pop() ?? "";
+      for (const frame of frames) {
+        let event = "message";
+        const data: string[] = [];
+        for (const line of frame.split("\n")) {
+          if (line.startsWith("event:")) event = line.slice(6).trim();
+          else if (line.startsWith("data:")) data.push(line.slice(5).trimStart());
+        }
+        if (data.length > 0) yield { event, data: data.join("\n") };
+      }
+    }
+  } finally {
+    // Stops the download if the consumer bails out early
+    reader.cancel().catch(() => undefined);
+  }
+}
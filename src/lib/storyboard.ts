@@ -0,0 +1,150 @@
+import { formatTimestamp, scenesForSegment, type ProductionPackage } from "@/lib/production-package";
+import type { SceneImage } from "@/lib/scene-images";
+import type { ImageOrientation } from "@/lib/video-formats";
+import { MIN_SCENE_SECONDS, type SceneData } from "@/lib/video-render";
+
+/** A scene as arranged before rendering: which segment it shows, and with what image. */
+export interface StoryboardScene {
+  /** Id of the visual scene the card was built from; unique within the storyboard. */
+  id: string;
+  /** Script segment the scene illustrates; a segment with several visuals has a card for each. */
+  segmentId: string;
+  /** Image prompt, starting out as the visual's description. */
+  prompt: string;
+  /** Generated images by orientation; cleared when the prompt changes. */
+  images: Partial<Record<ImageOrientation, SceneImage>>;
+  /** The user's own image, shown in every format instead of generated ones. */
+  upload: SceneImage | null;
+}
+
+const FALLBACK_PROMPT = "A professional video scene";
+
+// Longest side of uploaded images; the renderer never needs more
+const MAX_UPLOAD_SIZE = 1920;
+
+/** One card per visual linked to the segment, or a single card when it has none. */
+const cardsForSegment = (productionPackage: ProductionPackage, segmentId: string): StoryboardScene[] => {
+  const visuals = scenesForSegment(productionPackage, segmentId);
+  if (visuals.length === 0) {
+    return [{ id: `segment:${segmentId}`, segmentId, prompt: FALLBACK_PROMPT, images: {}, upload: null }];
+  }
+  return visuals.map((visual) => ({
+    id: visual.id,
+    segmentId,
+    prompt: visual.description || FALLBACK_PROMPT,
+    images: {},
+    upload: null,
+  }));
+};
+
+/** One scene per visual, in script order. */
+export function createStoryboard(productionPackage: ProductionPackage): StoryboardScene[] {
+  return productionPackage.segments.flatMap((segment) => cardsForSegment(productionPackage, segment.id));
+}
+
+/**
+ * Keeps the storyboard in step with an edited script: scenes whose segment
+ * is gone are dropped, and segments that weren't in `knownSegmentIds` get
+ * their scenes added after the last scene of the segment before them. Scenes
+ * the user deleted stay deleted.
+ */
+export function syncStoryboard(
+  storyboard: StoryboardScene[],
+  productionPackage: ProductionPackage,
+  knownSegmentIds: string[]
+): StoryboardScene[] {
+  const segmentIds = new Set(productionPackage.segments.map((segment) => segment.id));
+  const known = new Set(knownSegmentIds);
+  const next = storyboard.filter((scene) => segmentIds.has(scene.segmentId));
+
+  productionPackage.segments.forEach((segment, i) => {
+    if (known.has(segment.id)) return;
+    const previous = productionPackage.segments[i - 1];
+    const at = previous ? next.map((scene) => scene.segmentId).lastIndexOf(previous.id) + 1 : 0;
+    next.splice(at, 0, ...cardsForSegment(productionPackage, segment.id));
+  });
+  return next;
+}
+
+/**
+ * Splits narration into `parts` consecutive pieces of similar length: between
+ * sentences when there are enough of them, otherwise between words. Pieces
+ * are only empty when the text has fewer words than `parts`.
+ */
+export function splitNarration(text: string, parts: number): string[] {
+  if (parts <= 1) return [text];
+  const sentences = text.match(/[^.!?]+(?:[.!?]+["')\]]*|$)/g)?.map((sentence) => sentence.trim()).filter(Boolean) ?? [];
+  const units = sentences.length >= parts ? sentences : text.split(/\s+/).filter(Boolean);
+  const total = units.reduce((sum, unit) => sum + unit.length, 0);
+
+  const pieces: string[] = [];
+  let next = 0;
+  let length = 0;
+  for (let part = 0; part < parts; part++) {
+    const piece: string[] = [];
+    const target = (total * (part + 1)) / parts;
+    // Every later piece keeps at least one unit while there are enough to go round
+    const last = part === parts - 1 ? units.length : Math.max(next + 1, units.length - (parts - part - 1));
+    while (next < Math.min(last, units.length) && (piece.length === 0 || length + units[next].length / 2 <= target)) {
+      length += units[next].length;
+      piece.push(units[next++]);
+    }
+    pieces.push(piece.join(" "));
+  }
+  return pieces;
+}
+
+/**
+ * The storyboard as rendered, in storyboard order. A segment's narration is
+ * split between its scenes still on the storyboard, and each scene is held for
+ * its piece's share of the segment's span in the script timeline.
+ */
+export function storyboardScenes(storyboard: StoryboardScene[], productionPackage: ProductionPackage): SceneData[] {
+  const pieces = new Map<string, { text: string; start: number; duration: number }>();
+  for (const segment of productionPackage.segments) {
+    const cards = storyboard.filter((scene) => scene.segmentId === segment.id);
+    const texts = splitNarration(segment.text, cards.length);
+    const total = texts.reduce((sum, text) => sum + text.length, 0);
+    const span = Math.max(MIN_SCENE_SECONDS, segment.end - segment.start);
+    let start = segment.start;
+    cards.forEach((card, i) => {
+      const duration = total > 0 ? (span * texts[i].length) / total : span / cards.length;
+      pieces.set(card.id, { text: texts[i], start, duration });
+      start += duration;
+    });
+  }
+
+  return storyboard.flatMap((scene) => {
+    const piece = pieces.get(scene.id);
+    if (!piece) return [];
+    return [{
+      id: scene.id,
+      start: piece.start,
+      timestamp: formatTimestamp(piece.start),
+      text: piece.text,
+      visualDescription: scene.prompt,
+      duration: Math.max(MIN_SCENE_SECONDS, piece.duration),
+    }];
+  });
+}
+
+/** The image a scene is rendered with in the given orientation, if it has one yet. */
+export const storyboardImage = (scene: StoryboardScene, orientation: ImageOrientation) =>
+  scene.upload ?? scene.images[orientation] ?? null;
+
+/**
+ * Converts an uploaded image to a PNG data URL no larger than the renderer
+ * needs; scene images are always handed to FFmpeg as PNG.
+ */
+export async function uploadToSceneImage(file: File): Promise<SceneImage> {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, MAX_UPLOAD_SIZE / Math.max(bitmap.width, bitmap.height));
+
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  canvas.getContext("2d")!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  return { url: canvas.toDataURL("image/png") };
+}
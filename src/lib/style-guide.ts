@@ -0,0 +1,94 @@
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { ASSET_BUCKET } from "@/lib/assets";
+
+export interface StyleCharacter {
+  name: string;
+  /** Appearance, clothing, age, ...; repeated in every scene that mentions the name. */
+  description: string;
+}
+
+/** Project-wide look applied to every scene image; see supabase/functions/_shared/style-guide.ts. */
+export interface StyleGuide {
+  artStyle: string;
+  palette: string;
+  lighting: string;
+  characters: StyleCharacter[];
+  /** Path in the asset bucket of an image every scene should resemble. */
+  referenceImagePath: string | null;
+  negativePrompt: string;
+}
+
+export const EMPTY_STYLE_GUIDE: StyleGuide = {
+  artStyle: "",
+  palette: "",
+  lighting: "",
+  characters: [],
+  referenceImagePath: null,
+  negativePrompt: "",
+};
+
+const styleGuideSchema = z.object({
+  artStyle: z.string().default(""),
+  palette: z.string().default(""),
+  lighting: z.string().default(""),
+  characters: z.array(z.object({ name: z.string(), description: z.string().default("") })).default([]),
+  referenceImagePath: z.string().nullable().default(null),
+  negativePrompt: z.string().default(""),
+});
+
+export const isStyleGuideEmpty = (guide: StyleGuide) =>
+  !guide.artStyle.trim() &&
+  !guide.palette.trim() &&
+  !guide.lighting.trim() &&
+  !guide.characters.some((character) => character.name.trim()) &&
+  !guide.referenceImagePath &&
+  !guide.negativePrompt.trim();
+
+export function parseStyleGuide(value: unknown): StyleGuide {
+  const result = styleGuideSchema.safeParse(value ?? {});
+  if (!result.success) return EMPTY_STYLE_GUIDE;
+  const { artStyle, palette, lighting, characters, referenceImagePath, negativePrompt } = result.data;
+  return {
+    artStyle,
+    palette,
+    lighting,
+    characters: characters.map(({ name, description }) => ({ name, description })),
+    referenceImagePath,
+    negativePrompt,
+  };
+}
+
+/** The guide as sent to `generate-scene-images`, without characters left unnamed. */
+export const styleGuideForRequest = (guide: StyleGuide): StyleGuide | undefined =>
+  isStyleGuideEmpty(guide)
+    ? undefined
+    : { ...guide, characters: guide.characters.filter((character) => character.name.trim()) };
+
+export async function loadStyleGuide(projectId: string): Promise<StyleGuide> {
+  const { data, error } = await supabase.from("video_projects").select("style_guide").eq("id", projectId).single();
+  if (error) throw error;
+  return parseStyleGuide(data.style_guide);
+}
+
+export async function saveStyleGuide(projectId: string, guide: StyleGuide) {
+  const { error } = await supabase
+    .from("video_projects")
+    .update({ style_guide: guide as unknown as Json })
+    .eq("id", projectId);
+  if (error) throw error;
+}
+
+/** Stores a reference image (already converted to PNG) in the user's asset folder and returns its path. */
+export async function uploadReferenceImage(image: Blob): Promise<string> {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) throw new Error("You must be logged in to upload a reference image");
+
+  const path = `${user.id}/style-references/${crypto.randomUUID()}.png`;
+  const { error } = await supabase.storage.from(ASSET_BUCKET).upload(path, image, { contentType: "image/png" });
+  if (error) throw new Error(`Failed to upload the reference image: ${error.message}`);
+  return path;
+}
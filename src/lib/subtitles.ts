@@ -0,0 +1,150 @@
+import type { VideoFormat } from "@/lib/video-formats";
+import type { SceneData } from "@/lib/video-render";
+
+export type SubtitlePosition = "bottom" | "middle" | "top";
+
+export interface SubtitleSettings {
+  /** Render captions into the video frames in addition to the sidecar files. */
+  burnIn: boolean;
+  font: string;
+  /** Font size in libass script units (the video is 288 units tall). */
+  fontSize: number;
+  position: SubtitlePosition;
+  /** Wrap caption lines at this many characters. */
+  maxLineLength: number;
+  /** Hex color of the outline around the white caption text. */
+  outlineColor: string;
+}
+
+export interface SubtitleCue {
+  start: number;
+  end: number;
+  lines: string[];
+}
+
+// Open-licensed fonts served from public/fonts, since FFmpeg.wasm has no system fonts
+export const SUBTITLE_FONTS: Record<string, string> = {
+  "Open Sans": "/fonts/OpenSans-Regular.ttf",
+  Montserrat: "/fonts/Montserrat-Regular.ttf",
+  "Bebas Neue": "/fonts/BebasNeue-Regular.ttf",
+  Lora: "/fonts/Lora-Regular.ttf",
+  // Scripts the fonts above don't cover, picked by default for those languages
+  "Noto Sans Arabic": "/fonts/NotoSansArabic-Regular.ttf",
+  "Noto Sans Devanagari": "/fonts/NotoSansDevanagari-Regular.ttf",
+  "Noto Sans JP": "/fonts/NotoSansJP-Regular.ttf",
+  "Noto Sans KR": "/fonts/NotoSansKR-Regular.ttf",
+  "Noto Sans SC": "/fonts/NotoSansSC-Regular.ttf",
+};
+
+export const DEFAULT_SUBTITLES: SubtitleSettings = {
+  burnIn: false,
+  font: "Open Sans",
+  fontSize: 18,
+  position: "bottom",
+  maxLineLength: 42,
+  outlineColor: "#000000",
+};
+
+// Two lines per cue is the usual broadcast limit
+const LINES_PER_CUE = 2;
+
+function wrapText(text: string, maxLineLength: number): string[] {
+  const lines: string[] = [];
+  let current = "";
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (current && current.length + 1 + word.length > maxLineLength) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = current ? `${current} ${word}` : word;
+    }
+  }
+  if (current) lines.push(current);
+  return lines;
+}
+
+/**
+ * Splits every scene's text into cues of at most two wrapped lines, sharing
+ * the scene's time between them in proportion to their length.
+ */
+export function buildCues(scenes: SceneData[], durations: number[], maxLineLength: number): SubtitleCue[] {
+  const cues: SubtitleCue[] = [];
+  let sceneStart = 0;
+
+  scenes.forEach((scene, i) => {
+    const lines = wrapText(scene.text, maxLineLength);
+    const groups: string[][] = [];
+    for (let j = 0; j < lines.length; j += LINES_PER_CUE) {
+      groups.push(lines.slice(j, j + LINES_PER_CUE));
+    }
+
+    const totalChars = groups.reduce((sum, group) => sum + group.join(" ").length, 0);
+    let start = sceneStart;
+    groups.forEach((group) => {
+      const end = start + (durations[i] * group.join(" ").length) / totalChars;
+      cues.push({ start, end, lines: group });
+      start = end;
+    });
+
+    sceneStart += durations[i];
+  });
+
+  return cues;
+}
+
+function formatCueTime(seconds: number, separator: string): string {
+  const totalMs = Math.round(seconds * 1000);
+  const pad = (value: number, length = 2) => String(value).padStart(length, "0");
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(totalMs % 1000, 3)}`;
+}
+
+export function toSrt(cues: SubtitleCue[]): string {
+  return cues
+    .map(
+      (cue, i) =>
+        `${i + 1}\n${formatCueTime(cue.start, ",")} --> ${formatCueTime(cue.end, ",")}\n${cue.lines.join("\n")}\n`
+    )
+    .join("\n");
+}
+
+export function toVtt(cues: SubtitleCue[]): string {
+  const body = cues
+    .map((cue) => `${formatCueTime(cue.start, ".")} --> ${formatCueTime(cue.end, ".")}\n${cue.lines.join("\n")}\n`)
+    .join("\n");
+  return `WEBVTT\n\n${body}`;
+}
+
+const ALIGNMENT: Record<SubtitlePosition, number> = { bottom: 2, middle: 5, top: 8 };
+
+/** Caption line length for a format, never wider than the frame allows. */
+export const captionLineLength = (settings: SubtitleSettings, format: VideoFormat) =>
+  Math.min(settings.maxLineLength, format.caption.maxLineLength);
+
+/** A `#rrggbb` color in libass's `&HAABBGGRR` notation, fully opaque. */
+function assColor(hex: string): string {
+  const match = hex.match(/^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i);
+  if (!match) return "&H00000000";
+  const [, r, g, b] = match;
+  return `&H00${b}${g}${r}`.toUpperCase();
+}
+
+/** libass `force_style` overrides for the `subtitles` filter, laid out for the format's frame. */
+export function subtitleForceStyle(
+  { font, fontSize, position, outlineColor }: SubtitleSettings,
+  format: VideoFormat
+): string {
+  return [
+    `FontName=${font}`,
+    `FontSize=${Math.round(fontSize * format.caption.scale)}`,
+    "PrimaryColour=&H00FFFFFF",
+    `OutlineColour=${assColor(outlineColor)}`,
+    "BorderStyle=1",
+    "Outline=1.5",
+    "Shadow=0",
+    `Alignment=${ALIGNMENT[position]}`,
+    `MarginV=${format.caption.marginV}`,
+  ].join(",");
+}
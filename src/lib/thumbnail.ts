@@ -0,0 +1,231 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { ThumbnailConcept } from "@/lib/production-package";
+import { ImageCreditsError, isPaymentError } from "@/lib/scene-images";
+import { SUBTITLE_FONTS } from "@/lib/subtitles";
+
+// YouTube's recommended thumbnail size and upload limit
+export const THUMBNAIL_WIDTH = 1280;
+export const THUMBNAIL_HEIGHT = 720;
+export const MAX_THUMBNAIL_BYTES = 2 * 1024 * 1024;
+
+export const THUMBNAIL_VARIANTS = 3;
+
+export const THUMBNAIL_FONTS: Record<string, string> = {
+  ...SUBTITLE_FONTS,
+  Anton: "/fonts/Anton-Regular.ttf",
+};
+
+export type ThumbnailTextPosition = "top" | "center" | "bottom";
+export type ThumbnailTextAlign = "left" | "center" | "right";
+export type ThumbnailFileType = "png" | "jpeg";
+
+/** The headline drawn over the background. Sizes are in thumbnail pixels. */
+export interface ThumbnailText {
+  text: string;
+  font: string;
+  fontSize: number;
+  color: string;
+  strokeColor: string;
+  strokeWidth: number;
+  shadow: boolean;
+  position: ThumbnailTextPosition;
+  align: ThumbnailTextAlign;
+}
+
+export const DEFAULT_THUMBNAIL_TEXT: ThumbnailText = {
+  text: "",
+  font: "Anton",
+  fontSize: 110,
+  color: "#ffffff",
+  strokeColor: "#000000",
+  strokeWidth: 10,
+  shadow: true,
+  position: "bottom",
+  align: "center",
+};
+
+export type ThumbnailBackgroundResult =
+  | { variant: number; status: "succeeded"; imageUrl: string; path: string }
+  | { variant: number; status: "failed"; error: string; statusCode?: number };
+
+/** The exported file is over YouTube's limit even at the lowest quality we try. */
+export class ThumbnailTooLargeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ThumbnailTooLargeError";
+  }
+}
+
+// Space kept clear between the headline and the frame's edges
+const MARGIN = 56;
+const LINE_HEIGHT = 1.1;
+// JPEG qualities tried, best first, until the file fits
+const JPEG_QUALITIES = [0.92, 0.85, 0.75, 0.65, 0.5];
+
+/** Generates background variants for the concept, without any text on them. */
+export async function generateThumbnailBackgrounds({
+  concept,
+  projectId,
+  variants = THUMBNAIL_VARIANTS,
+}: {
+  concept: ThumbnailConcept;
+  projectId?: string;
+  variants?: number;
+}): Promise<ThumbnailBackgroundResult[]> {
+  const { data, error } = await supabase.functions.invoke("generate-thumbnail", {
+    body: { concept, projectId, variants },
+  });
+
+  const message = error?.message || (typeof data?.error === "string" ? data.error : "");
+  if (message) {
+    if (isPaymentError(message)) throw new ImageCreditsError(message);
+    throw error || new Error(message);
+  }
+  if (!Array.isArray(data?.images)) throw new Error("Failed to generate thumbnails");
+  return data.images;
+}
+
+/** Loads an image for drawing; signed storage URLs need CORS so the canvas stays exportable. */
+export function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.crossOrigin = "anonymous";
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("Failed to load the thumbnail background"));
+    image.src = url;
+  });
+}
+
+const fontLoads = new Map<string, Promise<void>>();
+
+/** Makes one of THUMBNAIL_FONTS available to the canvas; other families are assumed loaded. */
+export function loadThumbnailFont(family: string): Promise<void> {
+  // Family names come from uploaded file names, so keys like "constructor" must not reach the prototype
+  if (!Object.hasOwn(THUMBNAIL_FONTS, family)) return Promise.resolve();
+  const url = THUMBNAIL_FONTS[family];
+
+  let load = fontLoads.get(family);
+  if (!load) {
+    load = new FontFace(family, `url(${url})`).load().then((face) => {
+      document.fonts.add(face);
+    });
+    load.catch(() => fontLoads.delete(family));
+    fontLoads.set(family, load);
+  }
+  return load;
+}
+
+/** Registers an uploaded brand font and resolves with its family name. */
+export async function loadFontFile(file: File): Promise<string> {
+  const family = file.name.replace(/\.[^.]+$/, "");
+  const face = await new FontFace(family, await file.arrayBuffer()).load();
+  document.fonts.add(face);
+  return family;
+}
+
+function wrapLines(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split("\n")) {
+    let line = "";
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && ctx.measureText(candidate).width > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+/**
+ * Draws the thumbnail at 1280x720: the background cropped to fill the frame
+ * (or a gradient of the concept's colors without one), then the headline.
+ */
+export function drawThumbnail(
+  canvas: HTMLCanvasElement,
+  background: HTMLImageElement | null,
+  text: ThumbnailText,
+  colors: string[] = []
+) {
+  canvas.width = THUMBNAIL_WIDTH;
+  canvas.height = THUMBNAIL_HEIGHT;
+  const ctx = canvas.getContext("2d")!;
+
+  if (background) {
+    const scale = Math.max(THUMBNAIL_WIDTH / background.naturalWidth, THUMBNAIL_HEIGHT / background.naturalHeight);
+    const width = background.naturalWidth * scale;
+    const height = background.naturalHeight * scale;
+    ctx.drawImage(background, (THUMBNAIL_WIDTH - width) / 2, (THUMBNAIL_HEIGHT - height) / 2, width, height);
+  } else {
+    const gradient = ctx.createLinearGradient(0, 0, THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT);
+    gradient.addColorStop(0, colors[0] ?? "#1e293b");
+    gradient.addColorStop(1, colors[1] ?? colors[0] ?? "#0f172a");
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT);
+  }
+
+  if (!text.text.trim()) return;
+
+  ctx.font = `${text.fontSize}px "${text.font}", sans-serif`;
+  ctx.textAlign = text.align;
+  ctx.textBaseline = "middle";
+  ctx.lineJoin = "round";
+
+  const lines = wrapLines(ctx, text.text.trim(), THUMBNAIL_WIDTH - MARGIN * 2);
+  const lineHeight = text.fontSize * LINE_HEIGHT;
+  const blockHeight = lines.length * lineHeight;
+  const top =
+    text.position === "top"
+      ? MARGIN
+      : text.position === "center"
+        ? (THUMBNAIL_HEIGHT - blockHeight) / 2
+        : THUMBNAIL_HEIGHT - MARGIN - blockHeight;
+  const x = text.align === "left" ? MARGIN : text.align === "right" ? THUMBNAIL_WIDTH - MARGIN : THUMBNAIL_WIDTH / 2;
+
+  lines.forEach((line, i) => {
+    const y = top + lineHeight * (i + 0.5);
+
+    // The shadow goes on the outline (or the fill without one), so it isn't drawn twice
+    ctx.shadowColor = text.shadow ? "rgba(0, 0, 0, 0.6)" : "transparent";
+    ctx.shadowBlur = text.shadow ? text.fontSize * 0.15 : 0;
+    ctx.shadowOffsetX = ctx.shadowOffsetY = text.shadow ? text.fontSize * 0.05 : 0;
+    if (text.strokeWidth > 0) {
+      ctx.strokeStyle = text.strokeColor;
+      ctx.lineWidth = text.strokeWidth * 2;
+      ctx.strokeText(line, x, y);
+      ctx.shadowColor = "transparent";
+    }
+    ctx.fillStyle = text.color;
+    ctx.fillText(line, x, y);
+  });
+}
+
+const toBlob = (canvas: HTMLCanvasElement, type: string, quality?: number) =>
+  new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Failed to export the thumbnail"))), type, quality)
+  );
+
+/**
+ * Exports the canvas as PNG or JPG under YouTube's 2 MB limit. JPGs are
+ * re-encoded at lower quality until they fit; a PNG that doesn't fit can
+ * only be exported as JPG.
+ */
+export async function exportThumbnail(canvas: HTMLCanvasElement, type: ThumbnailFileType): Promise<Blob> {
+  if (type === "png") {
+    const blob = await toBlob(canvas, "image/png");
+    if (blob.size > MAX_THUMBNAIL_BYTES) {
+      throw new ThumbnailTooLargeError("The PNG is over YouTube's 2 MB limit. Export it as JPG instead.");
+    }
+    return blob;
+  }
+
+  for (const quality of JPEG_QUALITIES) {
+    const blob = await toBlob(canvas, "image/jpeg", quality);
+    if (blob.size <= MAX_THUMBNAIL_BYTES) return blob;
+  }
+  throw new ThumbnailTooLargeError("The thumbnail is over YouTube's 2 MB limit even at low quality.");
+}
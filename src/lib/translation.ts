@@ -0,0 +1,49 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { parseGeneratedContent, serializePackage, type ProductionPackage } from "@/lib/production-package";
+
+type VideoProject = Tables<"video_projects">;
+
+/**
+ * Translates a saved project, keeping its timestamps and scenes, and saves the
+ * translation as a child project so it can be rendered with its own narration
+ * and captions.
+ */
+export async function translateProject(project: VideoProject, language: string): Promise<VideoProject> {
+  const { data, error } = await supabase.functions.invoke("translate-project", {
+    body: {
+      package: parseGeneratedContent(project.generated_content),
+      language,
+      sourceLanguage: project.language,
+      topic: project.topic,
+      style: project.style,
+      targetAudience: project.target_audience,
+    },
+  });
+
+  if (error) throw error;
+  if (data?.error) throw new Error(data.error);
+
+  const translation: ProductionPackage = data.package;
+  const { data: child, error: saveError } = await supabase
+    .from("video_projects")
+    .insert({
+      user_id: project.user_id,
+      parent_project_id: project.id,
+      kind: "translation",
+      language,
+      title: (translation.title || project.title).slice(0, 100),
+      topic: project.topic,
+      video_length: project.video_length,
+      style: project.style,
+      target_audience: project.target_audience,
+      generated_content: serializePackage(translation),
+      style_guide: project.style_guide,
+      channel_profile_id: project.channel_profile_id,
+    })
+    .select()
+    .single();
+
+  if (saveError) throw saveError;
+  return child;
+}
@@ -0,0 +1,68 @@
+export type AspectRatio = "16:9" | "9:16" | "1:1" | "4:5";
+
+/** Image generators only offer a few shapes; each format renders from the closest one. */
+export type ImageOrientation = "landscape" | "portrait" | "square";
+
+/** How a scene image that doesn't match the frame is fitted into it. */
+export type FrameFit = "crop" | "pad";
+
+export interface VideoFormat {
+  id: AspectRatio;
+  label: string;
+  description: string;
+  width: number;
+  height: number;
+  orientation: ImageOrientation;
+  caption: {
+    /** Multiplier for the caption font size, smaller on narrow frames. */
+    scale: number;
+    /** Upper bound on caption line length so lines fit the frame width. */
+    maxLineLength: number;
+    /** Bottom/top margin in libass units, clearing platform UI overlays. */
+    marginV: number;
+  };
+}
+
+export const VIDEO_FORMATS: Record<AspectRatio, VideoFormat> = {
+  "16:9": {
+    id: "16:9",
+    label: "16:9",
+    description: "Landscape (YouTube)",
+    width: 1280,
+    height: 720,
+    orientation: "landscape",
+    caption: { scale: 1, maxLineLength: 60, marginV: 18 },
+  },
+  "9:16": {
+    id: "9:16",
+    label: "9:16",
+    description: "Vertical (Shorts, Reels, TikTok)",
+    width: 720,
+    height: 1280,
+    orientation: "portrait",
+    caption: { scale: 0.6, maxLineLength: 26, marginV: 48 },
+  },
+  "1:1": {
+    id: "1:1",
+    label: "1:1",
+    description: "Square (feeds)",
+    width: 1080,
+    height: 1080,
+    orientation: "square",
+    caption: { scale: 0.8, maxLineLength: 36, marginV: 24 },
+  },
+  "4:5": {
+    id: "4:5",
+    label: "4:5",
+    description: "Portrait (Instagram feed)",
+    width: 1080,
+    height: 1350,
+    orientation: "portrait",
+    caption: { scale: 0.75, maxLineLength: 32, marginV: 28 },
+  },
+};
+
+export const DEFAULT_FORMATS: AspectRatio[] = ["16:9"];
+
+/** File-name friendly form of an aspect ratio, e.g. `9x16`. */
+export const formatSlug = (id: AspectRatio) => id.replace(":", "x");
@@ -0,0 +1,281 @@
+import type { NarrationClip } from "@/lib/narration";
+import type { FrameFit } from "@/lib/video-formats";
+import type { MusicMixSettings } from "@/lib/music";
+import { isStaticSlideshow, xfadeTransition, zoompanOptions, type SceneEffects } from "@/lib/scene-effects";
+
+export interface SceneData {
+  /** Id of the script segment the scene was built from. */
+  id: string;
+  /** Where the segment starts in the script timeline, in seconds. */
+  start: number;
+  timestamp: string;
+  text: string;
+  visualDescription: string;
+  /** Seconds the scene stays on screen. */
+  duration: number;
+}
+
+export const OUTPUT_FPS = 30;
+
+// Breathing room after each narration clip before the next scene starts
+export const NARRATION_PADDING_SECONDS = 0.4;
+
+export const MIN_SCENE_SECONDS = 1;
+
+/**
+ * How long a scene is held on screen. A user override always wins; otherwise
+ * the scene keeps its script timestamp span, stretched if its narration clip
+ * would not fit.
+ */
+export function resolveSceneDuration(scene: SceneData, override?: number, narration?: NarrationClip): number {
+  if (override && override > 0) return Math.max(MIN_SCENE_SECONDS, override);
+  const narrated = narration ? narration.duration + NARRATION_PADDING_SECONDS : 0;
+  return Math.max(MIN_SCENE_SECONDS, scene.duration, narrated);
+}
+
+/**
+ * Maps a point in the script timeline onto the rendered video, whose scenes
+ * may run longer or shorter than their script spans.
+ */
+export function scriptTimeToRenderTime(seconds: number, scenes: SceneData[], durations: number[]): number {
+  // Scenes may be reordered or removed in the storyboard, so find the time by script position
+  const renderStarts = durations.map((_, i) => durations.slice(0, i).reduce((sum, d) => sum + d, 0));
+  const containing = scenes.findIndex(({ start, duration }) => seconds >= start && seconds < start + duration);
+  if (containing >= 0) {
+    const { start, duration } = scenes[containing];
+    return renderStarts[containing] + ((seconds - start) / duration) * durations[containing];
+  }
+
+  // Before the first scene or inside a removed one: the next scene in the script
+  let next = -1;
+  scenes.forEach(({ start }, i) => {
+    if (start >= seconds && (next < 0 || start < scenes[next].start)) next = i;
+  });
+  return next >= 0 ? renderStarts[next] : durations.reduce((sum, d) => sum + d, 0);
+}
+
+export const audioFileName = (index: number, clip: NarrationClip) =>
+  `narration${index}.${clip.mimeType === "audio/wav" ? "wav" : "mp3"}`;
+
+/**
+ * Concat demuxer script giving every image its own duration. The last file
+ * is listed twice because the demuxer ignores the final entry's duration.
+ */
+export function buildConcatList(imageFiles: string[], durations: number[]): string {
+  const entries = imageFiles.map((file, i) => `file '${file}'\nduration ${durations[i].toFixed(3)}`);
+  return [...entries, `file '${imageFiles[imageFiles.length - 1]}'`].join("\n") + "\n";
+}
+
+/** A music file playing under part of the rendered video, in render seconds. */
+export interface MusicBed {
+  file: string;
+  start: number;
+  end: number;
+}
+
+// Longest a transition may run; shortened for brief scenes so each still shows on its own
+export const TRANSITION_SECONDS = 0.6;
+
+// Logo watermark width and inset from the top-right corner, as fractions of the frame's shorter side
+const WATERMARK_SIZE = 0.15;
+const WATERMARK_MARGIN = 0.04;
+const WATERMARK_OPACITY = 0.85;
+
+interface RenderArgsOptions {
+  /** Concat script from `buildConcatList`, used when no scene moves or blends. */
+  concatFile: string;
+  /** One image per scene, used as separate inputs when scenes move or blend. */
+  imageFiles: string[];
+  durations: number[];
+  effects: SceneEffects[];
+  /** One narration file per scene, or none for a silent video. */
+  narrationFiles: string[];
+  music: MusicBed[];
+  musicMix: Pick<MusicMixSettings, "volume" | "ducking" | "fadeSeconds" | "loudnessTarget">;
+  /** Output frame; scene images are scaled and cropped or padded to fill it. */
+  frame: { width: number; height: number; fit: FrameFit };
+  /** Captions to burn into the frames with the `subtitles` filter. */
+  subtitles?: { file: string; fontsDir: string; forceStyle: string };
+  /** Logo image overlaid in the top-right corner of every frame. */
+  watermark?: { file: string };
+  output: string;
+}
+
+function fitFilters(width: number, height: number, fit: FrameFit): string[] {
+  return fit === "crop"
+    ? [`scale=${width}:${height}:force_original_aspect_ratio=increase`, `crop=${width}:${height}`]
+    : [
+        `scale=${width}:${height}:force_original_aspect_ratio=decrease`,
+        `pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2:color=black`,
+      ];
+}
+
+/**
+ * Filters that animate every scene with `zoompan` and join them with `xfade`
+ * (or `concat` for hard cuts), ending in `[scenes]`. A scene followed by a
+ * transition runs that much longer so the next one still starts on time and
+ * the total length stays the sum of `durations`.
+ */
+function animatedSceneFilters(
+  durations: number[],
+  effects: SceneEffects[],
+  { width, height, fit }: RenderArgsOptions["frame"]
+): string[] {
+  const filters: string[] = [];
+  const overlaps = durations.map((duration, i) => {
+    const next = durations[i + 1];
+    if (next === undefined || !xfadeTransition(effects[i + 1].transition)) return 0;
+    return Math.min(TRANSITION_SECONDS, duration / 2, next / 2);
+  });
+
+  durations.forEach((duration, i) => {
+    const frames = Math.round((duration + overlaps[i]) * OUTPUT_FPS);
+    // Fit at twice the output size so zoompan's pixel rounding doesn't jitter
+    filters.push(
+      `[${i}:v]${fitFilters(width * 2, height * 2, fit).join(",")},` +
+        `zoompan=${zoompanOptions(effects[i].motion, frames)}:d=${frames}:s=${width}x${height}:fps=${OUTPUT_FPS},` +
+        `setsar=1,format=yuv420p[s${i}]`
+    );
+  });
+
+  let current = "[s0]";
+  let length = durations[0] + overlaps[0];
+  for (let i = 1; i < durations.length; i++) {
+    const label = i === durations.length - 1 ? "[scenes]" : `[x${i}]`;
+    const transition = xfadeTransition(effects[i].transition);
+    const overlap = overlaps[i - 1];
+    if (transition) {
+      filters.push(
+        `${current}[s${i}]xfade=transition=${transition}:duration=${overlap.toFixed(3)}:offset=${(length - overlap).toFixed(3)}${label}`
+      );
+      length -= overlap;
+    } else {
+      filters.push(`${current}[s${i}]concat=n=2:v=1:a=0${label}`);
+    }
+    length += durations[i] + overlaps[i];
+    current = label;
+  }
+  if (durations.length === 1) filters.push("[s0]null[scenes]");
+
+  return filters;
+}
+
+// Shared sample format so narration and music can be mixed and compressed together
+const AUDIO_FORMAT = "aresample=44100,aformat=sample_fmts=fltp:channel_layouts=stereo";
+
+/**
+ * Filters that build the soundtrack and end in `[a]`: the narration clips
+ * joined scene by scene, music beds faded in and out at their ranges and
+ * ducked under the narration, then the whole mix normalized to the loudness
+ * target.
+ */
+function audioFilters(
+  durations: number[],
+  narrationInputs: number[],
+  musicInputs: number[],
+  { music, musicMix }: RenderArgsOptions
+): string[] {
+  const filters: string[] = [];
+  const totalDuration = durations.reduce((sum, d) => sum + d, 0);
+
+  if (narrationInputs.length > 0) {
+    // Pad (or trim) every clip to its scene's length, then join them into one track
+    narrationInputs.forEach((input, i) => {
+      filters.push(
+        `[${input}:a]${AUDIO_FORMAT},apad=whole_dur=${durations[i].toFixed(3)},atrim=end=${durations[i].toFixed(3)}[n${i}]`
+      );
+    });
+    filters.push(`${narrationInputs.map((_, i) => `[n${i}]`).join("")}concat=n=${narrationInputs.length}:v=0:a=1[narration]`);
+  }
+
+  if (musicInputs.length > 0) {
+    musicInputs.forEach((input, i) => {
+      const { start, end } = music[i];
+      const length = end - start;
+      const fade = Math.min(musicMix.fadeSeconds, length / 2);
+      const delay = Math.round(start * 1000);
+      filters.push(
+        `[${input}:a]${AUDIO_FORMAT},atrim=end=${length.toFixed(3)},asetpts=PTS-STARTPTS,` +
+          `afade=t=in:d=${fade.toFixed(3)},afade=t=out:st=${(length - fade).toFixed(3)}:d=${fade.toFixed(3)},` +
+          `volume=${musicMix.volume.toFixed(3)},adelay=${delay}|${delay}[m${i}]`
+      );
+    });
+    filters.push(
+      `${musicInputs.map((_, i) => `[m${i}]`).join("")}amix=inputs=${musicInputs.length}:duration=longest:normalize=0,` +
+        `apad=whole_dur=${totalDuration.toFixed(3)}[bed]`
+    );
+  }
+
+  let mix: string;
+  if (narrationInputs.length > 0 && musicInputs.length > 0) {
+    if (musicMix.ducking) {
+      filters.push("[narration]asplit=2[voice][key]");
+      filters.push("[bed][key]sidechaincompress=threshold=0.02:ratio=8:attack=20:release=400[ducked]");
+      filters.push("[voice][ducked]amix=inputs=2:duration=first:normalize=0[mix]");
+    } else {
+      filters.push("[narration][bed]amix=inputs=2:duration=first:normalize=0[mix]");
+    }
+    mix = "[mix]";
+  } else {
+    mix = narrationInputs.length > 0 ? "[narration]" : "[bed]";
+  }
+
+  filters.push(`${mix}loudnorm=I=${musicMix.loudnessTarget}:TP=-1.5:LRA=11,aresample=44100[a]`);
+  return filters;
+}
+
+export function buildRenderArgs(options: RenderArgsOptions): string[] {
+  const { concatFile, imageFiles, durations, effects, narrationFiles, music, frame, subtitles, watermark, output } =
+    options;
+  const totalDuration = durations.reduce((sum, d) => sum + d, 0);
+  const animated = !isStaticSlideshow(effects);
+
+  const args = animated ? imageFiles.flatMap((file) => ["-i", file]) : ["-f", "concat", "-safe", "0", "-i", concatFile];
+  let nextInput = animated ? imageFiles.length : 1;
+  const narrationInputs = narrationFiles.map(() => nextInput++);
+  narrationFiles.forEach((file) => args.push("-i", file));
+  // Music loops so a short track can cover a long range; atrim cuts it to length
+  const musicInputs = music.map(() => nextInput++);
+  music.forEach(({ file }) => args.push("-stream_loop", "-1", "-i", file));
+  const watermarkInput = watermark ? nextInput++ : -1;
+  if (watermark) args.push("-i", watermark.file);
+
+  const filters = animated
+    ? animatedSceneFilters(durations, effects, frame)
+    : [`[0:v]${[...fitFilters(frame.width, frame.height, frame.fit), "setsar=1", `fps=${OUTPUT_FPS}`].join(",")}[scenes]`];
+
+  // Captions go after scaling so libass lays them out at the output size
+  const videoChain = ["format=yuv420p"];
+  if (subtitles) {
+    // Quoted so the commas in force_style don't split the filter chain
+    videoChain.push(
+      `subtitles=filename=${subtitles.file}:fontsdir=${subtitles.fontsDir}:force_style='${subtitles.forceStyle}'`
+    );
+  }
+  let scenes = "[scenes]";
+  if (watermark) {
+    // A single image ends after one frame; overlay keeps repeating it to the end
+    const shortSide = Math.min(frame.width, frame.height);
+    const margin = Math.round(shortSide * WATERMARK_MARGIN);
+    filters.push(
+      `[${watermarkInput}:v]scale=${Math.round(shortSide * WATERMARK_SIZE)}:-1,format=rgba,` +
+        `colorchannelmixer=aa=${WATERMARK_OPACITY}[logo]`,
+      `[scenes][logo]overlay=W-w-${margin}:${margin}[branded]`
+    );
+    scenes = "[branded]";
+  }
+  filters.push(`${scenes}${videoChain.join(",")}[v]`);
+
+  const hasAudio = narrationInputs.length > 0 || musicInputs.length > 0;
+  if (hasAudio) {
+    filters.push(...audioFilters(durations, narrationInputs, musicInputs, options));
+  }
+
+  args.push("-filter_complex", filters.join(";"), "-map", "[v]");
+  if (hasAudio) {
+    args.push("-map", "[a]", "-c:a", "aac", "-b:a", "192k");
+  }
+
+  args.push("-c:v", "libx264", "-pix_fmt", "yuv420p", "-t", totalDuration.toFixed(3), output);
+  return args;
+}
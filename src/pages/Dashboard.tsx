@@ -1,18 +1,35 @@
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
-import { LogOut, Plus, Trash2, Eye, Film } from "lucide-react";
+import { LogOut, Plus, Trash2, Eye, Film, History, Clapperboard, Scissors, Loader2, Smartphone, Languages } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import type { User } from "@supabase/supabase-js";
+import type { Tables } from "@/integrations/supabase/types";
 import { VideoContent } from "@/components/VideoContent";
+import { ProjectHistory } from "@/components/ProjectHistory";
+import { ProjectRenders } from "@/components/ProjectRenders";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { parseGeneratedContent, serializePackage } from "@/lib/production-package";
+import { SHORT_FORMATS, createShorts } from "@/lib/shorts";
+import { LANGUAGES, DEFAULT_LANGUAGE, languageName } from "@/lib/languages";
+import { translateProject } from "@/lib/translation";
+import { listChannelProfiles, profileForRequest, type ChannelProfile } from "@/lib/channel-profiles";
 import {
   Dialog,
   DialogContent,
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -24,16 +41,7 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 
-interface VideoProject {
-  id: string;
-  title: string;
-  topic: string;
-  video_length: string;
-  style: string;
-  target_audience: string;
-  generated_content: string;
-  created_at: string;
-}
+type VideoProject = Tables<"video_projects">;
 
 const Dashboard = () => {
   const navigate = useNavigate();
@@ -42,6 +50,23 @@ const Dashboard = () => {
   const [loading, setLoading] = useState(true);
   const [selectedProject, setSelectedProject] = useState<VideoProject | null>(null);
   const [deleteProject, setDeleteProject] = useState<VideoProject | null>(null);
+  const [creatingShortsFor, setCreatingShortsFor] = useState<string | null>(null);
+  const [translatingFor, setTranslatingFor] = useState<string | null>(null);
+  const [channelProfiles, setChannelProfiles] = useState<ChannelProfile[]>([]);
+
+  // Shorts and translations are listed under the project they were made from
+  const topLevelProjects = projects.filter(p => !p.parent_project_id);
+  const childrenOf = (projectId: string) => projects.filter(p => p.parent_project_id === projectId);
+  const shortsOf = (projectId: string) => childrenOf(projectId).filter(p => p.kind === "short");
+  const translationsOf = (projectId: string) => childrenOf(projectId).filter(p => p.kind === "translation");
+  const parentOf = (project: VideoProject) => projects.find(p => p.id === project.parent_project_id);
+  const selectedProfile = channelProfiles.find(p => p.id === selectedProject?.channel_profile_id);
+  // The video generator follows the package by identity, so only parse it again when the content changes
+  const selectedContent = selectedProject?.generated_content;
+  const selectedPackage = useMemo(
+    () => (selectedContent === undefined ? null : parseGeneratedContent(selectedContent)),
+    [selectedContent]
+  );
 
   useEffect(() => {
     supabase.auth.getSession().then(({ data: { session } }) => {
@@ -81,6 +106,11 @@ const Dashboard = () => {
     } finally {
       setLoading(false);
     }
+
+    // Only needed to brand renders, so a failure here doesn't block the dashboard
+    listChannelProfiles()
+      .then(setChannelProfiles)
+      .catch((error) => console.error("Error loading channel profiles:", error));
   };
 
   const handleLogout = async () => {
@@ -93,6 +123,13 @@ const Dashboard = () => {
     }
   };
 
+  const handleContentChange = (generatedContent: string) => {
+    if (!selectedProject) return;
+    const updated = { ...selectedProject, generated_content: generatedContent };
+    setSelectedProject(updated);
+    setProjects(projects.map(p => p.id === updated.id ? updated : p));
+  };
+
   const handleDelete = async () => {
     if (!deleteProject) return;
 
@@ -104,7 +141,8 @@ const Dashboard = () => {
 
       if (error) throw error;
 
-      setProjects(projects.filter(p => p.id !== deleteProject.id));
+      // Its Shorts and translations are deleted with it
+      setProjects(projects.filter(p => p.id !== deleteProject.id && p.parent_project_id !== deleteProject.id));
       toast.success("Project deleted successfully");
       setDeleteProject(null);
     } catch (error) {
@@ -113,6 +151,61 @@ const Dashboard = () => {
     }
   };
 
+  const handleCreateShorts = async (project: VideoProject) => {
+    setCreatingShortsFor(project.id);
+    try {
+      const shorts = await createShorts(project);
+      setProjects(current => [...shorts, ...current]);
+      toast.success(`Created ${shorts.length} Shorts from "${project.title}"`);
+    } catch (error) {
+      console.error("Error creating Shorts:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to create Shorts");
+    } finally {
+      setCreatingShortsFor(null);
+    }
+  };
+
+  const handleTranslate = async (project: VideoProject, language: string) => {
+    setTranslatingFor(project.id);
+    try {
+      const translation = await translateProject(project, language);
+      setProjects(current => [translation, ...current]);
+      toast.success(`Translated "${project.title}" into ${languageName(language)}`);
+    } catch (error) {
+      console.error("Error translating project:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to translate project");
+    } finally {
+      setTranslatingFor(null);
+    }
+  };
+
+  // Languages the project isn't available in yet
+  const untranslatedLanguages = (project: VideoProject) => {
+    const done = new Set([project.language, ...translationsOf(project.id).map(p => p.language)]);
+    return LANGUAGES.filter(({ code }) => !done.has(code));
+  };
+
+  const renderChildProjects = (children: VideoProject[], describe: (child: VideoProject) => string) =>
+    children.map((child) => (
+      <div key={child.id} className="flex items-center justify-between gap-4 rounded-lg border border-border p-3">
+        <div className="min-w-0">
+          <p className="font-medium truncate">{child.title}</p>
+          <p className="text-xs text-muted-foreground">
+            {describe(child)} · Created {new Date(child.created_at).toLocaleDateString()}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => setSelectedProject(child)}>
+            <Eye className="w-4 h-4 mr-2" />
+            View
+          </Button>
+          <Button variant="outline" size="icon" className="h-9 w-9" onClick={() => setDeleteProject(child)}>
+            <Trash2 className="w-4 h-4 text-destructive" />
+          </Button>
+        </div>
+      </div>
+    ));
+
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
@@ -153,7 +246,7 @@ const Dashboard = () => {
           <div className="flex items-center justify-center py-20">
             <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary" />
           </div>
-        ) : projects.length === 0 ? (
+        ) : topLevelProjects.length === 0 ? (
           <Card className="p-12 text-center">
             <Film className="w-16 h-16 text-muted-foreground/50 mx-auto mb-4" />
             <h3 className="text-xl font-semibold mb-2">No projects yet</h3>
@@ -170,7 +263,7 @@ const Dashboard = () => {
           </Card>
         ) : (
           <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {projects.map((project) => (
+            {topLevelProjects.map((project) => (
               <Card key={project.id} className="p-6 hover:border-primary/50 transition-colors">
                 <div className="mb-4">
                   <h3 className="text-lg font-semibold mb-2 line-clamp-2">
@@ -188,6 +281,21 @@ const Dashboard = () => {
                   <span className="text-xs px-2 py-1 bg-secondary/10 text-secondary rounded">
                     {project.style}
                   </span>
+                  {project.language !== DEFAULT_LANGUAGE && (
+                    <span className="text-xs px-2 py-1 bg-muted text-muted-foreground rounded">
+                      {languageName(project.language)}
+                    </span>
+                  )}
+                  {shortsOf(project.id).length > 0 && (
+                    <span className="text-xs px-2 py-1 bg-muted text-muted-foreground rounded">
+                      {shortsOf(project.id).length} Shorts
+                    </span>
+                  )}
+                  {translationsOf(project.id).length > 0 && (
+                    <span className="text-xs px-2 py-1 bg-muted text-muted-foreground rounded">
+                      {translationsOf(project.id).length} translations
+                    </span>
+                  )}
                 </div>
 
                 <div className="text-xs text-muted-foreground mb-4">
@@ -203,6 +311,46 @@ const Dashboard = () => {
                     <Eye className="w-4 h-4 mr-2" />
                     View
                   </Button>
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => handleCreateShorts(project)}
+                    disabled={creatingShortsFor !== null}
+                    title="Create Shorts"
+                    aria-label="Create Shorts"
+                  >
+                    {creatingShortsFor === project.id ? (
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                    ) : (
+                      <Scissors className="w-4 h-4" />
+                    )}
+                  </Button>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        disabled={translatingFor !== null || untranslatedLanguages(project).length === 0}
+                        title="Translate"
+                        aria-label="Translate"
+                      >
+                        {translatingFor === project.id ? (
+                          <Loader2 className="w-4 h-4 animate-spin" />
+                        ) : (
+                          <Languages className="w-4 h-4" />
+                        )}
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end" className="max-h-72 overflow-y-auto">
+                      <DropdownMenuLabel>Translate into</DropdownMenuLabel>
+                      <DropdownMenuSeparator />
+                      {untranslatedLanguages(project).map(({ code, name }) => (
+                        <DropdownMenuItem key={code} onSelect={() => handleTranslate(project, code)}>
+                          {name}
+                        </DropdownMenuItem>
+                      ))}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
                   <Button
                     variant="outline"
                     size="icon"
@@ -222,9 +370,79 @@ const Dashboard = () => {
         <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>{selectedProject?.title}</DialogTitle>
+            {selectedProject && parentOf(selectedProject) && (
+              <p className="text-sm text-muted-foreground">
+                {selectedProject.kind === "translation"
+                  ? `${languageName(selectedProject.language)} translation of `
+                  : "Short cut from "}
+                <button
+                  className="underline hover:text-foreground"
+                  onClick={() => setSelectedProject(parentOf(selectedProject) ?? null)}
+                >
+                  {parentOf(selectedProject)?.title}
+                </button>
+              </p>
+            )}
           </DialogHeader>
           {selectedProject && (
-            <VideoContent content={selectedProject.generated_content} />
+            <Tabs key={selectedProject.id} defaultValue="content">
+              <TabsList className="mb-4">
+                <TabsTrigger value="content">Content</TabsTrigger>
+                <TabsTrigger value="history" className="flex items-center gap-2">
+                  <History className="w-4 h-4" />
+                  History
+                </TabsTrigger>
+                <TabsTrigger value="renders" className="flex items-center gap-2">
+                  <Clapperboard className="w-4 h-4" />
+                  Renders
+                </TabsTrigger>
+                {shortsOf(selectedProject.id).length > 0 && (
+                  <TabsTrigger value="shorts" className="flex items-center gap-2">
+                    <Smartphone className="w-4 h-4" />
+                    Shorts
+                  </TabsTrigger>
+                )}
+                {translationsOf(selectedProject.id).length > 0 && (
+                  <TabsTrigger value="translations" className="flex items-center gap-2">
+                    <Languages className="w-4 h-4" />
+                    Translations
+                  </TabsTrigger>
+                )}
+              </TabsList>
+              <TabsContent value="content" className="mt-0">
+                <VideoContent
+                  productionPackage={selectedPackage}
+                  brief={{
+                    topic: selectedProject.topic,
+                    videoLength: selectedProject.video_length,
+                    style: selectedProject.style,
+                    targetAudience: selectedProject.target_audience,
+                    language: selectedProject.language,
+                    channelProfile: selectedProfile && profileForRequest(selectedProfile),
+                  }}
+                  channelProfile={selectedProfile}
+                  projectId={selectedProject.id}
+                  defaultFormats={selectedProject.kind === "short" ? SHORT_FORMATS : undefined}
+                  onPackageChange={(productionPackage) => handleContentChange(serializePackage(productionPackage))}
+                />
+              </TabsContent>
+              <TabsContent value="history" className="mt-0">
+                <ProjectHistory
+                  projectId={selectedProject.id}
+                  currentContent={selectedProject.generated_content}
+                  onRestore={handleContentChange}
+                />
+              </TabsContent>
+              <TabsContent value="renders" className="mt-0">
+                <ProjectRenders projectId={selectedProject.id} />
+              </TabsContent>
+              <TabsContent value="shorts" className="mt-0 space-y-2">
+                {renderChildProjects(shortsOf(selectedProject.id), () => "Short")}
+              </TabsContent>
+              <TabsContent value="translations" className="mt-0 space-y-2">
+                {renderChildProjects(translationsOf(selectedProject.id), (child) => languageName(child.language))}
+              </TabsContent>
+            </Tabs>
           )}
         </DialogContent>
       </Dialog>
@@ -235,7 +453,9 @@ const Dashboard = () => {
           <AlertDialogHeader>
             <AlertDialogTitle>Delete Project?</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to delete "{deleteProject?.title}"? This action cannot be undone.
+              Are you sure you want to delete "{deleteProject?.title}"?
+              {deleteProject && childrenOf(deleteProject.id).length > 0 && " Its Shorts and translations will be deleted too."} This action
+              cannot be undone.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -1,27 +1,54 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useNavigate } from "react-router-dom";
-import { Video, Sparkles, Film, LogIn, LayoutDashboard } from "lucide-react";
+import { Video, Sparkles, Film, LogIn, LayoutDashboard, Square } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
 import { VideoForm } from "@/components/VideoForm";
 import { VideoContent } from "@/components/VideoContent";
 import { toast } from "sonner";
 import { supabase } from "@/integrations/supabase/client";
 import type { User } from "@supabase/supabase-js";
+import type { Tables } from "@/integrations/supabase/types";
+import { draftFromPartial, serializePackage, type ProductionPackage } from "@/lib/production-package";
+import { parsePartialJson } from "@/lib/partial-json";
+import { readEventStream } from "@/lib/sse";
+import { languageName } from "@/lib/languages";
+import { translateProject } from "@/lib/translation";
+import { profileForRequest, type ChannelProfile } from "@/lib/channel-profiles";
+import { templateForRequest, type PromptTemplate } from "@/lib/prompt-templates";
 
-interface GeneratedContent {
-  content: string;
+// Reported while a long-form video is written chapter by chapter
+interface GenerationProgress {
+  stage: "outline" | "chapter" | "details";
+  message: string;
+  chapter?: number;
+  totalChapters?: number;
 }
 
+// Outline and details passes count as one step each, around the chapters
+const progressPercent = ({ stage, chapter = 0, totalChapters = 0 }: GenerationProgress) => {
+  const steps = totalChapters + 2;
+  const done = stage === "outline" ? 0 : stage === "chapter" ? chapter : totalChapters + 1;
+  return Math.round((done / steps) * 100);
+};
+
 const Index = () => {
   const navigate = useNavigate();
   const [isGenerating, setIsGenerating] = useState(false);
-  const [generatedContent, setGeneratedContent] = useState<GeneratedContent | null>(null);
+  const [generatedContent, setGeneratedContent] = useState<ProductionPackage | null>(null);
   const [user, setUser] = useState<User | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [generationProgress, setGenerationProgress] = useState<GenerationProgress | null>(null);
   const [lastFormData, setLastFormData] = useState<{
     topic: string;
     videoLength: string;
     style: string;
     targetAudience: string;
+    language: string;
+    extraLanguages: string[];
+    channelProfile: ChannelProfile | null;
+    promptTemplate: PromptTemplate | null;
   } | null>(null);
 
   useEffect(() => {
@@ -43,16 +70,38 @@ const Index = () => {
     videoLength: string;
     style: string;
     targetAudience: string;
+    language: string;
+    extraLanguages: string[];
+    channelProfile: ChannelProfile | null;
+    promptTemplate: PromptTemplate | null;
   }) => {
     setIsGenerating(true);
     setGeneratedContent(null);
+    setProjectId(null);
+    setGenerationProgress(null);
     setLastFormData(formData);
 
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    let raw = "";
+    // Long-form generation sends whole drafts instead of raw deltas
+    let draft: ProductionPackage | null = null;
+
     try {
+      // Extra languages are translated from the saved project afterwards
+      const { extraLanguages, channelProfile, promptTemplate, ...brief } = formData;
       const { data, error } = await supabase.functions.invoke('generate-video-content', {
-        body: formData
+        body: {
+          ...brief,
+          channelProfile: channelProfile && profileForRequest(channelProfile),
+          promptTemplate: promptTemplate && templateForRequest(promptTemplate),
+          stream: true
+        },
+        signal: controller.signal
       });
 
+      if (controller.signal.aborted) return;
+
       if (error) {
         console.error("Error generating content:", error);
         
@@ -83,56 +132,137 @@ const Index = () => {
 
       // Check if data has an error field (fallback)
       if (data?.error) {
-        if (data.error.includes("Payment required") || data.error.includes("credits")) {
-          toast.error("Not enough credits. Please add credits to your workspace to continue.", {
-            duration: 5000
-          });
-        } else if (data.error.includes("rate limit")) {
-          toast.error("Rate limit exceeded. Please try again in a few moments.", {
-            duration: 5000
-          });
-        } else {
-          toast.error(data.error);
+        showBodyError(data.error);
+        return;
+      }
+
+      // Render the partial JSON as it streams in, re-parsing at most every 150ms
+      let lastRender = 0;
+      let finalPackage: ProductionPackage | null = null;
+
+      for await (const { event, data: payload } of readEventStream(data as Response)) {
+        const message = JSON.parse(payload);
+        if (event === "delta") {
+          raw += message.text;
+          if (Date.now() - lastRender > 150) {
+            lastRender = Date.now();
+            setGeneratedContent(draftFromPartial(parsePartialJson(raw)));
+          }
+        } else if (event === "progress") {
+          setGenerationProgress(message);
+        } else if (event === "draft") {
+          draft = draftFromPartial(message.package);
+          setGeneratedContent(draft);
+        } else if (event === "package") {
+          finalPackage = message.package;
+        } else if (event === "error") {
+          setGeneratedContent(null);
+          showBodyError(message.error);
+          return;
         }
+      }
+
+      if (!finalPackage) {
+        setGeneratedContent(null);
+        toast.error("Failed to generate content. Please try again.");
         return;
       }
 
-      setGeneratedContent(data);
+      setGeneratedContent(finalPackage);
       toast.success("Video content generated successfully!");
 
       // If user is logged in, save the project
-      if (user && data.content) {
-        setTimeout(() => {
-          saveProject(formData, data.content);
+      if (user) {
+        setTimeout(async () => {
+          const project = await saveProject(formData, finalPackage);
+          if (project) translateInto(project, extraLanguages);
         }, 0);
       }
     } catch (error) {
+      if (controller.signal.aborted) {
+        keepPartialResult(formData, draft ?? draftFromPartial(parsePartialJson(raw)));
+        return;
+      }
       console.error("Error:", error);
+      setGeneratedContent(null);
       toast.error("An unexpected error occurred. Please try again.");
     } finally {
+      abortControllerRef.current = null;
+      setGenerationProgress(null);
       setIsGenerating(false);
     }
   };
 
-  const saveProject = async (formData: typeof lastFormData, content: string) => {
+  const showBodyError = (message: string) => {
+    if (message.includes("Payment required") || message.includes("credits")) {
+      toast.error("Not enough credits. Please add credits to your workspace to continue.", {
+        duration: 5000
+      });
+    } else if (message.includes("rate limit")) {
+      toast.error("Rate limit exceeded. Please try again in a few moments.", {
+        duration: 5000
+      });
+    } else {
+      toast.error(message);
+    }
+  };
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const keepPartialResult = (formData: typeof lastFormData, draft: ProductionPackage) => {
+    if (draft.segments.length === 0) {
+      setGeneratedContent(null);
+      toast.info("Generation cancelled.");
+      return;
+    }
+
+    setGeneratedContent(draft);
+    toast.info("Generation cancelled. The partial result has been kept.");
+    if (user) {
+      saveProject(formData, draft);
+    }
+  };
+
+  const saveProject = async (formData: typeof lastFormData, productionPackage: ProductionPackage) => {
     if (!formData) return;
 
     try {
-      const { error } = await supabase.from("video_projects").insert({
+      const { data: project, error } = await supabase.from("video_projects").insert({
         user_id: user?.id,
         title: formData.topic.slice(0, 100),
         topic: formData.topic,
         video_length: formData.videoLength,
         style: formData.style,
         target_audience: formData.targetAudience,
-        generated_content: content,
-      });
+        generated_content: serializePackage(productionPackage),
+        language: formData.language,
+        channel_profile_id: formData.channelProfile?.id ?? null,
+      }).select().single();
 
       if (error) throw error;
+      setProjectId(project.id);
       toast.success("Project saved to your dashboard!");
+      return project;
     } catch (error) {
       console.error("Error saving project:", error);
       toast.error("Generated successfully but failed to save to dashboard");
+      return null;
+    }
+  };
+
+  // One language at a time; each translation is saved under the project as it finishes
+  const translateInto = async (project: Tables<"video_projects">, languages: string[]) => {
+    for (const language of languages) {
+      toast.info(`Translating into ${languageName(language)}...`);
+      try {
+        await translateProject(project, language);
+        toast.success(`${languageName(language)} version saved to your dashboard`);
+      } catch (error) {
+        console.error(`Error translating into ${language}:`, error);
+        toast.error(`Failed to translate into ${languageName(language)}`);
+      }
     }
   };
 
@@ -204,12 +334,12 @@ const Index = () => {
           <div className="max-w-6xl mx-auto grid lg:grid-cols-2 gap-8">
             {/* Form Section */}
             <div className="animate-in fade-in slide-in-from-left duration-1000">
-              <VideoForm onGenerate={handleGenerate} isGenerating={isGenerating} />
+              <VideoForm onGenerate={handleGenerate} isGenerating={isGenerating} signedIn={!!user} />
             </div>
 
             {/* Preview/Results Section */}
             <div className="animate-in fade-in slide-in-from-right duration-1000">
-              {isGenerating ? (
+              {isGenerating && !generatedContent ? (
                 <div className="bg-card rounded-2xl border border-border p-12 flex flex-col items-center justify-center min-h-[600px]">
                   <div className="relative">
                     <Film className="w-20 h-20 text-primary animate-pulse" />
@@ -219,11 +349,43 @@ const Index = () => {
                   </div>
                   <h3 className="text-xl font-semibold mt-6 mb-2">Generating Your Video Content</h3>
                   <p className="text-muted-foreground text-center max-w-sm">
-                    Our AI is crafting a complete video production package for you...
+                    {generationProgress?.message ?? "Our AI is crafting a complete video production package for you..."}
                   </p>
+                  {generationProgress && (
+                    <Progress value={progressPercent(generationProgress)} className="mt-4 w-64" />
+                  )}
+                  <Button variant="outline" onClick={handleCancel} className="mt-6">
+                    <Square className="w-4 h-4 mr-2" />
+                    Stop
+                  </Button>
+                </div>
+              ) : isGenerating && generatedContent ? (
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between gap-4 bg-card rounded-xl border border-border px-4 py-3">
+                    <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                      <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-primary" />
+                      {generationProgress?.message ?? "Writing your production package..."}
+                    </div>
+                    <Button variant="outline" size="sm" onClick={handleCancel}>
+                      <Square className="w-4 h-4 mr-2" />
+                      Stop and keep
+                    </Button>
+                  </div>
+                  {generationProgress && <Progress value={progressPercent(generationProgress)} />}
+                  <VideoContent productionPackage={generatedContent} isStreaming />
                 </div>
               ) : generatedContent ? (
-                <VideoContent content={generatedContent.content} />
+                <VideoContent
+                  productionPackage={generatedContent}
+                  brief={lastFormData ? {
+                    ...lastFormData,
+                    channelProfile: lastFormData.channelProfile && profileForRequest(lastFormData.channelProfile),
+                    promptTemplate: lastFormData.promptTemplate && templateForRequest(lastFormData.promptTemplate)
+                  } : undefined}
+                  channelProfile={lastFormData?.channelProfile ?? undefined}
+                  projectId={projectId ?? undefined}
+                  onPackageChange={setGeneratedContent}
+                />
               ) : (
                 <div className="bg-gradient-to-br from-card via-card to-muted rounded-2xl border border-border p-12 flex flex-col items-center justify-center min-h-[600px]">
                   <Video className="w-16 h-16 text-muted-foreground/50 mb-4" />
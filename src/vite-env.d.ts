@@ -1 +1,4 @@
 /// <reference types="vite/client" />
+
+/** Version of the bundled @ffmpeg/core, injected by vite.config.ts. */
+declare const __FFMPEG_CORE_VERSION__: string;
@@ -0,0 +1,115 @@
+import type { RenderOutputSpec, RenderWorkerEvent, RenderWorkerRequest } from "@/lib/render-protocol";
+
+// The parts of the @ffmpeg/core Emscripten module the renderer uses
+interface FFmpegCore {
+  FS: {
+    writeFile(path: string, data: Uint8Array): void;
+    readFile(path: string): Uint8Array;
+    mkdir(path: string): void;
+    rmdir(path: string): void;
+    unlink(path: string): void;
+  };
+  ret: number;
+  exec(...args: string[]): void;
+  reset(): void;
+  setLogger(logger: (log: { type: string; message: string }) => void): void;
+}
+
+type CreateFFmpegCore = (options: { mainScriptUrlOrBlob: string }) => Promise<FFmpegCore>;
+
+// Loaded once and reused by every render until the worker is terminated
+let core: FFmpegCore | null = null;
+
+// Job and output the log lines currently belong to
+let current: { jobId: string; output: number; spec: RenderOutputSpec } | null = null;
+
+const post = (event: RenderWorkerEvent, transfer: Transferable[] = []) => self.postMessage(event, { transfer });
+
+const FFMPEG_CLOCK = /time=(\d+):(\d{2}):(\d{2}(?:\.\d+)?)/;
+
+function handleLog({ message }: { message: string }) {
+  if (!current) return;
+  post({ type: "log", jobId: current.jobId, message });
+
+  // FFmpeg reports how far into the output it has encoded on every status line
+  const match = message.match(FFMPEG_CLOCK);
+  if (match && current.spec.duration > 0) {
+    const seconds = Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]);
+    post({
+      type: "progress",
+      jobId: current.jobId,
+      output: current.output,
+      ratio: Math.min(1, seconds / current.spec.duration),
+    });
+  }
+}
+
+async function load({ coreURL, wasmURL, workerURL }: Extract<RenderWorkerRequest, { type: "load" }>) {
+  if (core) return;
+  const { default: createFFmpegCore }: { default: CreateFFmpegCore } = await import(/* @vite-ignore */ coreURL);
+  core = await createFFmpegCore({
+    // The core reads its wasm (and pthread worker) locations from the script URL's hash
+    mainScriptUrlOrBlob: `${coreURL}#${btoa(JSON.stringify({ wasmURL, workerURL }))}`,
+  });
+  core.setLogger(handleLog);
+}
+
+function render({ jobId, dirs, files, outputs }: Extract<RenderWorkerRequest, { type: "render" }>) {
+  if (!core) throw new Error("FFmpeg is not loaded");
+  const ffmpeg = core;
+
+  try {
+    dirs.forEach((dir) => ffmpeg.FS.mkdir(dir));
+    files.forEach(({ path, data }) => ffmpeg.FS.writeFile(path, data));
+
+    outputs.forEach((spec, output) => {
+      current = { jobId, output, spec };
+      ffmpeg.exec(...spec.args);
+      const exitCode = ffmpeg.ret;
+      ffmpeg.reset();
+      if (exitCode !== 0) {
+        throw new Error(`FFmpeg exited with code ${exitCode} while rendering ${spec.output}`);
+      }
+
+      const data = ffmpeg.FS.readFile(spec.output);
+      ffmpeg.FS.unlink(spec.output);
+      post({ type: "progress", jobId, output, ratio: 1 });
+      post({ type: "output", jobId, output, data }, [data.buffer]);
+    });
+  } finally {
+    current = null;
+    // Leave the filesystem empty for the next job on this instance
+    const remove = (action: () => void) => {
+      try {
+        action();
+      } catch {
+        // Already gone, e.g. an output that failed before it was written
+      }
+    };
+    outputs.forEach(({ output }) => remove(() => ffmpeg.FS.unlink(output)));
+    files.forEach(({ path }) => remove(() => ffmpeg.FS.unlink(path)));
+    [...dirs].reverse().forEach((dir) => remove(() => ffmpeg.FS.rmdir(dir)));
+  }
+
+  post({ type: "done", jobId });
+}
+
+self.onmessage = async ({ data: request }: MessageEvent<RenderWorkerRequest>) => {
+  try {
+    switch (request.type) {
+      case "load":
+        await load(request);
+        post({ type: "loaded" });
+        break;
+      case "render":
+        render(request);
+        break;
+    }
+  } catch (error) {
+    post({
+      type: "error",
+      jobId: request.type === "render" ? request.jobId : null,
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
@@ -0,0 +1,79 @@
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import type { ProductionPackage, ValidationResult } from "./production-package.ts";
+
+// Mirrors profileForRequest in src/lib/channel-profiles.ts: only what the prompts need
+export const channelProfileSchema = z.object({
+  name: z.string().trim().min(1),
+  brandVoice: z.string().trim().default(""),
+  toneRules: z.string().trim().default(""),
+  introLine: z.string().trim().default(""),
+  outroLine: z.string().trim().default(""),
+  bannedPhrases: z.array(z.string().trim().min(1)).default([]),
+  cta: z.string().trim().default(""),
+});
+
+export type ChannelProfile = z.infer<typeof channelProfileSchema>;
+
+/** Parses a channel profile from a request, treating anything malformed as no profile. */
+export function parseChannelProfile(value: unknown): ChannelProfile | null {
+  if (value === undefined || value === null) return null;
+  const result = channelProfileSchema.safeParse(value);
+  if (!result.success) {
+    console.warn("Ignoring malformed channel profile:", result.error.message);
+    return null;
+  }
+  return result.data;
+}
+
+/** Prompt lines that make a package sound like the channel's other videos. */
+export function channelProfileRules(profile: ChannelProfile | null): string {
+  if (!profile) return "";
+  const rules = [`This video is for the YouTube channel "${profile.name}".`];
+  if (profile.brandVoice) rules.push(`Brand voice: ${profile.brandVoice}`);
+  if (profile.toneRules) rules.push(`Tone rules: ${profile.toneRules}`);
+  if (profile.introLine) rules.push(`The first segment opens with the channel's intro line, adapted to the topic: "${profile.introLine}"`);
+  if (profile.outroLine) rules.push(`The last segment ends with the channel's outro line: "${profile.outroLine}"`);
+  if (profile.cta) rules.push(`The call to action, in the outro and the pinned comment, is: "${profile.cta}"`);
+  if (profile.bannedPhrases.length > 0) {
+    rules.push(`Never use these phrases anywhere: ${profile.bannedPhrases.map((phrase) => `"${phrase}"`).join(", ")}`);
+  }
+  return rules.join("\n");
+}
+
+/**
+ * Every banned phrase the spoken, on-screen or published text still contains.
+ * Takes a whole package or the part of one a long-form pass writes.
+ */
+export function bannedPhraseIssues(
+  { segments = [], scenes = [], thumbnail, seo }: Partial<Pick<ProductionPackage, "segments" | "scenes" | "thumbnail" | "seo">>,
+  profile: ChannelProfile | null
+): string[] {
+  if (!profile || profile.bannedPhrases.length === 0) return [];
+  const issues: string[] = [];
+  const check = (path: string, text: string) => {
+    const lower = text.toLowerCase();
+    for (const phrase of profile.bannedPhrases) {
+      if (lower.includes(phrase.toLowerCase())) issues.push(`${path}: uses the banned phrase "${phrase}"`);
+    }
+  };
+
+  segments.forEach((segment, index) => check(`segments.${index}.text`, segment.text));
+  scenes.forEach((scene, index) => check(`scenes.${index}.onScreenText`, scene.onScreenText));
+  if (thumbnail) check("thumbnail.headline", thumbnail.headline);
+  if (seo) {
+    seo.titles.forEach((title, index) => check(`seo.titles.${index}`, title));
+    check("seo.description", seo.description);
+    check("seo.pinnedComment", seo.pinnedComment);
+  }
+  return issues;
+}
+
+/** Fails an otherwise valid result that still uses a banned phrase, so the repair pass rewrites it. */
+export function rejectBannedPhrases<T extends Parameters<typeof bannedPhraseIssues>[0]>(
+  result: ValidationResult<T>,
+  profile: ChannelProfile | null
+): ValidationResult<T> {
+  if (!result.success) return result;
+  const issues = bannedPhraseIssues(result.data, profile);
+  return issues.length > 0 ? { success: false, issues } : result;
+}
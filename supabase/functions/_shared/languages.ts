@@ -0,0 +1,43 @@
+// Mirrors src/lib/languages.ts; codes are ISO 639-1
+export const LANGUAGES: Record<string, string> = {
+  en: "English",
+  es: "Spanish",
+  pt: "Portuguese",
+  fr: "French",
+  de: "German",
+  it: "Italian",
+  nl: "Dutch",
+  pl: "Polish",
+  tr: "Turkish",
+  ru: "Russian",
+  uk: "Ukrainian",
+  ar: "Arabic",
+  hi: "Hindi",
+  id: "Indonesian",
+  ja: "Japanese",
+  ko: "Korean",
+  zh: "Chinese (Simplified)",
+};
+
+export const DEFAULT_LANGUAGE = "en";
+
+/** Validates a language code from a request, treating a missing one as the default. */
+export function parseLanguage(value: unknown): string {
+  if (value === undefined || value === null || value === "") return DEFAULT_LANGUAGE;
+  if (typeof value !== "string" || !Object.hasOwn(LANGUAGES, value)) {
+    throw new Error(`Unsupported language "${value}"`);
+  }
+  return value;
+}
+
+/**
+ * Prompt rule for writing a package in a language. Scene descriptions stay in
+ * English because they are image prompts, which image models follow best in
+ * English; everything the viewer reads or hears is localized. Empty for
+ * English, which prompts are written in anyway.
+ */
+export function languageRule(language: string): string {
+  if (language === DEFAULT_LANGUAGE) return "";
+  const name = LANGUAGES[language];
+  return `Write the title, every segment's title and text, every scene's "onScreenText", the thumbnail headline and all of "seo" in ${name}, for native ${name} speakers: localize idioms, examples, units and cultural references instead of translating word for word. Keep JSON keys, ids and the scenes' "description", "shot" and music fields in English.`;
+}
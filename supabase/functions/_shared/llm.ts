@@ -0,0 +1,239 @@
+import { createStubProvider } from "./stub-provider.ts";
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+/**
+ * Identifies what a chat call is for. Real models ignore it; the stub
+ * provider uses it to pick a canned response of the right shape.
+ */
+export type ChatTask = "production-package" | "section" | "outline" | "chapter" | "package-details" | "shorts" | "translation";
+
+export interface ChatOptions {
+  task: ChatTask;
+  json?: boolean;
+  maxTokens?: number;
+  /** Aborts the request, e.g. once the client has gone away. */
+  signal?: AbortSignal;
+}
+
+export interface ImageOptions {
+  size?: string;
+  /** PNG the image should follow in style and subjects. */
+  referenceImage?: Uint8Array;
+}
+
+export interface LLMProvider {
+  name: string;
+  chat(messages: ChatMessage[], options: ChatOptions): Promise<string>;
+  /** Same as chat, yielding content deltas as the model produces them. */
+  streamChat(messages: ChatMessage[], options: ChatOptions): AsyncIterable<string>;
+  /** Resolves to base64-encoded PNG data. */
+  generateImage(prompt: string, options?: ImageOptions): Promise<string>;
+}
+
+export class ProviderError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    /** How long the provider asked us to wait before retrying, from its Retry-After header. */
+    readonly retryAfterMs?: number,
+  ) {
+    super(message);
+    this.name = "ProviderError";
+  }
+}
+
+/** Parses a Retry-After header, which is either a number of seconds or an HTTP date. */
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Rate limits are reported in the body with HTTP 200 so the client can show a friendly message
+export function describeProviderError(error: unknown): { error: string; statusCode?: number } {
+  if (error instanceof ProviderError && error.status === 429) {
+    return { error: "AI provider rate limit exceeded. Please try again later.", statusCode: 429 };
+  }
+  return { error: error instanceof Error ? error.message : "Unknown error" };
+}
+
+interface OpenAICompatibleConfig {
+  name: string;
+  baseUrl: string;
+  apiKey?: string;
+  chatModel: string;
+  imageModel: string;
+  // Local servers generally only understand the older max_tokens field
+  tokenLimitField: "max_completion_tokens" | "max_tokens";
+}
+
+function createOpenAICompatibleProvider(config: OpenAICompatibleConfig): LLMProvider {
+  const headers = {
+    ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+    "Content-Type": "application/json",
+  };
+
+  const send = async (path: string, body: Record<string, unknown> | FormData, signal?: AbortSignal) => {
+    // fetch sets the multipart Content-Type, boundary included, for form bodies
+    const { "Content-Type": _, ...formHeaders } = headers;
+    const response = await fetch(`${config.baseUrl}${path}`, {
+      method: "POST",
+      headers: body instanceof FormData ? formHeaders : headers,
+      body: body instanceof FormData ? body : JSON.stringify(body),
+      signal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`${config.name} API error:`, response.status, errorText);
+      throw new ProviderError(
+        `${config.name} API error (${response.status}): ${errorText}`,
+        response.status,
+        parseRetryAfter(response.headers.get("Retry-After")),
+      );
+    }
+    return response;
+  };
+
+  const post = async (path: string, body: Record<string, unknown> | FormData, signal?: AbortSignal) => {
+    const response = await send(path, body, signal);
+
+    // Read response as text first to debug potential issues
+    const responseText = await response.text();
+    try {
+      return JSON.parse(responseText);
+    } catch (parseError) {
+      console.error("Failed to parse JSON response:", parseError);
+      console.error("Response text (first 1000 chars):", responseText.substring(0, 1000));
+      throw new ProviderError(`Invalid JSON response from ${config.name}`, 502);
+    }
+  };
+
+  const chatBody = (messages: ChatMessage[], options: ChatOptions) => ({
+    model: config.chatModel,
+    messages,
+    ...(options.json ? { response_format: { type: "json_object" } } : {}),
+    ...(options.maxTokens ? { [config.tokenLimitField]: options.maxTokens } : {}),
+  });
+
+  return {
+    name: config.name,
+
+    async chat(messages, options) {
+      const data = await post("/chat/completions", chatBody(messages, options), options.signal);
+
+      const content = data.choices?.[0]?.message?.content;
+      if (!content) {
+        console.error("No content in response:", JSON.stringify(data).substring(0, 500));
+        throw new ProviderError(`No content generated from ${config.name}`, 502);
+      }
+      return content;
+    },
+
+    async *streamChat(messages, options) {
+      const response = await send("/chat/completions", { ...chatBody(messages, options), stream: true }, options.signal);
+      const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = "";
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) return;
+        buffer += value;
+
+        const lines = buffer.split("\n");
+        buffer = lines.pop() ?? "";
+        for (const line of lines) {
+          if (!line.startsWith("data:")) continue;
+          const payload = line.slice(5).trim();
+          if (payload === "[DONE]") return;
+          const delta = JSON.parse(payload).choices?.[0]?.delta?.content;
+          if (delta) yield delta;
+        }
+      }
+    },
+
+    async generateImage(prompt, options = {}) {
+      const params = { model: config.imageModel, prompt, n: 1, size: options.size ?? "1024x1024", quality: "high" };
+
+      // A reference image goes through the edits endpoint, which takes images as form uploads
+      let data;
+      if (options.referenceImage) {
+        const form = new FormData();
+        Object.entries(params).forEach(([key, value]) => form.append(key, String(value)));
+        form.append("image", new Blob([options.referenceImage], { type: "image/png" }), "reference.png");
+        data = await post("/images/edits", form);
+      } else {
+        data = await post("/images/generations", params);
+      }
+
+      const base64Image = data.data?.[0]?.b64_json;
+      if (!base64Image) {
+        console.error("No image in response:", JSON.stringify(data).substring(0, 500));
+        throw new ProviderError(`No image generated from ${config.name}`, 502);
+      }
+      return base64Image;
+    },
+  };
+}
+
+/**
+ * Picks the provider from the environment:
+ *
+ * - `LLM_PROVIDER=openai` (default): api.openai.com, keyed by `LLM_API_KEY` or `OPENAI_API_KEY`
+ * - `LLM_PROVIDER=openai-compatible`: any server speaking the OpenAI API at `LLM_BASE_URL`
+ *   (Ollama, LM Studio, vLLM, ...); the key is optional
+ * - `LLM_PROVIDER=stub`: deterministic canned output, no network and no keys
+ *
+ * `LLM_CHAT_MODEL` and `LLM_IMAGE_MODEL` override the model names.
+ */
+export function getProvider(): LLMProvider {
+  const kind = Deno.env.get("LLM_PROVIDER") ?? "openai";
+  const apiKey = Deno.env.get("LLM_API_KEY") ?? Deno.env.get("OPENAI_API_KEY");
+  const chatModel = Deno.env.get("LLM_CHAT_MODEL");
+  const imageModel = Deno.env.get("LLM_IMAGE_MODEL");
+
+  switch (kind) {
+    case "stub":
+      return createStubProvider();
+
+    case "openai-compatible": {
+      const baseUrl = Deno.env.get("LLM_BASE_URL");
+      if (!baseUrl) {
+        throw new Error("LLM_BASE_URL is not configured");
+      }
+      if (!chatModel) {
+        throw new Error("LLM_CHAT_MODEL is not configured");
+      }
+      return createOpenAICompatibleProvider({
+        name: "LLM server",
+        baseUrl: baseUrl.replace(/\/+$/, ""),
+        apiKey,
+        chatModel,
+        imageModel: imageModel ?? "gpt-image-1",
+        tokenLimitField: "max_tokens",
+      });
+    }
+
+    case "openai":
+      if (!apiKey) {
+        throw new Error("OPENAI_API_KEY is not configured");
+      }
+      return createOpenAICompatibleProvider({
+        name: "OpenAI",
+        baseUrl: Deno.env.get("LLM_BASE_URL")?.replace(/\/+$/, "") ?? "https://api.openai.com/v1",
+        apiKey,
+        chatModel: chatModel ?? "gpt-5-mini-2025-08-07",
+        imageModel: imageModel ?? "gpt-image-1",
+        tokenLimitField: "max_completion_tokens",
+      });
+
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${kind}"`);
+  }
+}
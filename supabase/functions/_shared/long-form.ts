@@ -0,0 +1,347 @@
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import type { ChatMessage, ChatOptions, LLMProvider } from "./llm.ts";
+import {
+  PRODUCTION_PACKAGE_SHAPE,
+  PRODUCTION_PACKAGE_VERSION,
+  SEO_LIMITS,
+  musicCueSchema,
+  parseModelJson,
+  scriptSegmentSchema,
+  validatePackageFields,
+  visualSceneSchema,
+  type ProductionPackage,
+  type ValidationResult,
+} from "./production-package.ts";
+import { validateWithRepair } from "./repair.ts";
+import { languageRule } from "./languages.ts";
+import { channelProfileRules, rejectBannedPhrases, type ChannelProfile } from "./channel-profile.ts";
+import { promptTemplateRules, templateVariables, type PromptTemplate } from "./prompt-template.ts";
+
+/**
+ * Long videos don't fit in one completion, so they are written in passes:
+ * an outline of chapters, then each chapter with a summary of the ones
+ * before it, then the title, thumbnail and SEO metadata for the whole.
+ * Chapters are stitched into one package with continuous timestamps.
+ */
+
+export interface VideoBrief {
+  topic: string;
+  videoLength: string;
+  style: string;
+  targetAudience: string;
+  /** Language code the video is written in; English when missing. */
+  language?: string;
+  channelProfile?: ChannelProfile | null;
+  promptTemplate?: PromptTemplate | null;
+}
+
+export type LongFormProgress =
+  | { stage: "outline"; message: string }
+  | { stage: "chapter"; message: string; chapter: number; totalChapters: number; chapterTitle: string }
+  | { stage: "details"; message: string; totalChapters: number };
+
+// Spoken narration runs at about this many words a minute
+const WORDS_PER_MINUTE = 150;
+
+const OUTLINE_OPTIONS: ChatOptions = { task: "outline", json: true, maxTokens: 1500 };
+const CHAPTER_OPTIONS: ChatOptions = { task: "chapter", json: true, maxTokens: 4000 };
+const DETAILS_OPTIONS: ChatOptions = { task: "package-details", json: true, maxTokens: 2000 };
+
+export const isLongForm = (videoLength: string) => /^\s*20\+/.test(videoLength ?? "");
+
+const outlineSchema = z.object({
+  title: z.string().trim().min(1),
+  chapters: z
+    .array(
+      z.object({
+        title: z.string().trim().min(1),
+        summary: z.string().trim().min(1),
+        minutes: z.number().positive().max(15),
+      })
+    )
+    .min(4)
+    .max(10),
+});
+
+type Outline = z.infer<typeof outlineSchema>;
+
+const chapterSchema = z
+  .object({
+    summary: z.string().trim().min(1),
+    segments: z.array(scriptSegmentSchema).min(1),
+    scenes: z.array(visualSceneSchema).min(1),
+    music: z.array(musicCueSchema).default([]),
+  })
+  .superRefine((chapter, ctx) => {
+    const segmentIds = new Set(chapter.segments.map((segment) => segment.id));
+    if (segmentIds.size !== chapter.segments.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["segments"], message: "segment ids must be unique" });
+    }
+    if (chapter.segments[0].start !== 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["segments", 0, "start"], message: "the first segment starts at 0" });
+    }
+    chapter.segments.forEach((segment, index) => {
+      if (segment.end <= segment.start) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["segments", index, "end"], message: "end must be after start" });
+      }
+      const previous = chapter.segments[index - 1];
+      if (previous && segment.start < previous.start) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["segments", index, "start"], message: "segments must be in chronological order" });
+      }
+    });
+    chapter.scenes.forEach((scene, index) => {
+      if (!segmentIds.has(scene.segmentId)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["scenes", index, "segmentId"], message: `Unknown segmentId "${scene.segmentId}"` });
+      }
+    });
+  });
+
+type Chapter = z.infer<typeof chapterSchema>;
+
+function validateWith<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, raw: string): ValidationResult<T> {
+  const parsed = parseModelJson(raw);
+  if (!parsed.success) return parsed;
+  const result = schema.safeParse(parsed.data);
+  if (!result.success) {
+    return {
+      success: false,
+      issues: result.error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`),
+    };
+  }
+  return { success: true, data: result.data };
+}
+
+const OUTLINE_SHAPE = `{
+  "title": string,
+  "chapters": [
+    { "title": string, "summary": string (what the chapter covers, 2-3 sentences), "minutes": number }
+  ]
+}`;
+
+const CHAPTER_SHAPE = `{
+  "summary": string (2-3 sentences on what this chapter actually said, for writing the next chapters),
+  "segments": [
+    { "id": "seg-1", "start": seconds from the start of this chapter, "end": seconds, "title": string, "text": string (the narration, spoken word for word) }
+  ],
+  "scenes": [
+    { "id": "scene-1", "segmentId": id of the segment it illustrates, "description": string, "shot": string, "onScreenText": string }
+  ],
+  "music": [
+    { "start": seconds from the start of this chapter, "end": seconds, "genre": string, "mood": string, "tempo": string, "notes": string }
+  ]
+}`;
+
+const briefLines = (brief: VideoBrief) => {
+  const lines = `Topic: ${brief.topic}
+Video Length: ${brief.videoLength}
+Style: ${brief.style}
+Target Audience: ${brief.targetAudience}`;
+  const rules = [
+    brief.language ? languageRule(brief.language) : "",
+    channelProfileRules(brief.channelProfile ?? null),
+    promptTemplateRules(brief.promptTemplate ?? null, templateVariables(brief)),
+  ];
+  return [lines, ...rules.filter(Boolean)].join("\n");
+};
+
+const outlineLines = (outline: Outline) =>
+  outline.chapters.map((chapter, i) => `${i + 1}. ${chapter.title} (~${chapter.minutes} min): ${chapter.summary}`).join("\n");
+
+/** The first pass's prompt, which is what a long-form prompt preview shows. */
+export const outlineMessages = (brief: VideoBrief): ChatMessage[] => [
+  {
+    role: "system",
+    content: `You are a specialized YouTube video production AI planning a long-form deep-dive video. Split it into chapters that build on each other: an opening chapter with the hook, main chapters, and a closing chapter with the call to action.
+
+You MUST respond with a single JSON object and nothing else, matching this shape exactly:
+${OUTLINE_SHAPE}`,
+  },
+  {
+    role: "user",
+    content: `Plan the chapters for this YouTube video:
+
+${briefLines(brief)}
+
+Use 5-8 chapters whose "minutes" add up to the requested length.`,
+  },
+];
+
+async function generateOutline(provider: LLMProvider, brief: VideoBrief, signal?: AbortSignal): Promise<Outline> {
+  const messages = outlineMessages(brief);
+  const options = { ...OUTLINE_OPTIONS, signal };
+  const completion = await provider.chat(messages, options);
+  return validateWithRepair(provider, messages, options, completion, (raw) => validateWith(outlineSchema, raw), "outline");
+}
+
+async function generateChapter(
+  provider: LLMProvider,
+  brief: VideoBrief,
+  outline: Outline,
+  index: number,
+  written: Chapter[],
+  signal?: AbortSignal
+): Promise<Chapter> {
+  const chapter = outline.chapters[index];
+  const isFirst = index === 0;
+  const isLast = index === outline.chapters.length - 1;
+  const previously = written.length > 0
+    ? written.map((done, i) => `${i + 1}. ${outline.chapters[i].title}: ${done.summary}`).join("\n")
+    : "Nothing yet; this is the first chapter.";
+
+  const messages: ChatMessage[] = [
+    {
+      role: "system",
+      content: `You are a specialized YouTube video production AI writing one chapter of a long-form video at a time. Each chapter continues where the previous one ended, without repeating it.
+
+You MUST respond with a single JSON object and nothing else, matching this shape exactly:
+${CHAPTER_SHAPE}`,
+    },
+    {
+      role: "user",
+      content: `${briefLines(brief)}
+
+Video outline:
+${outlineLines(outline)}
+
+Chapters written so far:
+${previously}
+
+Write chapter ${index + 1}: "${chapter.title}". It runs about ${chapter.minutes} minutes, roughly ${Math.round(chapter.minutes * WORDS_PER_MINUTE)} words of narration.
+- Times are seconds from the start of this chapter: the first segment starts at 0 and each segment's "end" is the next segment's "start".
+- The first segment's "title" is "${chapter.title}".
+- Every segment has at least one entry in "scenes" whose "segmentId" points at it.
+${isFirst ? "- Open with a strong hook for the whole video." : "- Don't re-introduce the video; pick up from the previous chapter."}
+${isLast ? "- Close the video with a recap and a call to action." : "- End with a transition into the next chapter, without a call to action."}`,
+    },
+  ];
+  const options = { ...CHAPTER_OPTIONS, signal };
+  const completion = await provider.chat(messages, options);
+  return validateWithRepair(
+    provider,
+    messages,
+    options,
+    completion,
+    (raw) => rejectBannedPhrases(validateWith(chapterSchema, raw), brief.channelProfile ?? null),
+    `chapter ${index + 1}`
+  );
+}
+
+/** Joins chapters into one timeline, renumbering ids and offsetting times by the chapters before. */
+export function stitchChapters(chapters: Chapter[]): Pick<ProductionPackage, "segments" | "scenes" | "music"> {
+  const segments: ProductionPackage["segments"] = [];
+  const scenes: ProductionPackage["scenes"] = [];
+  const music: ProductionPackage["music"] = [];
+  let offset = 0;
+
+  for (const chapter of chapters) {
+    const ids = new Map<string, string>();
+    for (const segment of chapter.segments) {
+      const id = `seg-${segments.length + 1}`;
+      ids.set(segment.id, id);
+      segments.push({ ...segment, id, start: segment.start + offset, end: segment.end + offset });
+    }
+    for (const scene of chapter.scenes) {
+      scenes.push({ ...scene, id: `scene-${scenes.length + 1}`, segmentId: ids.get(scene.segmentId)! });
+    }
+    for (const cue of chapter.music) {
+      music.push({ ...cue, start: cue.start + offset, end: cue.end + offset });
+    }
+    offset += Math.max(...chapter.segments.map((segment) => segment.end));
+  }
+  return { segments, scenes, music };
+}
+
+async function generateDetails(
+  provider: LLMProvider,
+  brief: VideoBrief,
+  outline: Outline,
+  base: Omit<ProductionPackage, "thumbnail" | "seo">,
+  signal?: AbortSignal
+): Promise<ProductionPackage> {
+  const chapterList = base.segments
+    .filter((segment) => segment.title)
+    .map((segment) => `${segment.start}s ${segment.title}`)
+    .join("\n");
+
+  const messages: ChatMessage[] = [
+    {
+      role: "system",
+      content: `You are a specialized YouTube video production AI. The script of a long-form video is finished; write its thumbnail concept and upload metadata.
+
+Production packages have this shape:
+${PRODUCTION_PACKAGE_SHAPE}
+
+You MUST respond with a single JSON object containing only the "thumbnail" and "seo" fields, and nothing else.`,
+    },
+    {
+      role: "user",
+      content: `${briefLines(brief)}
+Title: ${outline.title}
+
+Chapters:
+${outlineLines(outline)}
+
+Segment titles:
+${chapterList}
+
+- "seo.titles" holds ${SEO_LIMITS.titleOptions} distinct title options ranked best first, each under 70 characters.
+- "seo.description" has no timestamps; chapters are added from the segments.
+- "seo.tags" stay under ${SEO_LIMITS.tagsLength} characters in total, counting a comma between tags.
+- The "thumbnail" must be click-worthy, with a headline short enough to read on a phone.`,
+    },
+  ];
+  const options = { ...DETAILS_OPTIONS, signal };
+  const completion = await provider.chat(messages, options);
+  return validateWithRepair(
+    provider,
+    messages,
+    options,
+    completion,
+    (raw) => rejectBannedPhrases(validatePackageFields(raw, ["thumbnail", "seo"], base), brief.channelProfile ?? null),
+    "thumbnail and SEO metadata"
+  );
+}
+
+/**
+ * Writes a long-form package in passes, reporting progress before each
+ * pass and the package so far after each chapter.
+ */
+export async function generateLongFormPackage(
+  provider: LLMProvider,
+  brief: VideoBrief,
+  {
+    onProgress = () => undefined,
+    onDraft = () => undefined,
+    signal,
+  }: {
+    onProgress?: (progress: LongFormProgress) => void;
+    onDraft?: (draft: Omit<ProductionPackage, "thumbnail" | "seo">) => void;
+    /** Stops the pass in flight and the ones after it. */
+    signal?: AbortSignal;
+  } = {}
+): Promise<ProductionPackage> {
+  onProgress({ stage: "outline", message: "Planning chapters" });
+  const outline = await generateOutline(provider, brief, signal);
+  const totalChapters = outline.chapters.length;
+  console.log(`Outlined ${totalChapters} chapters for "${outline.title}"`);
+
+  const chapters: Chapter[] = [];
+  for (let index = 0; index < totalChapters; index++) {
+    const chapterTitle = outline.chapters[index].title;
+    onProgress({
+      stage: "chapter",
+      message: `Writing chapter ${index + 1} of ${totalChapters}: ${chapterTitle}`,
+      chapter: index + 1,
+      totalChapters,
+      chapterTitle,
+    });
+    chapters.push(await generateChapter(provider, brief, outline, index, chapters, signal));
+    onDraft({ version: PRODUCTION_PACKAGE_VERSION, title: outline.title, ...stitchChapters(chapters) });
+  }
+
+  onProgress({ stage: "details", message: "Writing the thumbnail and SEO metadata", totalChapters });
+  const base = { version: PRODUCTION_PACKAGE_VERSION, title: outline.title, ...stitchChapters(chapters) };
+  const productionPackage = await generateDetails(provider, brief, outline, base, signal);
+  console.log(`Stitched ${totalChapters} chapters into ${productionPackage.segments.length} segments`);
+  return productionPackage;
+}
@@ -0,0 +1,221 @@
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+
+export const PRODUCTION_PACKAGE_VERSION = 1;
+
+// Accepts plain seconds or "mm:ss" / "hh:mm:ss" strings, since models mix both
+const timestamp = z.preprocess((value) => {
+  if (typeof value === "string" && /^\d{1,2}(:\d{2}){1,2}$/.test(value.trim())) {
+    return value.trim().split(":").reduce((total, part) => total * 60 + Number(part), 0);
+  }
+  return value;
+}, z.number().int().min(0));
+
+const nonEmpty = z.string().trim().min(1);
+
+export const scriptSegmentSchema = z.object({
+  id: nonEmpty,
+  start: timestamp,
+  end: timestamp,
+  title: z.string().default(""),
+  text: nonEmpty,
+});
+
+export const visualSceneSchema = z.object({
+  id: nonEmpty,
+  segmentId: nonEmpty,
+  description: nonEmpty,
+  shot: z.string().default(""),
+  onScreenText: z.string().default(""),
+});
+
+export const musicCueSchema = z.object({
+  start: timestamp,
+  end: timestamp,
+  genre: z.string().default(""),
+  mood: z.string().default(""),
+  tempo: z.string().default(""),
+  notes: z.string().default(""),
+});
+
+export const thumbnailSchema = z.object({
+  headline: z.string().default(""),
+  description: nonEmpty,
+  colors: z.array(z.string()).default([]),
+  composition: z.string().default(""),
+});
+
+// YouTube's upload limits; tags count their separating commas, and quotes
+// around tags with spaces
+export const SEO_LIMITS = {
+  titleOptions: 5,
+  titleLength: 100,
+  descriptionLength: 5000,
+  tagsLength: 500,
+  maxHashtags: 15,
+} as const;
+
+const hashtag = z.preprocess(
+  (value) => (typeof value === "string" ? `#${value.trim().replace(/^#+/, "").replace(/\s+/g, "")}` : value),
+  z.string().min(2)
+);
+
+// Defaults keep packages generated before SEO metadata existed valid
+export const seoSchema = z.object({
+  titles: z.array(nonEmpty).default([]),
+  description: z.string().default(""),
+  tags: z.array(nonEmpty).default([]),
+  hashtags: z.array(hashtag).default([]),
+  pinnedComment: z.string().default(""),
+});
+
+export type SeoMetadata = z.infer<typeof seoSchema>;
+
+export const tagsLength = (tags: string[]) =>
+  tags.reduce((total, tag, index) => total + tag.length + (/\s/.test(tag) ? 2 : 0) + (index > 0 ? 1 : 0), 0);
+
+/** What a freshly generated SEO section must satisfy, on top of the schema. */
+export function seoIssues(seo: SeoMetadata): string[] {
+  const issues: string[] = [];
+  if (seo.titles.length !== SEO_LIMITS.titleOptions) {
+    issues.push(`seo.titles: expected ${SEO_LIMITS.titleOptions} title options, got ${seo.titles.length}`);
+  }
+  seo.titles.forEach((title, index) => {
+    if (title.length > SEO_LIMITS.titleLength) {
+      issues.push(`seo.titles.${index}: ${title.length} characters, the limit is ${SEO_LIMITS.titleLength}`);
+    }
+  });
+  if (!seo.description.trim()) issues.push("seo.description: must not be empty");
+  // Chapters are appended to the description, so leave room for them
+  if (seo.description.length > SEO_LIMITS.descriptionLength / 2) {
+    issues.push(`seo.description: ${seo.description.length} characters, keep it under ${SEO_LIMITS.descriptionLength / 2}`);
+  }
+  if (seo.tags.length === 0) issues.push("seo.tags: must not be empty");
+  const length = tagsLength(seo.tags);
+  if (length > SEO_LIMITS.tagsLength) {
+    issues.push(`seo.tags: ${length} characters in total, the limit is ${SEO_LIMITS.tagsLength}`);
+  }
+  if (seo.hashtags.length === 0 || seo.hashtags.length > SEO_LIMITS.maxHashtags) {
+    issues.push(`seo.hashtags: expected 1-${SEO_LIMITS.maxHashtags} hashtags, got ${seo.hashtags.length}`);
+  }
+  if (!seo.pinnedComment.trim()) issues.push("seo.pinnedComment: must not be empty");
+  return issues;
+}
+
+export const productionPackageSchema = z
+  .object({
+    version: z.literal(PRODUCTION_PACKAGE_VERSION),
+    title: z.string().default(""),
+    segments: z.array(scriptSegmentSchema).min(1),
+    scenes: z.array(visualSceneSchema).min(1),
+    music: z.array(musicCueSchema).default([]),
+    thumbnail: thumbnailSchema,
+    seo: seoSchema.default({}),
+  })
+  .superRefine((pkg, ctx) => {
+    const segmentIds = new Set<string>();
+    pkg.segments.forEach((segment, index) => {
+      if (segmentIds.has(segment.id)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["segments", index, "id"], message: `Duplicate segment id "${segment.id}"` });
+      }
+      segmentIds.add(segment.id);
+      if (segment.end <= segment.start) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["segments", index, "end"], message: "end must be after start" });
+      }
+      const previous = pkg.segments[index - 1];
+      if (previous && segment.start < previous.start) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["segments", index, "start"], message: "segments must be in chronological order" });
+      }
+    });
+    pkg.scenes.forEach((scene, index) => {
+      if (!segmentIds.has(scene.segmentId)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["scenes", index, "segmentId"], message: `Unknown segmentId "${scene.segmentId}"` });
+      }
+    });
+  });
+
+export type ProductionPackage = z.infer<typeof productionPackageSchema>;
+
+export type ValidationResult<T = ProductionPackage> =
+  | { success: true; data: T }
+  | { success: false; issues: string[] };
+
+export type SectionKey = "script" | "visuals" | "music" | "thumbnail" | "seo";
+
+// Which top-level package field holds each user-facing section
+export const SECTION_FIELDS = {
+  script: "segments",
+  visuals: "scenes",
+  music: "music",
+  thumbnail: "thumbnail",
+  seo: "seo",
+} as const satisfies Record<SectionKey, keyof ProductionPackage>;
+
+export function parseModelJson(raw: string): ValidationResult<unknown> {
+  try {
+    // Tolerate models that wrap the JSON in a ```json fence anyway
+    return { success: true, data: JSON.parse(raw.replace(/^\s*```(?:json)?\s*/i, "").replace(/\s*```\s*$/, "")) };
+  } catch (error) {
+    return { success: false, issues: [`Output is not valid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+}
+
+function checkPackage(json: unknown, { requireSeo = false } = {}): ValidationResult {
+  const result = productionPackageSchema.safeParse(json);
+  if (!result.success) {
+    return {
+      success: false,
+      issues: result.error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`),
+    };
+  }
+  const issues = requireSeo ? seoIssues(result.data.seo) : [];
+  return issues.length > 0 ? { success: false, issues } : { success: true, data: result.data };
+}
+
+export function validateProductionPackage(raw: string): ValidationResult {
+  const parsed = parseModelJson(raw);
+  return parsed.success ? checkPackage(parsed.data, { requireSeo: true }) : parsed;
+}
+
+/**
+ * Validates a model response holding a single section (`{ "<field>": ... }`)
+ * by merging it into `base` and checking the whole package, so cross-section
+ * links such as scene → segment ids stay intact.
+ */
+export function validateSection(raw: string, section: SectionKey, base: ProductionPackage): ValidationResult {
+  return validatePackageFields(raw, [SECTION_FIELDS[section]], base);
+}
+
+/** Like validateSection, for a response holding several top-level fields. */
+export function validatePackageFields(
+  raw: string,
+  fields: Array<keyof ProductionPackage>,
+  base: Partial<ProductionPackage>
+): ValidationResult {
+  const parsed = parseModelJson(raw);
+  if (!parsed.success) return parsed;
+
+  const data = (parsed.data as Record<string, unknown> | null) ?? {};
+  const missing = fields.filter((field) => data[field] === undefined);
+  if (missing.length > 0) {
+    return { success: false, issues: missing.map((field) => `(root): expected an object with a "${field}" field`) };
+  }
+  const values = Object.fromEntries(fields.map((field) => [field, data[field]]));
+  return checkPackage({ ...base, ...values }, { requireSeo: fields.includes("seo") });
+}
+
+// Shape description embedded in prompts so the model knows exactly what to emit
+export const PRODUCTION_PACKAGE_SHAPE = `{
+  "version": ${PRODUCTION_PACKAGE_VERSION},
+  "title": string,
+  "segments": [
+    { "id": "seg-1", "start": seconds (integer), "end": seconds (integer), "title": string, "text": string (the narration, spoken word for word) }
+  ],
+  "scenes": [
+    { "id": "scene-1", "segmentId": id of the segment it illustrates, "description": string (detailed visual for image generation), "shot": string (camera angle / framing), "onScreenText": string }
+  ],
+  "music": [
+    { "start": seconds, "end": seconds, "genre": string, "mood": string, "tempo": string, "notes": string (track suggestions, royalty-free sources) }
+  ],
+  "thumbnail": { "headline": string (short overlay text), "description": string, "colors": [hex strings], "composition": string },
+  "seo": { "titles": [${SEO_LIMITS.titleOptions} strings, best first], "description": string (no timestamps; chapters are added from the segments), "tags": [strings], "hashtags": ["#strings"], "pinnedComment": string }
+}`;
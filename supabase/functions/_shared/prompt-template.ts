@@ -0,0 +1,69 @@
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { LANGUAGES, parseLanguage } from "./languages.ts";
+import type { ChannelProfile } from "./channel-profile.ts";
+
+// Mirrors templateForRequest in src/lib/prompt-templates.ts: only what the prompts need
+export const promptTemplateSchema = z.object({
+  name: z.string().trim().min(1),
+  structure: z.string().trim().default(""),
+  tone: z.string().trim().default(""),
+});
+
+export type PromptTemplate = z.infer<typeof promptTemplateSchema>;
+
+/** Placeholders a template's structure and tone can use, filled in from the brief. */
+export const TEMPLATE_VARIABLES = ["topic", "audience", "length", "style", "language", "channel"] as const;
+
+type TemplateVariable = (typeof TEMPLATE_VARIABLES)[number];
+
+export type TemplateVariables = Record<TemplateVariable, string>;
+
+const isTemplateVariable = (name: string): name is TemplateVariable =>
+  (TEMPLATE_VARIABLES as readonly string[]).includes(name);
+
+/** Parses a prompt template from a request, treating anything malformed as no template. */
+export function parsePromptTemplate(value: unknown): PromptTemplate | null {
+  if (value === undefined || value === null) return null;
+  const result = promptTemplateSchema.safeParse(value);
+  if (!result.success) {
+    console.warn("Ignoring malformed prompt template:", result.error.message);
+    return null;
+  }
+  return result.data;
+}
+
+export function templateVariables(brief: {
+  topic: string;
+  videoLength: string;
+  style: string;
+  targetAudience: string;
+  language?: string;
+  channelProfile?: ChannelProfile | null;
+}): TemplateVariables {
+  return {
+    topic: brief.topic,
+    audience: brief.targetAudience,
+    length: brief.videoLength,
+    style: brief.style,
+    language: LANGUAGES[parseLanguage(brief.language)],
+    channel: brief.channelProfile?.name ?? "",
+  };
+}
+
+/** Replaces every `{name}` placeholder; unknown ones are left as typed. */
+export function renderTemplate(text: string, variables: TemplateVariables): string {
+  return text.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    isTemplateVariable(name) ? variables[name] : placeholder
+  );
+}
+
+/** Prompt lines for the template's section structure and tone, with placeholders filled in. */
+export function promptTemplateRules(template: PromptTemplate | null, variables: TemplateVariables): string {
+  if (!template) return "";
+  const rules: string[] = [];
+  if (template.structure) {
+    rules.push(`Follow this section structure, in order:\n${renderTemplate(template.structure, variables)}`);
+  }
+  if (template.tone) rules.push(`Tone: ${renderTemplate(template.tone, variables)}`);
+  return rules.join("\n");
+}
@@ -0,0 +1,41 @@
+import type { ChatMessage, ChatOptions, LLMProvider } from "./llm.ts";
+import type { ValidationResult } from "./production-package.ts";
+
+/**
+ * Validates a model completion, with one repair round trip: on failure the
+ * model gets its own output back together with the violations and one more
+ * chance to fix them. `label` names the artifact in logs and errors.
+ */
+export async function validateWithRepair<T>(
+  provider: LLMProvider,
+  messages: ChatMessage[],
+  options: ChatOptions,
+  completion: string,
+  validate: (raw: string) => ValidationResult<T>,
+  label: string
+): Promise<T> {
+  let validation = validate(completion);
+
+  if (!validation.success) {
+    console.warn(`Invalid ${label}, requesting repair:`, validation.issues);
+    const repaired = await provider.chat(
+      [
+        ...messages,
+        { role: "assistant", content: completion },
+        {
+          role: "user",
+          content: `Your previous response did not match the required JSON shape. Fix these problems and return the corrected JSON object only:\n- ${validation.issues.join("\n- ")}`,
+        },
+      ],
+      options
+    );
+
+    validation = validate(repaired);
+    if (!validation.success) {
+      console.error(`${label} still invalid after repair:`, validation.issues);
+      throw new Error(`AI returned an invalid ${label}. Please try again.`);
+    }
+  }
+
+  return validation.data;
+}
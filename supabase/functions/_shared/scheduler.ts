@@ -0,0 +1,122 @@
+import { ProviderError } from "./llm.ts";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export interface TokenBucket {
+  /** Resolves once a request may be sent, taking one token. */
+  take(): Promise<void>;
+  /** Stops handing out tokens until `ms` from now, e.g. after the provider answered 429. */
+  pause(ms: number): void;
+}
+
+/**
+ * Allows bursts of up to `capacity` requests, then `perMinute` requests a
+ * minute. Callers waiting for a token are served in order.
+ */
+export function createTokenBucket({ capacity, perMinute }: { capacity: number; perMinute: number }): TokenBucket {
+  const refillMs = 60_000 / perMinute;
+  let tokens = capacity;
+  let updatedAt = Date.now();
+  let pausedUntil = 0;
+  let queue: Promise<void> = Promise.resolve();
+
+  const refill = () => {
+    const now = Date.now();
+    tokens = Math.min(capacity, tokens + (now - updatedAt) / refillMs);
+    updatedAt = now;
+  };
+
+  const acquire = async () => {
+    while (true) {
+      const paused = pausedUntil - Date.now();
+      if (paused > 0) {
+        await sleep(paused);
+        continue;
+      }
+      refill();
+      if (tokens >= 1) {
+        tokens -= 1;
+        return;
+      }
+      await sleep((1 - tokens) * refillMs);
+    }
+  };
+
+  return {
+    take() {
+      const turn = queue.then(acquire);
+      queue = turn;
+      return turn;
+    },
+    pause(ms) {
+      pausedUntil = Math.max(pausedUntil, Date.now() + ms);
+    },
+  };
+}
+
+export interface RetryOptions {
+  attempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** Errors that are worth another attempt; anything else fails straight away. */
+  isRetryable: (error: unknown) => boolean;
+  /** Called before each attempt, e.g. to wait for a rate limit token. */
+  beforeAttempt?: () => Promise<void>;
+  /** Called with the wait the provider asked for, so other callers can hold off too. */
+  onRetryAfter?: (ms: number) => void;
+}
+
+/**
+ * Runs `task` until it succeeds or runs out of attempts, waiting a jittered,
+ * exponentially growing delay between attempts ("full jitter"), or as long as
+ * the provider's Retry-After asks if that is longer.
+ */
+export async function withRetry<T>(task: (attempt: number) => Promise<T>, options: RetryOptions): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    await options.beforeAttempt?.();
+    try {
+      return await task(attempt);
+    } catch (error) {
+      if (attempt >= options.attempts || !options.isRetryable(error)) throw error;
+
+      const backoff = Math.random() * Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** (attempt - 1));
+      const retryAfter = error instanceof ProviderError ? error.retryAfterMs : undefined;
+      if (retryAfter !== undefined) options.onRetryAfter?.(retryAfter);
+
+      const delay = Math.max(backoff, retryAfter ?? 0);
+      console.log(
+        `Attempt ${attempt}/${options.attempts} failed, retrying in ${Math.round(delay)}ms:`,
+        error instanceof Error ? error.message : error,
+      );
+      await sleep(delay);
+    }
+  }
+}
+
+/**
+ * Calls `worker` on every item with at most `concurrency` calls in flight,
+ * resolving with each item's outcome in input order. A failing item doesn't
+ * stop the others.
+ */
+export async function runPool<T, R>(
+  items: readonly T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<R>,
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+
+  const lane = async () => {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = { status: "fulfilled", value: await worker(items[index], index) };
+      } catch (reason) {
+        results[index] = { status: "rejected", reason };
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, lane));
+  return results;
+}
@@ -0,0 +1,206 @@
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import {
+  PRODUCTION_PACKAGE_VERSION,
+  parseModelJson,
+  productionPackageSchema,
+  type ProductionPackage,
+  type ValidationResult,
+} from "./production-package.ts";
+
+// Shorts run 30-60 seconds, including the hook added in front of the clip
+export const SHORT_MIN_SECONDS = 30;
+export const SHORT_MAX_SECONDS = 60;
+export const MAX_SHORTS = 5;
+// The rewritten hook is spoken over its own scene before the clip starts
+export const HOOK_SECONDS = 3;
+// Candidates are ranked by how close they come to this length, hook included
+const SHORT_TARGET_SECONDS = 45;
+// Keeps the candidate list in the prompt short, however long the script
+export const MAX_CANDIDATES = 40;
+
+/** A run of consecutive script segments that fits a Short once the hook is added. */
+export interface ShortCandidate {
+  segmentIds: string[];
+  start: number;
+  end: number;
+}
+
+/**
+ * Runs of consecutive segments that fit a Short, without near-duplicates:
+ * each start keeps only its best-fitting length, and runs within one segment
+ * of a better-fitting run at both ends are dropped. Long scripts are then
+ * cut into `MAX_CANDIDATES` stretches that each keep their best run, so the
+ * candidates still cover the whole video.
+ */
+export function findCandidates(pkg: ProductionPackage): ShortCandidate[] {
+  const { segments } = pkg;
+  const runs: { first: number; last: number; miss: number }[] = [];
+  segments.forEach((first, i) => {
+    let best: (typeof runs)[number] | null = null;
+    for (let j = i; j < segments.length; j++) {
+      const duration = segments[j].end - first.start + HOOK_SECONDS;
+      if (duration > SHORT_MAX_SECONDS) break;
+      const miss = Math.abs(duration - SHORT_TARGET_SECONDS);
+      if (duration >= SHORT_MIN_SECONDS && (!best || miss < best.miss)) best = { first: i, last: j, miss };
+    }
+    if (best) runs.push(best);
+  });
+
+  // Best fit first, so a run is only ever dropped for a better one
+  const distinct: typeof runs = [];
+  for (const run of [...runs].sort((a, b) => a.miss - b.miss)) {
+    const nearDuplicate = distinct.some(
+      (other) => Math.abs(other.first - run.first) <= 1 && Math.abs(other.last - run.last) <= 1
+    );
+    if (!nearDuplicate) distinct.push(run);
+  }
+  distinct.sort((a, b) => a.first - b.first);
+
+  const stretches = Math.min(MAX_CANDIDATES, distinct.length);
+  return Array.from({ length: stretches }, (_, k) => {
+    const stretch = distinct.slice(
+      Math.floor((k * distinct.length) / stretches),
+      Math.floor(((k + 1) * distinct.length) / stretches)
+    );
+    const { first, last } = stretch.reduce((best, run) => (run.miss < best.miss ? run : best));
+    return {
+      segmentIds: segments.slice(first, last + 1).map((segment) => segment.id),
+      start: segments[first].start,
+      end: segments[last].end,
+    };
+  });
+}
+
+/** How many Shorts the script has room for without two sharing a segment. */
+export function maxDisjointCandidates(candidates: ShortCandidate[]): number {
+  let count = 0;
+  let end = -Infinity;
+  // Earliest end first is optimal for picking non-overlapping intervals
+  for (const candidate of [...candidates].sort((a, b) => a.end - b.end)) {
+    if (candidate.start >= end) {
+      count++;
+      end = candidate.end;
+    }
+  }
+  return count;
+}
+
+const shortSelectionSchema = z.object({
+  candidate: z.number().int().min(1),
+  title: z.string().trim().min(1).max(100),
+  hook: z.string().trim().min(1),
+  hookVisual: z.string().trim().min(1),
+  scenes: z
+    .array(
+      z.object({
+        segmentId: z.string().trim().min(1),
+        description: z.string().trim().min(1),
+        shot: z.string().default(""),
+        onScreenText: z.string().default(""),
+      })
+    )
+    .min(1),
+});
+
+export type ShortSelection = z.infer<typeof shortSelectionSchema>;
+
+export const SHORTS_SHAPE = `{
+  "shorts": [
+    {
+      "candidate": number (from the candidate list),
+      "title": string (under 60 characters),
+      "hook": string (one spoken sentence, under 10 words, that grabs attention in the first seconds),
+      "hookVisual": string (vertical 9:16 image description for the hook),
+      "scenes": [
+        { "segmentId": id of a segment in the candidate, "description": string (vertical 9:16 composition, subject centered), "shot": string, "onScreenText": string }
+      ]
+    }
+  ]
+}`;
+
+/** Checks the model's picks: known candidates, no shared segments, a vertical scene for every segment. */
+export function validateShorts(raw: string, candidates: ShortCandidate[]): ValidationResult<ShortSelection[]> {
+  const parsed = parseModelJson(raw);
+  if (!parsed.success) return parsed;
+
+  const result = z.object({ shorts: z.array(shortSelectionSchema).min(1).max(MAX_SHORTS) }).safeParse(parsed.data);
+  if (!result.success) {
+    return {
+      success: false,
+      issues: result.error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`),
+    };
+  }
+
+  const { shorts } = result.data;
+  const issues: string[] = [];
+  const wanted = Math.min(3, maxDisjointCandidates(candidates));
+  if (shorts.length < wanted) issues.push(`shorts: expected at least ${wanted} Shorts, got ${shorts.length}`);
+
+  const used = new Set<string>();
+  shorts.forEach((short, index) => {
+    const candidate = candidates[short.candidate - 1];
+    if (!candidate) {
+      issues.push(`shorts.${index}.candidate: there is no candidate ${short.candidate}`);
+      return;
+    }
+    for (const id of candidate.segmentIds) {
+      if (used.has(id)) issues.push(`shorts.${index}.candidate: segment "${id}" is already used by another Short`);
+      used.add(id);
+    }
+    const covered = new Set(short.scenes.map((scene) => scene.segmentId));
+    short.scenes.forEach((scene, sceneIndex) => {
+      if (!candidate.segmentIds.includes(scene.segmentId)) {
+        issues.push(`shorts.${index}.scenes.${sceneIndex}.segmentId: "${scene.segmentId}" is not in candidate ${short.candidate}`);
+      }
+    });
+    candidate.segmentIds
+      .filter((id) => !covered.has(id))
+      .forEach((id) => issues.push(`shorts.${index}.scenes: segment "${id}" needs a scene`));
+  });
+
+  return issues.length > 0 ? { success: false, issues } : { success: true, data: shorts };
+}
+
+/**
+ * Builds a Short's own package: the hook, then the chosen segments moved to
+ * start right after it, with the music cues that overlap them.
+ */
+export function buildShortPackage(
+  pkg: ProductionPackage,
+  candidate: ShortCandidate,
+  short: ShortSelection
+): ProductionPackage {
+  const offset = HOOK_SECONDS - candidate.start;
+  const segments = pkg.segments
+    .filter((segment) => candidate.segmentIds.includes(segment.id))
+    .map((segment) => ({ ...segment, start: segment.start + offset, end: segment.end + offset }));
+
+  const music = pkg.music
+    .filter((cue) => cue.end > candidate.start && cue.start < candidate.end)
+    .map((cue) => ({
+      ...cue,
+      start: Math.max(candidate.start, cue.start) + offset,
+      end: Math.min(candidate.end, cue.end) + offset,
+    }));
+  // Let the first cue play under the hook too
+  if (music.length > 0) music[0] = { ...music[0], start: 0 };
+
+  return productionPackageSchema.parse({
+    version: PRODUCTION_PACKAGE_VERSION,
+    title: short.title,
+    segments: [{ id: "seg-hook", start: 0, end: HOOK_SECONDS, title: "Hook", text: short.hook }, ...segments],
+    scenes: [
+      { id: "scene-hook", segmentId: "seg-hook", description: short.hookVisual, shot: "Close-up", onScreenText: "" },
+      ...short.scenes.map((scene, index) => ({ ...scene, id: `scene-${index + 1}` })),
+    ],
+    music,
+    thumbnail: { ...pkg.thumbnail, headline: short.title },
+    seo: {
+      titles: [short.title],
+      description: pkg.seo.description,
+      tags: pkg.seo.tags,
+      hashtags: ["#Shorts", ...pkg.seo.hashtags.filter((tag) => tag.toLowerCase() !== "#shorts")].slice(0, 5),
+      pinnedComment: pkg.seo.pinnedComment,
+    },
+  });
+}
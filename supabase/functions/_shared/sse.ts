@@ -0,0 +1,55 @@
+export type SendEvent = (event: string, data: unknown) => void;
+
+/**
+ * Wraps `run` in a text/event-stream response. Each `send` becomes one SSE
+ * frame with a JSON payload. Anything `run` throws is reported as a final
+ * `error` event, since the HTTP status is already committed by then.
+ *
+ * When the client goes away, `signal` is aborted so `run` can stop its model
+ * calls, and from then on `send` does nothing.
+ */
+export function eventStreamResponse(
+  headers: Record<string, string>,
+  run: (send: SendEvent, signal: AbortSignal) => Promise<void>,
+  describeError: (error: unknown) => Record<string, unknown> = (error) => ({
+    error: error instanceof Error ? error.message : "Unknown error",
+  })
+): Response {
+  const encoder = new TextEncoder();
+  const abort = new AbortController();
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      // The stream is closed once cancelled, and enqueueing or closing again would throw
+      const send: SendEvent = (event, data) => {
+        if (abort.signal.aborted) return;
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      try {
+        await run(send, abort.signal);
+      } catch (error) {
+        if (abort.signal.aborted) {
+          console.log("Client went away, stopped streaming");
+        } else {
+          console.error("Error while streaming:", error);
+          send("error", describeError(error));
+        }
+      } finally {
+        if (!abort.signal.aborted) controller.close();
+      }
+    },
+    cancel(reason) {
+      abort.abort(reason);
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      ...headers,
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    },
+  });
+}
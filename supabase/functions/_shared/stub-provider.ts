@@ -0,0 +1,240 @@
+import type { ChatMessage, ChatTask, LLMProvider } from "./llm.ts";
+import { PRODUCTION_PACKAGE_VERSION, SECTION_FIELDS, type SectionKey } from "./production-package.ts";
+import { toBase64 } from "./encoding.ts";
+import { encodePng } from "./png.ts";
+
+// Stable 32-bit FNV-1a hash so the same prompt always yields the same output
+function hash(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+function promptField(messages: ChatMessage[], field: string, fallback: string): string {
+  const prompt = messages.filter((m) => m.role === "user").map((m) => m.content).join("\n");
+  return prompt.match(new RegExp(`^${field}:\\s*(.+)$`, "m"))?.[1].trim() || fallback;
+}
+
+function cannedProductionPackage(messages: ChatMessage[]) {
+  const topic = promptField(messages, "Topic", "Your topic");
+  const beats = [
+    { title: "Hook", text: `What if everything you knew about ${topic} was only half the story? Stay with me for the next few minutes.` },
+    { title: "Context", text: `Let's start with the basics of ${topic} and why it matters right now.` },
+    { title: "Deep dive", text: `Here is the part most people miss about ${topic}, broken down step by step.` },
+    { title: "Example", text: `To make it concrete, let's walk through a real-world example of ${topic} in action.` },
+    { title: "Outro", text: `That's ${topic} in a nutshell. If this helped, like the video and subscribe for more.` },
+  ];
+  const segmentLength = 20;
+
+  return {
+    version: PRODUCTION_PACKAGE_VERSION,
+    title: `${topic}: The Complete Guide`,
+    segments: beats.map((beat, index) => ({
+      id: `seg-${index + 1}`,
+      start: index * segmentLength,
+      end: (index + 1) * segmentLength,
+      title: beat.title,
+      text: beat.text,
+    })),
+    scenes: beats.map((beat, index) => ({
+      id: `scene-${index + 1}`,
+      segmentId: `seg-${index + 1}`,
+      description: `${beat.title} shot illustrating ${topic}: clean studio setting, soft key light, bold graphic accents`,
+      shot: index % 2 === 0 ? "Medium close-up" : "Wide establishing shot",
+      onScreenText: beat.title,
+    })),
+    music: [
+      { start: 0, end: segmentLength, genre: "Electronic", mood: "Energetic", tempo: "120 BPM", notes: "Punchy intro bed, royalty-free" },
+      { start: segmentLength, end: segmentLength * 4, genre: "Lo-fi", mood: "Focused", tempo: "85 BPM", notes: "Unobtrusive under narration" },
+      { start: segmentLength * 4, end: segmentLength * 5, genre: "Cinematic", mood: "Uplifting", tempo: "100 BPM", notes: "Swell into the call to action" },
+    ],
+    thumbnail: {
+      headline: topic.split(/\s+/).slice(0, 4).join(" ").toUpperCase(),
+      description: `Presenter with a surprised expression on the left, bold headline about ${topic} on the right`,
+      colors: ["#FFD400", "#111111", "#FFFFFF"],
+      composition: "Rule of thirds, face on the left third, text on the right two thirds",
+    },
+    seo: {
+      titles: [
+        `${topic}: The Complete Guide`,
+        `${topic} Explained in 5 Minutes`,
+        `What Nobody Tells You About ${topic}`,
+        `${topic} for Beginners`,
+        `I Tried ${topic} So You Don't Have To`,
+      ].map((title) => title.slice(0, 100)),
+      description: `Everything you need to know about ${topic}, from the basics to a real-world example.\n\nSubscribe for more guides like this one.`,
+      tags: [topic, `${topic} guide`, `${topic} explained`, "tutorial"].map((tag) => tag.slice(0, 100)),
+      hashtags: [`#${topic.replace(/[^\p{L}\p{N}]/gu, "")}`, "#Tutorial", "#Explained"].filter((tag) => tag.length > 1),
+      pinnedComment: `What surprised you most about ${topic}? Let me know below!`,
+    },
+  };
+}
+
+// Echoes the requested section of the package embedded in the prompt, with its main text marked as revised
+function cannedSection(messages: ChatMessage[]) {
+  const section = promptField(messages, "Section", "script") as SectionKey;
+  const field = SECTION_FIELDS[section] ?? "segments";
+  const prompt = messages.filter((m) => m.role === "user").map((m) => m.content).join("\n");
+  const current = JSON.parse(prompt.match(/```json\n([\s\S]*?)\n```/)?.[1] ?? "{}");
+
+  const revise = (item: Record<string, unknown>) => {
+    const key = ["text", "description", "notes"].find((k) => typeof item[k] === "string");
+    return key ? { ...item, [key]: `${item[key]} (revised)` } : item;
+  };
+  const value = current[field];
+  return { [field]: Array.isArray(value) ? value.map(revise) : value && revise(value) };
+}
+
+function cannedOutline(messages: ChatMessage[]) {
+  const topic = promptField(messages, "Topic", "Your topic");
+  const titles = ["Why it matters", "The basics", "Going deeper", "Common mistakes", "Putting it together", "Wrapping up"];
+  return {
+    title: `${topic}: The Deep Dive`,
+    chapters: titles.map((title) => ({ title, summary: `${title} of ${topic}.`, minutes: 4 })),
+  };
+}
+
+// Three one-minute segments per chapter, timed from the chapter's start
+function cannedChapter(messages: ChatMessage[]) {
+  const topic = promptField(messages, "Topic", "Your topic");
+  const prompt = messages.filter((m) => m.role === "user").map((m) => m.content).join("\n");
+  const title = prompt.match(/^Write chapter \d+: "(.+)"/m)?.[1] ?? "Chapter";
+  const segmentLength = 60;
+
+  return {
+    summary: `Covered ${title.toLowerCase()} of ${topic}.`,
+    segments: [0, 1, 2].map((index) => ({
+      id: `seg-${index + 1}`,
+      start: index * segmentLength,
+      end: (index + 1) * segmentLength,
+      title: index === 0 ? title : "",
+      text: `${title}, part ${index + 1}: more about ${topic}.`,
+    })),
+    scenes: [0, 1, 2].map((index) => ({
+      id: `scene-${index + 1}`,
+      segmentId: `seg-${index + 1}`,
+      description: `${title} illustration for ${topic}, part ${index + 1}`,
+      shot: "Medium shot",
+      onScreenText: index === 0 ? title : "",
+    })),
+    music: [{ start: 0, end: segmentLength * 3, genre: "Lo-fi", mood: "Focused", tempo: "85 BPM", notes: "Under narration" }],
+  };
+}
+
+function cannedPackageDetails(messages: ChatMessage[]) {
+  const { thumbnail, seo } = cannedProductionPackage(messages);
+  return { thumbnail, seo };
+}
+
+// Takes candidates from the prompt's list in order, skipping ones that share a segment
+function cannedShorts(messages: ChatMessage[]) {
+  const prompt = messages.filter((m) => m.role === "user").map((m) => m.content).join("\n");
+  const used = new Set<string>();
+  const shorts = [];
+
+  for (const [, number, ids] of prompt.matchAll(/^(\d+)\. ((?:[\w-]+, )*[\w-]+) \(\d+s\)$/gm)) {
+    const segmentIds = ids.split(", ");
+    if (segmentIds.some((id) => used.has(id))) continue;
+    segmentIds.forEach((id) => used.add(id));
+    shorts.push({
+      candidate: Number(number),
+      title: `Short ${shorts.length + 1}`,
+      hook: "You won't believe this one.",
+      hookVisual: "Vertical close-up of a surprised face, bold colors",
+      scenes: segmentIds.map((segmentId) => ({
+        segmentId,
+        description: `Vertical 9:16 shot for ${segmentId}, subject centered`,
+        shot: "Close-up",
+        onScreenText: "",
+      })),
+    });
+    if (shorts.length === 5) break;
+  }
+  return { shorts };
+}
+
+// Echoes the text embedded in the prompt, tagged with the target language
+function cannedTranslation(messages: ChatMessage[]) {
+  const language = promptField(messages, "Language", "Translated");
+  const prompt = messages.filter((m) => m.role === "user").map((m) => m.content).join("\n");
+  const text = JSON.parse(prompt.match(/```json\n([\s\S]*?)\n```/)?.[1] ?? "{}");
+  const tag = (value: string) => (value ? `[${language}] ${value}` : value);
+
+  return {
+    ...text,
+    ...(text.title !== undefined ? { title: tag(text.title) } : {}),
+    segments: (text.segments ?? []).map((segment: Record<string, string>) => ({ ...segment, text: tag(segment.text) })),
+    ...(text.thumbnail ? { thumbnail: { headline: tag(text.thumbnail.headline) } } : {}),
+  };
+}
+
+const CANNED_RESPONSES: Record<ChatTask, (messages: ChatMessage[]) => unknown> = {
+  "production-package": cannedProductionPackage,
+  section: cannedSection,
+  outline: cannedOutline,
+  chapter: cannedChapter,
+  "package-details": cannedPackageDetails,
+  shorts: cannedShorts,
+  translation: cannedTranslation,
+};
+
+// Drops a channel profile's banned phrases, so canned text passes the check instead of failing every repair
+function cannedResponse(messages: ChatMessage[], task: ChatTask): unknown {
+  const prompt = messages.map((m) => m.content).join("\n");
+  const banned = [...(prompt.match(/^Never use these phrases anywhere: (.+)$/m)?.[1].matchAll(/"([^"]+)"/g) ?? [])].map(
+    ([, phrase]) => new RegExp(phrase.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), "gi")
+  );
+  const response = CANNED_RESPONSES[task](messages);
+  if (banned.length === 0) return response;
+  return JSON.parse(JSON.stringify(response), (_key, value) =>
+    typeof value === "string" ? banned.reduce((text, phrase) => text.replace(phrase, ""), value) : value
+  );
+}
+
+async function placeholderImage(prompt: string, size: string): Promise<string> {
+  const [width, height] = size.split("x").map(Number);
+  const seed = hash(prompt);
+  const from = [seed & 0xff, (seed >> 8) & 0xff, (seed >> 16) & 0xff];
+  const to = [255 - from[1], 255 - from[2], 255 - from[0]];
+
+  // Diagonal gradient between two colors derived from the prompt
+  const rgb = new Uint8Array(width * height * 3);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const t = (x / width + y / height) / 2;
+      const offset = (y * width + x) * 3;
+      for (let c = 0; c < 3; c++) {
+        rgb[offset + c] = Math.round(from[c] + (to[c] - from[c]) * t);
+      }
+    }
+  }
+  return toBase64(await encodePng(width, height, rgb));
+}
+
+/** Offline provider for local development: no network, no keys, same output every run. */
+export function createStubProvider(): LLMProvider {
+  return {
+    name: "Stub",
+
+    async chat(messages, options) {
+      return JSON.stringify(cannedResponse(messages, options.task));
+    },
+
+    async *streamChat(messages, options) {
+      const content = JSON.stringify(cannedResponse(messages, options.task), null, 2);
+      // Small chunks with a short pause, so the UI's streaming path gets exercised
+      for (let i = 0; i < content.length; i += 24) {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        options.signal?.throwIfAborted();
+        yield content.slice(i, i + 24);
+      }
+    },
+
+    async generateImage(prompt, options = {}) {
+      return placeholderImage(prompt, options.size ?? "1024x1024");
+    },
+  };
+}
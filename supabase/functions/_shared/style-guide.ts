@@ -0,0 +1,61 @@
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+
+// Mirrors src/lib/style-guide.ts; every field is optional so an empty guide changes nothing
+export const styleGuideSchema = z.object({
+  artStyle: z.string().trim().default(""),
+  palette: z.string().trim().default(""),
+  lighting: z.string().trim().default(""),
+  characters: z
+    .array(z.object({ name: z.string().trim().min(1), description: z.string().trim().default("") }))
+    .default([]),
+  /** Path of the reference image in the video-assets bucket, under the user's folder. */
+  referenceImagePath: z.string().nullable().default(null),
+  negativePrompt: z.string().trim().default(""),
+});
+
+export type StyleGuide = z.infer<typeof styleGuideSchema>;
+
+/** Parses a style guide from a request, treating anything malformed as no guide. */
+export function parseStyleGuide(value: unknown): StyleGuide | null {
+  if (value === undefined || value === null) return null;
+  const result = styleGuideSchema.safeParse(value);
+  if (!result.success) {
+    console.warn("Ignoring malformed style guide:", result.error.message);
+    return null;
+  }
+  return result.data;
+}
+
+// \b only knows ASCII word characters, so names in other scripts need Unicode-aware boundaries
+const mentions = (text: string, name: string) =>
+  new RegExp(`(?<![\\p{L}\\p{N}_])${name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}(?![\\p{L}\\p{N}_])`, "iu").test(text);
+
+/**
+ * Builds the image prompt for one scene. The guide's style lines go into
+ * every prompt so scenes look alike; characters are only described in the
+ * scenes that mention them by name, to keep them from appearing everywhere.
+ */
+export function buildScenePrompt(description: string, orientation: string, guide: StyleGuide | null): string {
+  const lines = [
+    `Generate a high-quality, professional image for a ${orientation} video frame, keeping the subject centered.`,
+    `Scene: ${description}`,
+  ];
+  if (!guide) return lines.join("\n");
+
+  if (guide.artStyle) lines.push(`Art style: ${guide.artStyle}`);
+  if (guide.palette) lines.push(`Color palette: ${guide.palette}`);
+  if (guide.lighting) lines.push(`Lighting: ${guide.lighting}`);
+
+  const characters = guide.characters.filter((character) => mentions(description, character.name));
+  if (characters.length > 0) {
+    lines.push("Characters, drawn exactly the same way in every scene:");
+    characters.forEach(({ name, description }) => lines.push(`- ${name}${description ? `: ${description}` : ""}`));
+  }
+  if (guide.referenceImagePath) {
+    lines.push("Match the style, palette and characters of the reference image.");
+  }
+  // Image models have no separate negative prompt, so spell it out
+  if (guide.negativePrompt) lines.push(`Do not include: ${guide.negativePrompt}`);
+
+  return lines.join("\n");
+}
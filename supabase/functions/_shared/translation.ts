@@ -0,0 +1,106 @@
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import {
+  parseModelJson,
+  productionPackageSchema,
+  seoIssues,
+  seoSchema,
+  type ProductionPackage,
+  type ValidationResult,
+} from "./production-package.ts";
+
+/**
+ * Translation only sends the text a viewer reads or hears. Ids, timestamps,
+ * image prompts and music cues are copied from the original, so the
+ * translated video lines up with it scene for scene. Long scripts are
+ * translated a batch of segments at a time to fit in one completion.
+ */
+
+// About 20 minutes of narration, well inside one completion
+export const SEGMENTS_PER_BATCH = 20;
+
+const nonEmpty = z.string().trim().min(1);
+
+const translationSchema = z.object({
+  title: z.string().optional(),
+  segments: z.array(z.object({ id: nonEmpty, title: z.string().default(""), text: nonEmpty })),
+  scenes: z.array(z.object({ id: nonEmpty, onScreenText: z.string().default("") })),
+  thumbnail: z.object({ headline: z.string().default("") }).optional(),
+  seo: seoSchema.optional(),
+});
+
+export type Translation = z.infer<typeof translationSchema>;
+
+/**
+ * Splits the package's text into batches, in the shape the model answers
+ * with. The first batch also carries the title, thumbnail headline and SEO.
+ */
+export function translationBatches(pkg: ProductionPackage): Translation[] {
+  const batches: Translation[] = [];
+  for (let i = 0; i < pkg.segments.length; i += SEGMENTS_PER_BATCH) {
+    const segments = pkg.segments.slice(i, i + SEGMENTS_PER_BATCH);
+    const ids = new Set(segments.map((segment) => segment.id));
+    batches.push({
+      ...(i === 0 ? { title: pkg.title, thumbnail: { headline: pkg.thumbnail.headline }, seo: pkg.seo } : {}),
+      segments: segments.map(({ id, title, text }) => ({ id, title, text })),
+      scenes: pkg.scenes.filter((scene) => ids.has(scene.segmentId)).map(({ id, onScreenText }) => ({ id, onScreenText })),
+    });
+  }
+  return batches;
+}
+
+const missingIds = (expected: { id: string }[], actual: { id: string }[], path: string) => {
+  const ids = new Set(actual.map((item) => item.id));
+  return expected.filter((item) => !ids.has(item.id)).map((item) => `${path}: "${item.id}" is missing`);
+};
+
+/** Checks a translated batch covers everything the batch sent. */
+export function validateTranslation(raw: string, batch: Translation): ValidationResult<Translation> {
+  const parsed = parseModelJson(raw);
+  if (!parsed.success) return parsed;
+
+  const result = translationSchema.safeParse(parsed.data);
+  if (!result.success) {
+    return {
+      success: false,
+      issues: result.error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`),
+    };
+  }
+
+  const translation = result.data;
+  const issues = [
+    ...missingIds(batch.segments, translation.segments, "segments"),
+    ...missingIds(batch.scenes, translation.scenes, "scenes"),
+  ];
+  if (batch.seo) {
+    if (!translation.seo || !translation.thumbnail) {
+      issues.push("title, thumbnail and seo: must be translated too");
+    } else if (batch.seo.titles.length > 0) {
+      // Packages from before SEO metadata existed have none to translate
+      issues.push(...seoIssues(translation.seo));
+    }
+  }
+  return issues.length > 0 ? { success: false, issues } : { success: true, data: translation };
+}
+
+/** Merges translated batches into a copy of the original package. */
+export function applyTranslation(original: ProductionPackage, batches: Translation[]): ProductionPackage {
+  const [first] = batches;
+  const segments = new Map(batches.flatMap((batch) => batch.segments).map((segment) => [segment.id, segment]));
+  const scenes = new Map(batches.flatMap((batch) => batch.scenes).map((scene) => [scene.id, scene]));
+
+  return productionPackageSchema.parse({
+    ...original,
+    title: first?.title ?? original.title,
+    segments: original.segments.map((segment) => ({
+      ...segment,
+      title: segments.get(segment.id)?.title ?? segment.title,
+      text: segments.get(segment.id)?.text ?? segment.text,
+    })),
+    scenes: original.scenes.map((scene) => ({
+      ...scene,
+      onScreenText: scenes.get(scene.id)?.onScreenText ?? scene.onScreenText,
+    })),
+    thumbnail: { ...original.thumbnail, headline: first?.thumbnail?.headline ?? original.thumbnail.headline },
+    seo: first?.seo ?? original.seo,
+  });
+}
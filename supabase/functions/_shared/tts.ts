@@ -0,0 +1,146 @@
+import { ProviderError } from "./llm.ts";
+
+export interface SpeechOptions {
+  voice: string;
+  /** Playback rate, 1 = normal. */
+  speed: number;
+}
+
+export interface SpeechClip {
+  audio: Uint8Array;
+  mimeType: string;
+}
+
+export interface TTSProvider {
+  name: string;
+  voices: readonly string[];
+  synthesize(text: string, options: SpeechOptions): Promise<SpeechClip>;
+}
+
+export const OPENAI_VOICES = ["alloy", "ash", "coral", "echo", "fable", "nova", "onyx", "sage", "shimmer"] as const;
+
+function createOpenAICompatibleTTS(name: string, baseUrl: string, apiKey: string | undefined, model: string): TTSProvider {
+  return {
+    name,
+    voices: OPENAI_VOICES,
+
+    async synthesize(text, { voice, speed }) {
+      const response = await fetch(`${baseUrl}/audio/speech`, {
+        method: "POST",
+        headers: {
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ model, input: text, voice, speed, response_format: "mp3" }),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error(`${name} TTS error:`, response.status, errorText);
+        throw new ProviderError(`${name} TTS error (${response.status}): ${errorText}`, response.status);
+      }
+
+      return { audio: new Uint8Array(await response.arrayBuffer()), mimeType: "audio/mpeg" };
+    },
+  };
+}
+
+// Roughly conversational narration pace at speed 1
+const WORDS_PER_SECOND = 2.5;
+const SAMPLE_RATE = 22050;
+
+/**
+ * Local stand-in: a WAV with one soft tone per word, timed like real speech,
+ * so scene lengths, muxing and mixing can be exercised without a TTS service.
+ */
+function createStubTTS(): TTSProvider {
+  const voices = ["stub-low", "stub-mid", "stub-high"] as const;
+  const pitches: Record<string, number> = { "stub-low": 160, "stub-mid": 220, "stub-high": 300 };
+
+  return {
+    name: "Stub",
+    voices,
+
+    async synthesize(text, { voice, speed }) {
+      const words = text.split(/\s+/).filter(Boolean);
+      const wordSeconds = 1 / (WORDS_PER_SECOND * Math.max(0.25, speed));
+      const totalSamples = Math.ceil(Math.max(1, words.length) * wordSeconds * SAMPLE_RATE);
+      const samples = new Int16Array(totalSamples);
+      const pitch = pitches[voice] ?? pitches["stub-mid"];
+
+      words.forEach((word, index) => {
+        const start = Math.floor(index * wordSeconds * SAMPLE_RATE);
+        // Tone lasts 70% of the word slot, longer words slightly longer
+        const length = Math.floor(wordSeconds * SAMPLE_RATE * Math.min(0.9, 0.5 + word.length * 0.04));
+        for (let i = 0; i < length && start + i < totalSamples; i++) {
+          const envelope = Math.sin((Math.PI * i) / length);
+          samples[start + i] = Math.round(Math.sin((2 * Math.PI * pitch * i) / SAMPLE_RATE) * envelope * 6000);
+        }
+      });
+
+      return { audio: encodeWav(samples, SAMPLE_RATE), mimeType: "audio/wav" };
+    },
+  };
+}
+
+function encodeWav(samples: Int16Array, sampleRate: number): Uint8Array {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, value: string) =>
+    [...value].forEach((char, i) => view.setUint8(offset + i, char.charCodeAt(0)));
+
+  writeString(0, "RIFF");
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, "WAVE");
+  writeString(12, "fmt ");
+  view.setUint32(16, 16, true); // PCM chunk size
+  view.setUint16(20, 1, true); // PCM format
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // byte rate
+  view.setUint16(32, 2, true); // block align
+  view.setUint16(34, 16, true); // bits per sample
+  writeString(36, "data");
+  view.setUint32(40, samples.length * 2, true);
+  samples.forEach((sample, i) => view.setInt16(44 + i * 2, sample, true));
+
+  return new Uint8Array(buffer);
+}
+
+/**
+ * Picks the TTS provider from `TTS_PROVIDER` (falling back to `LLM_PROVIDER`),
+ * with the same values and connection settings as the LLM layer.
+ * `TTS_MODEL` overrides the speech model.
+ */
+export function getTTSProvider(): TTSProvider {
+  const kind = Deno.env.get("TTS_PROVIDER") ?? Deno.env.get("LLM_PROVIDER") ?? "openai";
+  const apiKey = Deno.env.get("LLM_API_KEY") ?? Deno.env.get("OPENAI_API_KEY");
+  const model = Deno.env.get("TTS_MODEL") ?? "gpt-4o-mini-tts";
+
+  switch (kind) {
+    case "stub":
+      return createStubTTS();
+
+    case "openai-compatible": {
+      const baseUrl = Deno.env.get("LLM_BASE_URL");
+      if (!baseUrl) {
+        throw new Error("LLM_BASE_URL is not configured");
+      }
+      return createOpenAICompatibleTTS("TTS server", baseUrl.replace(/\/+$/, ""), apiKey, model);
+    }
+
+    case "openai":
+      if (!apiKey) {
+        throw new Error("OPENAI_API_KEY is not configured");
+      }
+      return createOpenAICompatibleTTS(
+        "OpenAI",
+        Deno.env.get("LLM_BASE_URL")?.replace(/\/+$/, "") ?? "https://api.openai.com/v1",
+        apiKey,
+        model
+      );
+
+    default:
+      throw new Error(`Unknown TTS_PROVIDER "${kind}"`);
+  }
+}
@@ -0,0 +1,102 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { describeProviderError, getProvider, type ChatMessage } from "../_shared/llm.ts";
+import { productionPackageSchema } from "../_shared/production-package.ts";
+import { validateWithRepair } from "../_shared/repair.ts";
+import { languageRule, parseLanguage } from "../_shared/languages.ts";
+import {
+  MAX_SHORTS,
+  SHORTS_SHAPE,
+  SHORT_MAX_SECONDS,
+  SHORT_MIN_SECONDS,
+  buildShortPackage,
+  findCandidates,
+  validateShorts,
+} from "../_shared/shorts.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { package: currentPackage, topic, style, targetAudience, language } = await req.json();
+
+    const parsedPackage = productionPackageSchema.safeParse(currentPackage);
+    if (!parsedPackage.success) {
+      throw new Error("package must be a valid production package");
+    }
+    const pkg = parsedPackage.data;
+
+    const candidates = findCandidates(pkg);
+    if (candidates.length === 0) {
+      throw new Error(`The script has no stretch of ${SHORT_MIN_SECONDS}-${SHORT_MAX_SECONDS} seconds to cut a Short from`);
+    }
+    console.log(`Choosing Shorts from ${candidates.length} candidates`);
+
+    const provider = getProvider();
+
+    const script = pkg.segments
+      .map((segment) => `${segment.id} [${segment.start}s-${segment.end}s]: ${segment.text}`)
+      .join("\n");
+    const candidateList = candidates
+      .map((candidate, index) => `${index + 1}. ${candidate.segmentIds.join(", ")} (${candidate.end - candidate.start}s)`)
+      .join("\n");
+
+    const messages: ChatMessage[] = [
+      {
+        role: "system",
+        content: `You are a specialized YouTube Shorts editor. You pick the strongest self-contained moments of a long video and repackage them as vertical 9:16 Shorts: a new hook up front, then the original narration.
+
+You MUST respond with a single JSON object and nothing else, matching this shape exactly:
+${SHORTS_SHAPE}`,
+      },
+      {
+        role: "user",
+        content: `Topic: ${topic}
+Style: ${style}
+Target Audience: ${targetAudience}
+
+Script:
+${script}
+
+Candidate clips:
+${candidateList}
+
+Pick the 3-${MAX_SHORTS} strongest candidates that don't share any segment (fewer only if the script has no room for 3). Each must make sense without the rest of the video. Give every segment of a chosen candidate a scene composed for a vertical frame.
+${languageRule(parseLanguage(language))}`.trimEnd(),
+      },
+    ];
+    const options = { task: "shorts", json: true, maxTokens: 3000 } as const;
+
+    const completion = await provider.chat(messages, options);
+    const selections = await validateWithRepair(
+      provider,
+      messages,
+      options,
+      completion,
+      (raw) => validateShorts(raw, candidates),
+      "Shorts selection"
+    );
+
+    const shorts = selections.map((short) => buildShortPackage(pkg, candidates[short.candidate - 1], short));
+    console.log(`Created ${shorts.length} Shorts`);
+
+    return new Response(
+      JSON.stringify({ shorts }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Error in create-shorts function:", error);
+
+    const body = describeProviderError(error);
+    return new Response(
+      JSON.stringify(body),
+      { status: body.statusCode ? 200 : 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -1,28 +1,66 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { describeProviderError, getProvider, ProviderError } from "../_shared/llm.ts";
+import { fromBase64 } from "../_shared/encoding.ts";
+import { createTokenBucket, runPool, withRetry } from "../_shared/scheduler.ts";
+import { buildScenePrompt, parseStyleGuide } from "../_shared/style-guide.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+// Images are stored per user and job: {user_id}/{job_id}/scenes/{orientation}-{index}.png
+const ASSET_BUCKET = "video-assets";
+// Long enough for the browser to download the images and render
+const SIGNED_URL_SECONDS = 60 * 60;
+
+// Image requests in flight at once, and per minute across them; OpenAI's
+// lowest usage tier allows 5 image requests a minute
+const IMAGE_CONCURRENCY = Number(Deno.env.get("IMAGE_CONCURRENCY") ?? 3);
+const IMAGE_REQUESTS_PER_MINUTE = Number(Deno.env.get("IMAGE_REQUESTS_PER_MINUTE") ?? 5);
+const IMAGE_ATTEMPTS = 4;
+
+const isPaymentError = (error: unknown) =>
+  (error instanceof ProviderError && error.status === 402) ||
+  (error instanceof Error && error.message.includes("credits"));
+
+// Rate limits, server errors and dropped connections usually go away on their own
+const isRetryable = (error: unknown) =>
+  error instanceof ProviderError ? error.status === 429 || error.status >= 500 : !isPaymentError(error);
+
+// Closest sizes image models offer for each frame shape; the renderer crops to the exact format
+const IMAGE_SIZES: Record<string, string> = {
+  landscape: "1536x1024",
+  portrait: "1024x1536",
+  square: "1024x1024",
+};
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const { sceneDescriptions, jobId } = await req.json();
+    const {
+      sceneDescriptions,
+      sceneIndexes,
+      jobId,
+      projectId: requestedProjectId,
+      orientation = "landscape",
+      styleGuide: rawStyleGuide,
+    } = await req.json();
     
     if (!Array.isArray(sceneDescriptions) || sceneDescriptions.length === 0) {
       throw new Error("sceneDescriptions must be a non-empty array");
     }
+    const size = IMAGE_SIZES[orientation];
+    if (!size) {
+      throw new Error(`Unknown image orientation "${orientation}"`);
+    }
 
     console.log("Generating images for", sceneDescriptions.length, "scenes");
 
-    const OPENAI_API_KEY = Deno.env.get("OPENAI_API_KEY");
-    if (!OPENAI_API_KEY) {
-      throw new Error("OPENAI_API_KEY is not configured");
-    }
+    const provider = getProvider();
 
     // Import Supabase client for progress updates
     const { createClient } = await import('https://esm.sh/@supabase/supabase-js@2');
@@ -30,6 +68,55 @@ serve(async (req) => {
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseKey);
 
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+    const { data: { user } } = await supabase.auth.getUser(token);
+    if (!user) {
+      throw new Error("You must be logged in to generate scene images");
+    }
+
+    // Images are linked to the job's project, when it has one. Storyboard
+    // images are made before there is a job, for the project directly.
+    let projectId: string | null = null;
+    if (jobId) {
+      const { data: job } = await supabase
+        .from('video_generation_jobs')
+        .select('project_id')
+        .eq('id', jobId)
+        .eq('user_id', user.id)
+        .maybeSingle();
+      if (!job) throw new Error("Video generation job not found");
+      projectId = job.project_id;
+    } else if (requestedProjectId) {
+      const { data: project } = await supabase
+        .from('video_projects')
+        .select('id')
+        .eq('id', requestedProjectId)
+        .eq('user_id', user.id)
+        .maybeSingle();
+      if (!project) throw new Error("Project not found");
+      projectId = project.id;
+    }
+    const folder = `${user.id}/${jobId ?? crypto.randomUUID()}/scenes`;
+
+    // The project's style guide is applied to every scene
+    const styleGuide = parseStyleGuide(rawStyleGuide);
+    let referenceImage: Uint8Array | undefined;
+    if (styleGuide?.referenceImagePath) {
+      if (!styleGuide.referenceImagePath.startsWith(`${user.id}/`)) {
+        throw new Error("The style guide's reference image belongs to another user");
+      }
+      const { data: reference, error: referenceError } = await supabase.storage
+        .from(ASSET_BUCKET)
+        .download(styleGuide.referenceImagePath);
+      if (referenceError) throw new Error(`Failed to load the reference image: ${referenceError.message}`);
+      referenceImage = new Uint8Array(await reference.arrayBuffer());
+    }
+
+    // All scenes by default; a retry passes just the ones that failed
+    const indexes: number[] = Array.isArray(sceneIndexes)
+      ? sceneIndexes.filter((index) => Number.isInteger(index) && index >= 0 && index < sceneDescriptions.length)
+      : sceneDescriptions.map((_, index) => index);
+
     // Update job status to processing
     if (jobId) {
       await supabase
@@ -37,124 +124,113 @@ serve(async (req) => {
         .update({ 
           status: 'processing',
           current_step: 'Generating scene images',
-          total_scenes: sceneDescriptions.length,
+          total_scenes: indexes.length,
+          completed_scenes: 0,
           progress: 0
         })
         .eq('id', jobId);
     }
 
-    // Generate images for each scene sequentially to avoid rate limits
-    const images = [];
-    
-    for (let index = 0; index < sceneDescriptions.length; index++) {
-      const description = sceneDescriptions[index];
-      console.log(`Generating image ${index + 1}/${sceneDescriptions.length}`);
-      
-      // Update progress
-      if (jobId) {
-        const progress = Math.round(((index + 1) / sceneDescriptions.length) * 50);
-        await supabase
-          .from('video_generation_jobs')
-          .update({ 
-            completed_scenes: index + 1,
-            progress: progress,
-            current_step: `Generating image ${index + 1}/${sceneDescriptions.length}`
-          })
-          .eq('id', jobId);
-      }
-      
-      // Retry logic with exponential backoff
-      let retries = 3;
-      let imageUrl = null;
-      
-      while (retries > 0 && !imageUrl) {
-        try {
-          const response = await fetch("https://api.openai.com/v1/images/generations", {
-            method: "POST",
-            headers: {
-              Authorization: `Bearer ${OPENAI_API_KEY}`,
-              "Content-Type": "application/json",
-            },
-            body: JSON.stringify({
-              model: "gpt-image-1",
-              prompt: `Generate a high-quality, professional image for a YouTube video scene: ${description}`,
-              n: 1,
-              size: "1024x1024",
-              quality: "high"
-            }),
-          });
-
-          if (!response.ok) {
-            const errorText = await response.text();
-            console.error("OpenAI API error:", response.status, errorText);
-            
-            // Handle rate limiting
-            if (response.status === 429) {
-              retries--;
-              if (retries > 0) {
-                const waitTime = (4 - retries) * 2000; // 2s, 4s, 6s
-                console.log(`Rate limited. Waiting ${waitTime}ms before retry ${4 - retries}/3`);
-                await new Promise(resolve => setTimeout(resolve, waitTime));
-                continue;
-              } else {
-                throw new Error("OpenAI rate limit exceeded. Please try again in a few moments.");
-              }
-            }
-            
-            throw new Error(`OpenAI API error: ${errorText}`);
-          }
+    // Store the image instead of returning it inline, so it outlives this render
+    const storeImage = async (index: number, base64Image: string) => {
+      const path = `${folder}/${orientation}-${index}.png`;
+      const { error: uploadError } = await supabase.storage
+        .from(ASSET_BUCKET)
+        .upload(path, fromBase64(base64Image), { contentType: 'image/png', upsert: true });
+      if (uploadError) throw new Error(`Failed to store image: ${uploadError.message}`);
 
-          const data = await response.json();
-          const base64Image = data.data?.[0]?.b64_json;
-          
-          if (!base64Image) {
-            console.error("No image in response:", JSON.stringify(data).substring(0, 500));
-            throw new Error("No image generated from OpenAI");
-          }
+      const { error: assetError } = await supabase.from('video_assets').upsert(
+        {
+          user_id: user.id,
+          project_id: projectId,
+          job_id: jobId ?? null,
+          kind: 'scene_image',
+          storage_path: path,
+          content_type: 'image/png',
+          format: orientation,
+          scene_index: index,
+        },
+        { onConflict: 'storage_path' }
+      );
+      if (assetError) throw new Error(`Failed to record image: ${assetError.message}`);
+
+      const { data: signed, error: signError } = await supabase.storage
+        .from(ASSET_BUCKET)
+        .createSignedUrl(path, SIGNED_URL_SECONDS);
+      if (signError) throw new Error(`Failed to sign image: ${signError.message}`);
+      return { imageUrl: signed.signedUrl, path };
+    };
+
+    const bucket = createTokenBucket({ capacity: IMAGE_CONCURRENCY, perMinute: IMAGE_REQUESTS_PER_MINUTE });
+    // Out of credits fails every later request too, so stop sending them
+    let paymentError: Error | null = null;
+    let completed = 0;
 
-          imageUrl = `data:image/png;base64,${base64Image}`;
-          console.log(`Successfully generated image ${index + 1}`);
-          break;
-        } catch (error) {
-          retries--;
-          console.error(`Error generating image (${retries} retries left):`, error);
-          
-          if (retries === 0) {
-            // If we're out of retries and this is due to payment/credits issue, return error response
-            if (error instanceof Error && (error.message.includes("402") || error.message.includes("credits"))) {
-              if (jobId) {
-                await supabase
-                  .from('video_generation_jobs')
-                  .update({ 
-                    status: 'failed',
-                    error_message: 'OpenAI API error: Payment required. Please check your OpenAI account.'
-                  })
-                  .eq('id', jobId);
-              }
-              
-              return new Response(
-                JSON.stringify({
-                  error: "OpenAI API error: Payment required. Please check your OpenAI account.",
-                  statusCode: 402,
-                }),
-                { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-              );
-            }
-            throw error;
+    const settled = await runPool(indexes, IMAGE_CONCURRENCY, async (index) => {
+      if (paymentError) throw paymentError;
+      console.log(`Generating image ${index + 1}/${sceneDescriptions.length}`);
+
+      try {
+        const base64Image = await withRetry(
+          () =>
+            provider.generateImage(buildScenePrompt(sceneDescriptions[index], orientation, styleGuide), {
+              size,
+              referenceImage,
+            }),
+          {
+            attempts: IMAGE_ATTEMPTS,
+            baseDelayMs: 2000,
+            maxDelayMs: 30_000,
+            isRetryable: (error) => !paymentError && isRetryable(error),
+            beforeAttempt: () => bucket.take(),
+            onRetryAfter: (ms) => bucket.pause(ms),
           }
-          
-          await new Promise(resolve => setTimeout(resolve, 1000));
+        );
+        return await storeImage(index, base64Image);
+      } catch (error) {
+        if (isPaymentError(error)) paymentError ??= error as Error;
+        throw error;
+      } finally {
+        completed++;
+        if (jobId) {
+          await supabase
+            .from('video_generation_jobs')
+            .update({ 
+              completed_scenes: completed,
+              progress: Math.round((completed / indexes.length) * 50),
+              current_step: `Generated ${completed}/${indexes.length} images`
+            })
+            .eq('id', jobId);
         }
       }
-      
-      if (!imageUrl) {
-        throw new Error("Failed to generate image after retries");
+    });
+
+    // Without credits there is nothing to retry; the client falls back to placeholders
+    if (paymentError && settled.every((result) => result.status === 'rejected')) {
+      const message = `${provider.name} API error: Payment required. Please check your ${provider.name} account.`;
+      if (jobId) {
+        await supabase
+          .from('video_generation_jobs')
+          .update({ status: 'failed', error_message: message })
+          .eq('id', jobId);
       }
-      
-      images.push(imageUrl);
+      return new Response(
+        JSON.stringify({ error: message, statusCode: 402 }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
     }
 
-    console.log("Successfully generated all images");
+    const images = settled.map((result, i) =>
+      result.status === 'fulfilled'
+        ? { sceneIndex: indexes[i], status: 'succeeded', ...result.value }
+        : {
+            sceneIndex: indexes[i],
+            status: 'failed',
+            ...describeProviderError(result.reason),
+          }
+    );
+    const failed = images.filter((image) => image.status === 'failed').length;
+    console.log(`Generated ${images.length - failed}/${images.length} images`);
 
     // Update job progress
     if (jobId) {
@@ -162,7 +238,9 @@ serve(async (req) => {
         .from('video_generation_jobs')
         .update({ 
           progress: 50,
-          current_step: 'Images generated, preparing video assembly'
+          current_step: failed > 0
+            ? `${failed} of ${images.length} images failed`
+            : 'Images generated, preparing video assembly'
         })
         .eq('id', jobId);
     }
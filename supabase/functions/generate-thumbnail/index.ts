@@ -0,0 +1,173 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { describeProviderError, getProvider, ProviderError } from "../_shared/llm.ts";
+import { fromBase64 } from "../_shared/encoding.ts";
+import { thumbnailSchema } from "../_shared/production-package.ts";
+import { createTokenBucket, runPool, withRetry } from "../_shared/scheduler.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Backgrounds are stored per user and batch: {user_id}/thumbnails/{batch_id}/background-{variant}.png
+const ASSET_BUCKET = "video-assets";
+const SIGNED_URL_SECONDS = 60 * 60;
+
+const MAX_VARIANTS = 4;
+// Closest landscape size image models offer; the editor crops it to 1280x720
+const IMAGE_SIZE = "1536x1024";
+const IMAGE_CONCURRENCY = Number(Deno.env.get("IMAGE_CONCURRENCY") ?? 3);
+const IMAGE_REQUESTS_PER_MINUTE = Number(Deno.env.get("IMAGE_REQUESTS_PER_MINUTE") ?? 5);
+const IMAGE_ATTEMPTS = 3;
+
+// Each variant takes the concept in a different direction, so there is a real choice
+const VARIANT_DIRECTIONS = [
+  "Follow the composition exactly as described.",
+  "Use a tight close-up of the main subject with a dramatic, high-contrast background.",
+  "Use a bold, simplified graphic take on the concept with strong color blocking.",
+  "Use a wide, cinematic view with depth and a clear focal point.",
+];
+
+const isPaymentError = (error: unknown) =>
+  (error instanceof ProviderError && error.status === 402) ||
+  (error instanceof Error && error.message.includes("credits"));
+
+const isRetryable = (error: unknown) =>
+  error instanceof ProviderError ? error.status === 429 || error.status >= 500 : !isPaymentError(error);
+
+function buildThumbnailPrompt(concept: { description: string; composition: string; colors: string[] }, variant: number) {
+  return [
+    "Generate the background image for a YouTube thumbnail: eye-catching, high contrast, readable at small sizes.",
+    `Concept: ${concept.description}`,
+    concept.composition && `Composition: ${concept.composition}`,
+    concept.colors.length > 0 && `Colors: ${concept.colors.join(", ")}`,
+    VARIANT_DIRECTIONS[variant % VARIANT_DIRECTIONS.length],
+    // The headline is drawn on top in the editor, where it can be edited
+    "Do not include any text, letters or logos. Leave clear space for a large headline.",
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { concept: rawConcept, projectId: requestedProjectId, variants = 3 } = await req.json();
+
+    const parsed = thumbnailSchema.safeParse(rawConcept);
+    if (!parsed.success) {
+      throw new Error("A thumbnail concept with a description is required");
+    }
+    const concept = parsed.data;
+    const count = Math.min(MAX_VARIANTS, Math.max(1, Math.floor(Number(variants)) || 1));
+
+    const provider = getProvider();
+
+    const { createClient } = await import('https://esm.sh/@supabase/supabase-js@2');
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+    const { data: { user } } = await supabase.auth.getUser(token);
+    if (!user) {
+      throw new Error("You must be logged in to generate thumbnails");
+    }
+
+    let projectId: string | null = null;
+    if (requestedProjectId) {
+      const { data: project } = await supabase
+        .from('video_projects')
+        .select('id')
+        .eq('id', requestedProjectId)
+        .eq('user_id', user.id)
+        .maybeSingle();
+      if (!project) throw new Error("Project not found");
+      projectId = project.id;
+    }
+    const folder = `${user.id}/thumbnails/${crypto.randomUUID()}`;
+
+    console.log(`Generating ${count} thumbnail backgrounds`);
+
+    const storeImage = async (variant: number, base64Image: string) => {
+      const path = `${folder}/background-${variant}.png`;
+      const { error: uploadError } = await supabase.storage
+        .from(ASSET_BUCKET)
+        .upload(path, fromBase64(base64Image), { contentType: 'image/png', upsert: true });
+      if (uploadError) throw new Error(`Failed to store image: ${uploadError.message}`);
+
+      const { error: assetError } = await supabase.from('video_assets').upsert(
+        {
+          user_id: user.id,
+          project_id: projectId,
+          kind: 'thumbnail',
+          storage_path: path,
+          content_type: 'image/png',
+        },
+        { onConflict: 'storage_path' }
+      );
+      if (assetError) throw new Error(`Failed to record image: ${assetError.message}`);
+
+      const { data: signed, error: signError } = await supabase.storage
+        .from(ASSET_BUCKET)
+        .createSignedUrl(path, SIGNED_URL_SECONDS);
+      if (signError) throw new Error(`Failed to sign image: ${signError.message}`);
+      return { imageUrl: signed.signedUrl, path };
+    };
+
+    const bucket = createTokenBucket({ capacity: IMAGE_CONCURRENCY, perMinute: IMAGE_REQUESTS_PER_MINUTE });
+    let paymentError: Error | null = null;
+
+    const settled = await runPool(Array.from({ length: count }, (_, i) => i), IMAGE_CONCURRENCY, async (variant) => {
+      if (paymentError) throw paymentError;
+      try {
+        const base64Image = await withRetry(
+          () => provider.generateImage(buildThumbnailPrompt(concept, variant), { size: IMAGE_SIZE }),
+          {
+            attempts: IMAGE_ATTEMPTS,
+            baseDelayMs: 2000,
+            maxDelayMs: 30_000,
+            isRetryable: (error) => !paymentError && isRetryable(error),
+            beforeAttempt: () => bucket.take(),
+            onRetryAfter: (ms) => bucket.pause(ms),
+          }
+        );
+        return await storeImage(variant, base64Image);
+      } catch (error) {
+        if (isPaymentError(error)) paymentError ??= error as Error;
+        throw error;
+      }
+    });
+
+    if (paymentError && settled.every((result) => result.status === 'rejected')) {
+      return new Response(
+        JSON.stringify({
+          error: `${provider.name} API error: Payment required. Please check your ${provider.name} account.`,
+          statusCode: 402,
+        }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const images = settled.map((result, variant) =>
+      result.status === 'fulfilled'
+        ? { variant, status: 'succeeded', ...result.value }
+        : { variant, status: 'failed', ...describeProviderError(result.reason) }
+    );
+
+    return new Response(
+      JSON.stringify({ images }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Error in generate-thumbnail function:", error);
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return new Response(
+      JSON.stringify({ error: message, statusCode: 500 }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
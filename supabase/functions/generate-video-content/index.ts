@@ -1,124 +1,186 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { describeProviderError, getProvider, type ChatMessage, type LLMProvider } from "../_shared/llm.ts";
+import {
+  PRODUCTION_PACKAGE_SHAPE,
+  SEO_LIMITS,
+  validateProductionPackage,
+  type ProductionPackage,
+} from "../_shared/production-package.ts";
+import { validateWithRepair } from "../_shared/repair.ts";
+import { generateLongFormPackage, isLongForm, outlineMessages, type VideoBrief } from "../_shared/long-form.ts";
+import { eventStreamResponse } from "../_shared/sse.ts";
+import { languageRule, parseLanguage } from "../_shared/languages.ts";
+import { channelProfileRules, parseChannelProfile, rejectBannedPhrases, type ChannelProfile } from "../_shared/channel-profile.ts";
+import { parsePromptTemplate, promptTemplateRules, templateVariables } from "../_shared/prompt-template.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-serve(async (req) => {
-  if (req.method === 'OPTIONS') {
-    return new Response(null, { headers: corsHeaders });
-  }
+const PACKAGE_CHAT_OPTIONS = { task: "production-package", json: true, maxTokens: 5000 } as const;
 
-  try {
-    const { topic, videoLength, style, targetAudience } = await req.json();
-    
-    console.log("Generating video content for:", { topic, videoLength, style, targetAudience });
+function packageMessages(brief: VideoBrief): ChatMessage[] {
+  const { topic, videoLength, style, targetAudience, language, channelProfile, promptTemplate } = brief;
+  const languageLine = language ? languageRule(language) : "";
+  const templateRules = promptTemplateRules(promptTemplate ?? null, templateVariables(brief));
 
-    const OPENAI_API_KEY = Deno.env.get("OPENAI_API_KEY");
-    if (!OPENAI_API_KEY) {
-      throw new Error("OPENAI_API_KEY is not configured");
-    }
+  // Create a comprehensive system prompt for video production
+  const systemPrompt = `You are a specialized YouTube video production AI. Generate complete, engaging video content that includes:
 
-    // Create a comprehensive system prompt for video production
-    const systemPrompt = `You are a specialized YouTube video production AI. Generate complete, engaging video content that includes:
-
-1. FULL SCRIPT with timestamps
-2. DETAILED VISUAL DESCRIPTIONS for each scene (for stock footage or AI generation)
-3. BACKGROUND MUSIC RECOMMENDATIONS with specific genres and moods
+1. FULL SCRIPT split into timed segments
+2. DETAILED VISUAL DESCRIPTIONS for each segment (for stock footage or AI generation)
+3. BACKGROUND MUSIC CUES with specific genres, moods and time ranges
 4. THUMBNAIL CONCEPT with detailed visual description
+5. YOUTUBE SEO METADATA: title options, description, tags, hashtags and a pinned comment
+
+Make the content highly engaging, professional, and optimized for YouTube's algorithm. Include hooks, storytelling elements, and calls-to-action.
 
-Make the content highly engaging, professional, and optimized for YouTube's algorithm. Include hooks, storytelling elements, and calls-to-action.`;
+You MUST respond with a single JSON object and nothing else, matching this shape exactly:
+${PRODUCTION_PACKAGE_SHAPE}`;
 
-    const userPrompt = `Create a complete YouTube video production package for:
+  const userPrompt = `Create a complete YouTube video production package for:
 
 Topic: ${topic}
 Video Length: ${videoLength}
 Style: ${style}
 Target Audience: ${targetAudience}
 
-CRITICAL: You MUST use these EXACT section headers without any modifications, numbers, or extra words:
-
-## SCRIPT
-[Provide a complete, engaging script with timestamps. Include intro hook, main content sections, transitions, and outro with CTA. Mark timestamps as [00:00], [01:30], etc.]
-
-## VISUAL SCENES
-[For each major scene/timestamp, describe in detail what visuals should appear. Be specific about camera angles, settings, graphics, text overlays, B-roll suggestions, etc.]
-
-## MUSIC RECOMMENDATIONS
-[Suggest 3-5 specific background music tracks with genre, mood, tempo, and when to use them in the video. Include links to royalty-free music sources if possible.]
+Requirements:
+- "segments" cover the whole video back to back: ${templateRules ? "one or more segments per section of the template below" : "intro hook, main content sections, transitions, and outro with CTA"}. Each segment's "end" is the next segment's "start".
+- Every segment has at least one entry in "scenes" whose "segmentId" points at it. Be specific about camera angles, settings, graphics, text overlays and B-roll.
+- Suggest 3-5 "music" cues with genre, mood, tempo and when to use them. Include royalty-free sources in "notes" if possible.
+- The "thumbnail" must be click-worthy: main visual elements, text overlay, colors, facial expressions (if applicable), and composition.
+- "seo.titles" holds ${SEO_LIMITS.titleOptions} distinct title options ranked best first, each under 70 characters so it isn't cut off in search.
+- "seo.description" opens with a keyword-rich hook in its first two lines and has no timestamps; chapters are added from the segments.
+- "seo.tags" stay under ${SEO_LIMITS.tagsLength} characters in total, counting a comma between tags. Mix broad and long-tail keywords.
+- "seo.hashtags" holds 3-5 relevant hashtags; "seo.pinnedComment" invites viewers to comment with a question about the video.
+${languageLine && `- ${languageLine}\n`}${channelProfile ? `\nChannel:\n${channelProfileRules(channelProfile)}\n` : ""}${templateRules ? `\nTemplate "${promptTemplate?.name}":\n${templateRules}\n` : ""}
+Make everything professional, engaging, and production-ready.`;
 
-## THUMBNAIL CONCEPT
-[Provide a detailed thumbnail design description including: main visual elements, text overlay, colors, facial expressions (if applicable), and composition. Make it click-worthy and YouTube algorithm-friendly.]
+  return [
+    { role: "system", content: systemPrompt },
+    { role: "user", content: userPrompt },
+  ];
+}
+
+async function finalizePackage(
+  provider: LLMProvider,
+  messages: ChatMessage[],
+  completion: string,
+  channelProfile: ChannelProfile | null,
+  signal?: AbortSignal
+): Promise<ProductionPackage> {
+  const productionPackage = await validateWithRepair(
+    provider,
+    messages,
+    { ...PACKAGE_CHAT_OPTIONS, signal },
+    completion,
+    (raw) => rejectBannedPhrases(validateProductionPackage(raw), channelProfile),
+    "production package"
+  );
+  console.log("Successfully generated production package with", productionPackage.segments.length, "segments");
+  return productionPackage;
+}
 
-Make everything professional, engaging, and production-ready.`;
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
 
-    const response = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${OPENAI_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "gpt-5-mini-2025-08-07",
-        messages: [
-          { role: "system", content: systemPrompt },
-          { role: "user", content: userPrompt }
-        ],
-        max_completion_tokens: 4000,
-      }),
+  try {
+    const {
+      topic,
+      videoLength,
+      style,
+      targetAudience,
+      language: requestedLanguage,
+      channelProfile: requestedProfile,
+      promptTemplate: requestedTemplate,
+      stream,
+      preview,
+    } = await req.json();
+    const language = parseLanguage(requestedLanguage);
+    const channelProfile = parseChannelProfile(requestedProfile);
+    const promptTemplate = parsePromptTemplate(requestedTemplate);
+    const brief: VideoBrief = { topic, videoLength, style, targetAudience, language, channelProfile, promptTemplate };
+    const longForm = isLongForm(videoLength);
+
+    // Preview mode: return the fully rendered prompt without calling the model
+    if (preview) {
+      return new Response(
+        JSON.stringify({ messages: longForm ? outlineMessages(brief) : packageMessages(brief) }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    
+    console.log("Generating video content for:", {
+      topic,
+      videoLength,
+      style,
+      targetAudience,
+      language,
+      channel: channelProfile?.name ?? null,
+      template: promptTemplate?.name ?? null,
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error("OpenAI API error:", response.status, errorText);
-      
-      if (response.status === 429) {
-        return new Response(
-          JSON.stringify({
-            error: "OpenAI rate limit exceeded. Please try again later.",
-            statusCode: 429,
-          }),
-          { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    const provider = getProvider();
+
+    // Long videos are written chapter by chapter, reporting progress instead of raw deltas
+    if (longForm) {
+      if (stream) {
+        return eventStreamResponse(
+          corsHeaders,
+          async (send, signal) => {
+            const productionPackage = await generateLongFormPackage(provider, brief, {
+              onProgress: (progress) => send("progress", progress),
+              onDraft: (draft) => send("draft", { package: draft }),
+              signal,
+            });
+            send("package", { package: productionPackage });
+          },
+          describeProviderError
         );
       }
-      
-      throw new Error(`OpenAI API error: ${errorText}`);
-    }
 
-    // Read response as text first to debug potential issues
-    const responseText = await response.text();
-    console.log("Response length:", responseText.length);
-    console.log("Response preview:", responseText.substring(0, 200));
-    
-    let data;
-    try {
-      data = JSON.parse(responseText);
-    } catch (parseError) {
-      console.error("Failed to parse JSON response");
-      console.error("Parse error:", parseError);
-      console.error("Response text (first 1000 chars):", responseText.substring(0, 1000));
-      throw new Error("Invalid JSON response from AI gateway");
+      return new Response(
+        JSON.stringify({ package: await generateLongFormPackage(provider, brief) }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
     }
 
-    const generatedContent = data.choices?.[0]?.message?.content;
-    
-    if (!generatedContent) {
-      console.error("No content in response:", JSON.stringify(data).substring(0, 500));
-      throw new Error("No content generated from OpenAI");
+    const messages = packageMessages(brief);
+
+    // Streaming mode: forward raw deltas as they arrive, then the validated package
+    if (stream) {
+      return eventStreamResponse(
+        corsHeaders,
+        async (send, signal) => {
+          let completion = "";
+          for await (const delta of provider.streamChat(messages, { ...PACKAGE_CHAT_OPTIONS, signal })) {
+            completion += delta;
+            send("delta", { text: delta });
+          }
+          send("package", { package: await finalizePackage(provider, messages, completion, channelProfile, signal) });
+        },
+        describeProviderError
+      );
     }
 
-    console.log("Successfully generated video content, length:", generatedContent.length);
+    const completion = await provider.chat(messages, PACKAGE_CHAT_OPTIONS);
+    const productionPackage = await finalizePackage(provider, messages, completion, channelProfile);
 
     return new Response(
-      JSON.stringify({ content: generatedContent }),
+      JSON.stringify({ package: productionPackage }),
       { headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
   } catch (error) {
     console.error("Error in generate-video-content function:", error);
+
+    const body = describeProviderError(error);
     return new Response(
-      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
-      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      JSON.stringify(body),
+      { status: body.statusCode ? 200 : 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
   }
 });
@@ -0,0 +1,52 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { describeProviderError } from "../_shared/llm.ts";
+import { toBase64 } from "../_shared/encoding.ts";
+import { getTTSProvider } from "../_shared/tts.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { text, voice, speed, listVoices } = await req.json();
+    const provider = getTTSProvider();
+
+    // Lets the client offer exactly the voices the configured provider supports
+    if (listVoices) {
+      return new Response(
+        JSON.stringify({ provider: provider.name, voices: provider.voices }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (typeof text !== "string" || !text.trim()) {
+      throw new Error("text must be a non-empty string");
+    }
+
+    const clip = await provider.synthesize(text, {
+      voice: provider.voices.includes(voice) ? voice : provider.voices[0],
+      speed: Math.min(2, Math.max(0.5, Number(speed) || 1)),
+    });
+
+    console.log(`Synthesized ${text.length} characters with ${provider.name}: ${clip.audio.length} bytes`);
+
+    return new Response(
+      JSON.stringify({ audio: toBase64(clip.audio), mimeType: clip.mimeType }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Error in generate-voiceover function:", error);
+
+    const body = describeProviderError(error);
+    return new Response(
+      JSON.stringify(body),
+      { status: body.statusCode ? 200 : 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
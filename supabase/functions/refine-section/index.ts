@@ -0,0 +1,130 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { describeProviderError, getProvider, type ChatMessage } from "../_shared/llm.ts";
+import {
+  PRODUCTION_PACKAGE_SHAPE,
+  SECTION_FIELDS,
+  SEO_LIMITS,
+  productionPackageSchema,
+  validateSection,
+  type ProductionPackage,
+  type SectionKey,
+} from "../_shared/production-package.ts";
+import { validateWithRepair } from "../_shared/repair.ts";
+import { languageRule, parseLanguage } from "../_shared/languages.ts";
+import { bannedPhraseIssues, channelProfileRules, parseChannelProfile } from "../_shared/channel-profile.ts";
+import { parsePromptTemplate, promptTemplateRules, templateVariables } from "../_shared/prompt-template.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Extra guidance per section so the rewrite doesn't break the others
+const SECTION_RULES: Record<SectionKey, string> = {
+  script: "Keep the existing segment ids and overall timing wherever possible so the visual scenes still line up. Segments stay back to back.",
+  visuals: "Every segment needs at least one scene, and every segmentId must be one of the existing segment ids.",
+  music: "Cues must fit inside the script's timeline and follow its emotional arc.",
+  thumbnail: "The headline must be short enough to read at a glance on a phone.",
+  seo: `Give exactly ${SEO_LIMITS.titleOptions} titles, best first. Keep tags under ${SEO_LIMITS.tagsLength} characters in total and leave timestamps out of the description.`,
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const {
+      section,
+      instruction,
+      package: currentPackage,
+      topic,
+      videoLength,
+      style,
+      targetAudience,
+      language,
+      channelProfile: requestedProfile,
+      promptTemplate: requestedTemplate,
+    } = await req.json();
+    const channelProfile = parseChannelProfile(requestedProfile);
+    const promptTemplate = parsePromptTemplate(requestedTemplate);
+
+    if (typeof section !== "string" || !Object.hasOwn(SECTION_FIELDS, section)) {
+      throw new Error(`Unknown section "${section}"`);
+    }
+    const parsedPackage = productionPackageSchema.safeParse(currentPackage);
+    if (!parsedPackage.success) {
+      throw new Error("package must be a valid production package");
+    }
+    const base = parsedPackage.data;
+    const sectionKey = section as SectionKey;
+    const field = SECTION_FIELDS[sectionKey];
+
+    console.log("Refining section:", { section, instruction: instruction || null, topic });
+
+    const provider = getProvider();
+
+    const systemPrompt = `You are a specialized YouTube video production AI revising one section of an existing video production package. The rest of the package stays as it is, so the revised section must stay consistent with it: same topic, tone, facts, names and timeline.
+
+Production packages have this shape:
+${PRODUCTION_PACKAGE_SHAPE}
+
+You MUST respond with a single JSON object containing only the "${field}" field, and nothing else.`;
+
+    const task = instruction?.trim()
+      ? `Revise the "${field}" field following this instruction: ${instruction.trim()}`
+      : `Write a fresh, stronger version of the "${field}" field.`;
+
+    const userPrompt = `Topic: ${topic}
+Video Length: ${videoLength}
+Style: ${style}
+Target Audience: ${targetAudience}
+Section: ${sectionKey}
+
+Current package (for context):
+\`\`\`json
+${JSON.stringify(base, null, 2)}
+\`\`\`
+
+${task}
+${SECTION_RULES[sectionKey]}
+${languageRule(parseLanguage(language))}
+${channelProfileRules(channelProfile)}
+${promptTemplateRules(promptTemplate, templateVariables({ topic, videoLength, style, targetAudience, language, channelProfile }))}`.trim();
+
+    const messages: ChatMessage[] = [
+      { role: "system", content: systemPrompt },
+      { role: "user", content: userPrompt },
+    ];
+    const options = { task: "section", json: true, maxTokens: 4000 } as const;
+
+    const completion = await provider.chat(messages, options);
+    const productionPackage = await validateWithRepair(
+      provider,
+      messages,
+      options,
+      completion,
+      (raw) => {
+        const result = validateSection(raw, sectionKey, base);
+        if (!result.success) return result;
+        // Only the rewritten section is checked, since the rest of the package stays as it is
+        const issues = bannedPhraseIssues({ [field]: result.data[field] } as Partial<ProductionPackage>, channelProfile);
+        return issues.length > 0 ? { success: false, issues } : result;
+      },
+      `${sectionKey} section`
+    );
+
+    return new Response(
+      JSON.stringify({ package: productionPackage }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Error in refine-section function:", error);
+
+    const body = describeProviderError(error);
+    return new Response(
+      JSON.stringify(body),
+      { status: body.statusCode ? 200 : 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,92 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { describeProviderError, getProvider, type ChatMessage } from "../_shared/llm.ts";
+import { productionPackageSchema, SEO_LIMITS } from "../_shared/production-package.ts";
+import { validateWithRepair } from "../_shared/repair.ts";
+import { LANGUAGES, parseLanguage } from "../_shared/languages.ts";
+import { applyTranslation, translationBatches, validateTranslation } from "../_shared/translation.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { package: currentPackage, language, sourceLanguage, topic, style, targetAudience } = await req.json();
+
+    const parsedPackage = productionPackageSchema.safeParse(currentPackage);
+    if (!parsedPackage.success) {
+      throw new Error("package must be a valid production package");
+    }
+    const target = parseLanguage(language);
+    const source = parseLanguage(sourceLanguage);
+    if (target === source) {
+      throw new Error(`The project is already in ${LANGUAGES[target]}`);
+    }
+
+    const pkg = parsedPackage.data;
+    const batches = translationBatches(pkg);
+    console.log(`Translating ${pkg.segments.length} segments from ${source} to ${target} in ${batches.length} batches`);
+
+    const provider = getProvider();
+    const options = { task: "translation", json: true, maxTokens: 6000 } as const;
+
+    const translated = [];
+    // One batch at a time, so a failed batch stops the job before the rest are paid for
+    for (const [index, batch] of batches.entries()) {
+      const messages: ChatMessage[] = [
+        {
+          role: "system",
+          content: `You are a specialized YouTube localization AI. You translate video scripts for native speakers of the target language, adapting idioms, examples, units and cultural references so the video feels made for them.
+
+You MUST respond with a single JSON object and nothing else, with exactly the same shape, keys and ids as the JSON you are given.`,
+        },
+        {
+          role: "user",
+          content: `Topic: ${topic}
+Style: ${style}
+Target Audience: ${targetAudience}
+Language: ${LANGUAGES[target]}
+
+Translate this ${LANGUAGES[source]} text${batches.length > 1 ? ` (part ${index + 1} of ${batches.length})` : ""} into ${LANGUAGES[target]}:
+\`\`\`json
+${JSON.stringify(batch, null, 2)}
+\`\`\`
+
+- Each segment is narrated over a fixed time slot, so keep its "text" about as long to say as the original.
+- Keep "onScreenText" short enough to read at a glance.${batch.seo ? `
+- Translate "seo" for search in ${LANGUAGES[target]}: rewrite tags and hashtags as people search in that language rather than translating them literally, keep ${SEO_LIMITS.titleOptions} titles and keep tags under ${SEO_LIMITS.tagsLength} characters in total.` : ""}`,
+        },
+      ];
+
+      const completion = await provider.chat(messages, options);
+      translated.push(
+        await validateWithRepair(
+          provider,
+          messages,
+          options,
+          completion,
+          (raw) => validateTranslation(raw, batch),
+          `${LANGUAGES[target]} translation`
+        )
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ package: applyTranslation(pkg, translated) }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Error in translate-project function:", error);
+
+    const body = describeProviderError(error);
+    return new Response(
+      JSON.stringify(body),
+      { status: body.statusCode ? 200 : 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
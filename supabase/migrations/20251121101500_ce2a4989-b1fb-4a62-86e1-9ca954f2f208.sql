@@ -0,0 +1,76 @@
+-- Immutable revision history for video projects
+CREATE TABLE public.video_project_revisions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID NOT NULL REFERENCES public.video_projects(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  generated_content TEXT NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('generation', 'edit', 'restore')),
+  restored_from UUID REFERENCES public.video_project_revisions(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX video_project_revisions_project_id_created_at_idx
+  ON public.video_project_revisions (project_id, created_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE public.video_project_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for users: revisions are only ever written by the trigger below,
+-- and there are no UPDATE or DELETE policies, so history can't be rewritten
+CREATE POLICY "Users can view their own project revisions"
+ON public.video_project_revisions
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Record a revision whenever a project's content is created or changes.
+-- Restoring is a plain UPDATE of video_projects (so the usual ownership
+-- policies apply); it is recognised by the content matching an earlier revision.
+CREATE OR REPLACE FUNCTION public.record_video_project_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  previous_revision UUID;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    SELECT id INTO previous_revision
+    FROM public.video_project_revisions
+    WHERE project_id = NEW.id
+      AND generated_content = NEW.generated_content
+    ORDER BY created_at DESC
+    LIMIT 1;
+  END IF;
+
+  INSERT INTO public.video_project_revisions (project_id, user_id, generated_content, source, restored_from)
+  VALUES (
+    NEW.id,
+    NEW.user_id,
+    NEW.generated_content,
+    CASE
+      WHEN TG_OP = 'INSERT' THEN 'generation'
+      WHEN previous_revision IS NOT NULL THEN 'restore'
+      ELSE 'edit'
+    END,
+    previous_revision
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_video_project_revision_on_insert
+AFTER INSERT ON public.video_projects
+FOR EACH ROW
+EXECUTE FUNCTION public.record_video_project_revision();
+
+CREATE TRIGGER record_video_project_revision_on_update
+AFTER UPDATE OF generated_content ON public.video_projects
+FOR EACH ROW
+WHEN (OLD.generated_content IS DISTINCT FROM NEW.generated_content)
+EXECUTE FUNCTION public.record_video_project_revision();
+
+-- Seed history with the current content of existing projects
+INSERT INTO public.video_project_revisions (project_id, user_id, generated_content, source, created_at)
+SELECT id, user_id, generated_content, 'generation', updated_at
+FROM public.video_projects;
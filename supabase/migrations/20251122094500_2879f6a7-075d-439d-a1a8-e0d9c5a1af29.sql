@@ -0,0 +1,7 @@
+-- Renders can now be cancelled from the browser
+ALTER TABLE public.video_generation_jobs
+  DROP CONSTRAINT IF EXISTS video_generation_jobs_status_check;
+
+ALTER TABLE public.video_generation_jobs
+  ADD CONSTRAINT video_generation_jobs_status_check
+  CHECK (status IN ('pending', 'processing', 'completed', 'failed', 'cancelled'));
@@ -0,0 +1,66 @@
+-- Long videos can be rendered by a server-side worker (render-worker/)
+-- instead of FFmpeg.wasm in the browser. The browser uploads the render
+-- inputs and a manifest; the worker claims the job, renders with native
+-- FFmpeg and uploads the videos next to the inputs.
+ALTER TABLE public.video_generation_jobs
+  ADD COLUMN renderer TEXT NOT NULL DEFAULT 'browser' CHECK (renderer IN ('browser', 'server')),
+  ADD COLUMN manifest JSONB,
+  ADD COLUMN outputs JSONB,
+  ADD COLUMN worker_id TEXT,
+  ADD COLUMN claimed_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX video_generation_jobs_server_queue_idx
+  ON public.video_generation_jobs (created_at)
+  WHERE renderer = 'server' AND status IN ('pending', 'processing');
+
+-- Hands the oldest queued server job to a worker. A job still marked as
+-- processing whose row hasn't been touched for ten minutes belongs to a
+-- worker that died, so it is handed out again. SKIP LOCKED keeps two
+-- workers from claiming the same row.
+CREATE OR REPLACE FUNCTION public.claim_video_generation_job(p_worker_id TEXT)
+RETURNS SETOF public.video_generation_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.video_generation_jobs
+  SET status = 'processing',
+      worker_id = p_worker_id,
+      claimed_at = now(),
+      current_step = 'Rendering on server'
+  WHERE id = (
+    SELECT id
+    FROM public.video_generation_jobs
+    WHERE renderer = 'server'
+      AND manifest IS NOT NULL
+      AND (
+        status = 'pending'
+        OR (status = 'processing' AND updated_at < now() - INTERVAL '10 minutes')
+      )
+    ORDER BY created_at
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$;
+
+-- Only the worker, using the service role, may claim jobs
+REVOKE EXECUTE ON FUNCTION public.claim_video_generation_job(TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Render inputs and outputs, one folder per user: {user_id}/{job_id}/inputs|outputs/
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('render-jobs', 'render-jobs', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can upload render inputs to their own folder"
+ON storage.objects
+FOR INSERT
+WITH CHECK (bucket_id = 'render-jobs' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can read their own render files"
+ON storage.objects
+FOR SELECT
+USING (bucket_id = 'render-jobs' AND (storage.foldername(name))[1] = auth.uid()::text);
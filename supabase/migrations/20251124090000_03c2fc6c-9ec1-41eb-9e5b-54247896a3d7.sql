@@ -0,0 +1,63 @@
+-- Scene images, rendered videos and their captions are kept in storage so
+-- past renders can be replayed and downloaded again
+ALTER TABLE public.video_generation_jobs
+  ADD COLUMN project_id UUID REFERENCES public.video_projects(id) ON DELETE SET NULL;
+
+CREATE TABLE public.video_assets (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  project_id UUID REFERENCES public.video_projects(id) ON DELETE CASCADE,
+  job_id UUID REFERENCES public.video_generation_jobs(id) ON DELETE SET NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('scene_image', 'video', 'captions')),
+  -- Path in the video-assets bucket: {user_id}/{job_id}/...
+  storage_path TEXT NOT NULL UNIQUE,
+  content_type TEXT NOT NULL,
+  -- Aspect ratio of videos and captions, orientation of scene images
+  format TEXT,
+  scene_index INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX video_assets_project_id_created_at_idx
+  ON public.video_assets (project_id, created_at DESC);
+
+CREATE INDEX video_assets_job_id_idx
+  ON public.video_assets (job_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.video_assets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own assets"
+ON public.video_assets
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own assets"
+ON public.video_assets
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own assets"
+ON public.video_assets
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- One folder per user; the render worker and edge functions write with the service role
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('video-assets', 'video-assets', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can upload assets to their own folder"
+ON storage.objects
+FOR INSERT
+WITH CHECK (bucket_id = 'video-assets' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can read their own assets"
+ON storage.objects
+FOR SELECT
+USING (bucket_id = 'video-assets' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can delete their own assets"
+ON storage.objects
+FOR DELETE
+USING (bucket_id = 'video-assets' AND (storage.foldername(name))[1] = auth.uid()::text);
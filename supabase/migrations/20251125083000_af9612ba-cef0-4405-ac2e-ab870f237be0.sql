@@ -0,0 +1,5 @@
+-- Project-level style guide applied to every generated scene image:
+-- { artStyle, palette, lighting, characters: [{ name, description }],
+--   referenceImagePath, negativePrompt }
+ALTER TABLE public.video_projects
+  ADD COLUMN style_guide JSONB;
@@ -0,0 +1,4 @@
+-- Thumbnail backgrounds are kept with the project's other assets
+ALTER TABLE public.video_assets DROP CONSTRAINT video_assets_kind_check;
+ALTER TABLE public.video_assets
+  ADD CONSTRAINT video_assets_kind_check CHECK (kind IN ('scene_image', 'video', 'captions', 'thumbnail'));
@@ -0,0 +1,7 @@
+-- Shorts cut from a long-form project are saved as its child projects
+ALTER TABLE public.video_projects
+  ADD COLUMN parent_project_id UUID REFERENCES public.video_projects(id) ON DELETE CASCADE,
+  ADD COLUMN kind TEXT NOT NULL DEFAULT 'original' CHECK (kind IN ('original', 'short'));
+
+CREATE INDEX video_projects_parent_project_id_idx
+  ON public.video_projects (parent_project_id);
@@ -0,0 +1,8 @@
+-- Projects record the language they are written in; translations are saved
+-- as child projects of the one they were translated from
+ALTER TABLE public.video_projects
+  ADD COLUMN language TEXT NOT NULL DEFAULT 'en';
+
+ALTER TABLE public.video_projects
+  DROP CONSTRAINT video_projects_kind_check,
+  ADD CONSTRAINT video_projects_kind_check CHECK (kind IN ('original', 'short', 'translation'));
@@ -0,0 +1,52 @@
+-- Channel profiles: a brand kit reused across projects. The voice, lines and
+-- banned phrases are injected into generation prompts; the logo, colors and
+-- font are applied when rendering
+CREATE TABLE public.channel_profiles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  brand_voice TEXT NOT NULL DEFAULT '',
+  tone_rules TEXT NOT NULL DEFAULT '',
+  intro_line TEXT NOT NULL DEFAULT '',
+  outro_line TEXT NOT NULL DEFAULT '',
+  banned_phrases TEXT[] NOT NULL DEFAULT '{}',
+  cta TEXT NOT NULL DEFAULT '',
+  -- Path in the video-assets bucket, under the user's folder
+  logo_path TEXT,
+  primary_color TEXT NOT NULL DEFAULT '#667eea',
+  secondary_color TEXT NOT NULL DEFAULT '#764ba2',
+  font TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.channel_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own channel profiles"
+  ON public.channel_profiles
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own channel profiles"
+  ON public.channel_profiles
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own channel profiles"
+  ON public.channel_profiles
+  FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own channel profiles"
+  ON public.channel_profiles
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_channel_profiles_updated_at
+  BEFORE UPDATE ON public.channel_profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The profile a project was generated with, so its renders use the same brand
+ALTER TABLE public.video_projects
+  ADD COLUMN channel_profile_id UUID REFERENCES public.channel_profiles(id) ON DELETE SET NULL;
@@ -0,0 +1,41 @@
+-- Prompt templates: a reusable section structure and tone under a custom
+-- style name. Placeholders such as {topic} and {audience} are filled in by
+-- the generation function; shared templates are visible to every user
+CREATE TABLE public.prompt_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  style_name TEXT NOT NULL,
+  structure TEXT NOT NULL DEFAULT '',
+  tone TEXT NOT NULL DEFAULT '',
+  is_shared BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.prompt_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own and shared prompt templates"
+  ON public.prompt_templates
+  FOR SELECT
+  USING (auth.uid() = user_id OR is_shared);
+
+CREATE POLICY "Users can create their own prompt templates"
+  ON public.prompt_templates
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own prompt templates"
+  ON public.prompt_templates
+  FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own prompt templates"
+  ON public.prompt_templates
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_prompt_templates_updated_at
+  BEFORE UPDATE ON public.prompt_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,57 @@
+-- Users may update their own jobs, which used to include the manifest the
+-- render worker runs and the fields it owns. Browser renders still report
+-- their own progress, but once a job is queued for the server its manifest is
+-- fixed and only the worker moves it along; the user can only cancel it, fail
+-- it or take it back before a worker claims it. Requests made with the
+-- service role (the worker) or without a JWT (migrations) are not restricted.
+CREATE OR REPLACE FUNCTION public.guard_video_generation_job()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF coalesce(auth.role(), '') NOT IN ('anon', 'authenticated') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.renderer <> 'browser' OR NEW.manifest IS NOT NULL OR NEW.outputs IS NOT NULL
+      OR NEW.worker_id IS NOT NULL OR NEW.claimed_at IS NOT NULL THEN
+      RAISE EXCEPTION 'New jobs are rendered in the browser until they are queued for the server';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.worker_id IS DISTINCT FROM OLD.worker_id
+    OR NEW.claimed_at IS DISTINCT FROM OLD.claimed_at
+    OR NEW.outputs IS DISTINCT FROM OLD.outputs THEN
+    RAISE EXCEPTION 'Only the render worker can change worker_id, claimed_at or outputs';
+  END IF;
+
+  -- A manifest is set once, when the job is queued, and never changed or cleared
+  IF NEW.manifest IS DISTINCT FROM OLD.manifest AND OLD.manifest IS NOT NULL THEN
+    RAISE EXCEPTION 'The render manifest of a queued job cannot be changed';
+  END IF;
+
+  IF NEW.renderer IS DISTINCT FROM OLD.renderer THEN
+    IF NEW.renderer = 'server' AND NOT (OLD.manifest IS NULL AND NEW.manifest IS NOT NULL AND NEW.status = 'pending') THEN
+      RAISE EXCEPTION 'A job is queued for the server once, together with its manifest';
+    END IF;
+    IF NEW.renderer = 'browser' AND OLD.status <> 'pending' THEN
+      RAISE EXCEPTION 'A job can only be taken back before a render worker claims it';
+    END IF;
+  END IF;
+
+  IF OLD.renderer = 'server' AND NEW.renderer = 'server'
+    AND NEW.status IS DISTINCT FROM OLD.status AND NEW.status NOT IN ('cancelled', 'failed') THEN
+    RAISE EXCEPTION 'Only the render worker can move a server job to %', NEW.status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_video_generation_job
+  BEFORE INSERT OR UPDATE ON public.video_generation_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_video_generation_job();
@@ -0,0 +1,18 @@
+-- Assets may only be filed under the user's own projects and jobs, so nobody
+-- can attach rows to someone else's project or render history
+DROP POLICY "Users can create their own assets" ON public.video_assets;
+
+CREATE POLICY "Users can create their own assets"
+ON public.video_assets
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND (
+    project_id IS NULL
+    OR EXISTS (SELECT 1 FROM public.video_projects p WHERE p.id = project_id AND p.user_id = auth.uid())
+  )
+  AND (
+    job_id IS NULL
+    OR EXISTS (SELECT 1 FROM public.video_generation_jobs j WHERE j.id = job_id AND j.user_id = auth.uid())
+  )
+);
@@ -0,0 +1,6 @@
+-- Lets the browser remove the inputs of server renders that never finished:
+-- jobs taken back from the queue, cancelled before a worker claimed them, or failed
+CREATE POLICY "Users can delete their own render files"
+ON storage.objects
+FOR DELETE
+USING (bucket_id = 'render-jobs' AND (storage.foldername(name))[1] = auth.uid()::text);
@@ -1,8 +1,28 @@
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
+import { readFileSync } from "fs";
 import { componentTagger } from "lovable-tagger";
 
+// The render worker talks to the core's Emscripten API directly, which only
+// stays stable within a minor release
+const SUPPORTED_FFMPEG_CORE = /^0\.12\./;
+
+function ffmpegCoreVersion(): string {
+  const version = (name: string): string =>
+    JSON.parse(readFileSync(path.resolve(__dirname, "node_modules", name, "package.json"), "utf8")).version;
+
+  const core = version("@ffmpeg/core");
+  const coreMt = version("@ffmpeg/core-mt");
+  if (!SUPPORTED_FFMPEG_CORE.test(core)) {
+    throw new Error(`@ffmpeg/core ${core} is not supported; install a 0.12.x release`);
+  }
+  if (core !== coreMt) {
+    throw new Error(`@ffmpeg/core (${core}) and @ffmpeg/core-mt (${coreMt}) must be the same version`);
+  }
+  return core;
+}
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   server: {
@@ -10,9 +30,25 @@ export default defineConfig(({ mode }) => ({
     port: 8080,
   },
   plugins: [react(), mode === "development" && componentTagger()].filter(Boolean),
+  // The render worker imports the FFmpeg core as an ES module at runtime
+  worker: {
+    format: "es",
+  },
   resolve: {
-    alias: {
-      "@": path.resolve(__dirname, "./src"),
-    },
+    alias: [
+      { find: "@", replacement: path.resolve(__dirname, "./src") },
+      // Not in the package's exports, but the multithreaded core needs it served too
+      {
+        find: /^@ffmpeg\/core-mt\/worker(\?.*)?$/,
+        replacement: `${path.resolve(__dirname, "node_modules/@ffmpeg/core-mt/dist/esm/ffmpeg-core.worker.js")}$1`,
+      },
+    ],
+  },
+  build: {
+    // Emscripten starts the pthread worker from a URL, so it can't be inlined as a data URI
+    assetsInlineLimit: (filePath: string) => (filePath.includes("@ffmpeg/core") ? false : undefined),
+  },
+  define: {
+    __FFMPEG_CORE_VERSION__: JSON.stringify(ffmpegCoreVersion()),
   },
 }));